@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { User } from '../src/models/User';
+import { UserRole } from '../src/types';
+
+dotenv.config();
+
+/**
+ * Grant or revoke user roles from the command line
+ *
+ * Usage:
+ *   npx tsx scripts/grantRole.ts <email> <role> [--revoke]
+ *   npx tsx scripts/grantRole.ts --backfill
+ *
+ * Use this to bootstrap the first admin; after that, admins can manage roles
+ * through PUT /api/identity/:email/roles. --backfill gives accounts created
+ * before roles existed the buyer role, plus vendor for vendor profiles.
+ */
+
+const args = process.argv.slice(2);
+const revoke = args.includes('--revoke');
+const backfill = args.includes('--backfill');
+const [email, role] = args.filter(arg => !arg.startsWith('--'));
+
+const validRoles = Object.values(UserRole) as string[];
+
+async function backfillRoles() {
+  const buyers = await User.updateMany(
+    { roles: { $exists: false }, 'profile.isVendor': { $ne: true } },
+    { $set: { roles: [UserRole.BUYER] } }
+  );
+  const vendors = await User.updateMany(
+    { roles: { $exists: false }, 'profile.isVendor': true },
+    { $set: { roles: [UserRole.BUYER, UserRole.VENDOR] } }
+  );
+
+  console.log(`Backfilled roles: ${buyers.modifiedCount} buyers, ${vendors.modifiedCount} vendors`);
+}
+
+async function grantRole() {
+  if (!backfill && (!email || !role || !validRoles.includes(role))) {
+    console.error('Usage: npx tsx scripts/grantRole.ts <email> <role> [--revoke]');
+    console.error('       npx tsx scripts/grantRole.ts --backfill');
+    console.error(`Roles: ${validRoles.join(', ')}`);
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(process.env.DATABASE_URL || 'mongodb://localhost:27017/synkio');
+    console.log('Connected to MongoDB');
+
+    if (backfill) {
+      await backfillRoles();
+      await mongoose.disconnect();
+      process.exit(0);
+    }
+
+    const user = await User.findOneAndUpdate(
+      { email: email.toLowerCase().trim() },
+      revoke ? { $pull: { roles: role } } : { $addToSet: { roles: role } },
+      { new: true }
+    );
+
+    if (!user) {
+      console.error(`User not found: ${email}`);
+      await mongoose.disconnect();
+      process.exit(1);
+    }
+
+    console.log(`${revoke ? 'Revoked' : 'Granted'} ${role} for ${user.email}; roles are now: ${user.roles.join(', ') || '(none)'}`);
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error updating roles:', error);
+    process.exit(1);
+  }
+}
+
+grantRole();
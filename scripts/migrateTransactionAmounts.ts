@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { Transaction } from '../src/models/Transaction';
+import { getNetwork, isNetworkKey, DEFAULT_NETWORK_KEY } from '../src/config/networks';
+
+dotenv.config();
+
+/**
+ * Convert legacy floating-point Transaction amounts to base-unit strings
+ *
+ * Usage:
+ *   npx tsx scripts/migrateTransactionAmounts.ts [--dry-run]
+ *
+ * Transactions used to store `amount` (and milestone amounts) as a JS number in
+ * whole tokens, labelled only ETH or USDC. Each legacy record is resolved to the
+ * token with that symbol on its network, converted with the token's decimals and
+ * given tokenAddress/decimals. Records whose currency has no matching token are
+ * reported and left untouched.
+ */
+
+const dryRun = process.argv.includes('--dry-run');
+
+/**
+ * The shortest decimal string that round-trips to the number, without exponent notation
+ * toFixed(18) would print the binary approximation instead: (0.1).toFixed(18) is 0.100000000000000006.
+ */
+function toPlainDecimal(amount: number): string {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid amount ${amount}`);
+  }
+
+  const [mantissa, exponentPart] = String(amount).split('e');
+  if (exponentPart === undefined) {
+    return mantissa;
+  }
+
+  const [whole, fraction = ''] = mantissa.split('.');
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponentPart);
+
+  if (point <= 0) {
+    return `0.${'0'.repeat(-point)}${digits}`;
+  }
+  if (point >= digits.length) {
+    return digits + '0'.repeat(point - digits.length);
+  }
+  return `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+function toBaseUnits(amount: number, decimals: number): string {
+  // parseUnits refuses amounts with more fractional digits than the token has
+  return ethers.parseUnits(toPlainDecimal(amount), decimals).toString();
+}
+
+async function migrateTransactionAmounts() {
+  try {
+    await mongoose.connect(process.env.DATABASE_URL || 'mongodb://localhost:27017/synkio');
+    console.log('Connected to MongoDB');
+
+    // Read the raw documents; the schema now casts amount to a string
+    const legacy = await Transaction.collection
+      .find({ $or: [{ amount: { $type: 'number' } }, { 'metadata.milestones.amount': { $type: 'number' } }] })
+      .toArray();
+
+    let migrated = 0;
+    let skipped = 0;
+
+    for (const doc of legacy) {
+      const network = getNetwork(isNetworkKey(doc.network) ? doc.network : DEFAULT_NETWORK_KEY);
+      const currency = String(doc.currency || 'ETH').toUpperCase();
+      const token = network.tokens.find(candidate => candidate.symbol === currency);
+
+      if (!token) {
+        console.warn(`Skipping ${doc.transactionId}: no ${currency} token on ${network.name}`);
+        skipped++;
+        continue;
+      }
+
+      const update: Record<string, any> = {
+        tokenAddress: token.address.toLowerCase(),
+        decimals: token.decimals
+      };
+      try {
+        if (typeof doc.amount === 'number') {
+          update.amount = toBaseUnits(doc.amount, token.decimals);
+        }
+        if (Array.isArray(doc.metadata?.milestones)) {
+          update['metadata.milestones'] = doc.metadata.milestones.map((milestone: any) => ({
+            ...milestone,
+            amount: typeof milestone.amount === 'number' ? toBaseUnits(milestone.amount, token.decimals) : milestone.amount
+          }));
+        }
+      } catch (error: any) {
+        console.warn(`Skipping ${doc.transactionId}: ${error.shortMessage || error.message}`);
+        skipped++;
+        continue;
+      }
+
+      console.log(`${doc.transactionId}: ${doc.amount} ${currency} -> ${update.amount ?? doc.amount} base units`);
+      if (!dryRun) {
+        await Transaction.collection.updateOne({ _id: doc._id }, { $set: update });
+      }
+      migrated++;
+    }
+
+    console.log(`${dryRun ? 'Would migrate' : 'Migrated'} ${migrated} transaction(s); skipped ${skipped}`);
+
+    await mongoose.disconnect();
+    process.exit(skipped > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('Error migrating transaction amounts:', error);
+    process.exit(1);
+  }
+}
+
+migrateTransactionAmounts();
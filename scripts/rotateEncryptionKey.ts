@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { User } from '../src/models/User';
+import { WalletService } from '../src/services/WalletService';
+
+dotenv.config();
+
+/**
+ * Re-wrap every User.encryptedPrivateKey under the current ENCRYPTION_KEY
+ *
+ * Rotation steps:
+ * 1. Set ENCRYPTION_KEY / ENCRYPTION_KEY_ID to the new key
+ * 2. Move the old key into ENCRYPTION_PREVIOUS_KEYS as "oldKeyId:oldKey"
+ * 3. Deploy, then run: npx tsx scripts/rotateEncryptionKey.ts [--dry-run] [--batch-size=100]
+ * 4. Once the script reports zero remaining records, drop the old key from ENCRYPTION_PREVIOUS_KEYS
+ *
+ * Legacy "iv:encrypted" records are upgraded to the v2 envelope on the way.
+ */
+
+const walletService = new WalletService();
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const batchSizeArg = args.find(arg => arg.startsWith('--batch-size='));
+const batchSize = batchSizeArg ? Math.max(1, Number(batchSizeArg.split('=')[1]) || 100) : 100;
+
+async function rotateEncryptionKey() {
+  try {
+    await mongoose.connect(process.env.DATABASE_URL || 'mongodb://localhost:27017/synkio');
+    console.log('Connected to MongoDB');
+    console.log(`Rotating wallet keys to key id "${walletService.getCurrentKeyId()}"${dryRun ? ' (dry run)' : ''}`);
+
+    const stats = { scanned: 0, rewrapped: 0, skipped: 0, conflicts: 0, failed: 0 };
+    const failures: string[] = [];
+
+    const cursor = User.find({})
+      .select('email password encryptedPrivateKey')
+      .batchSize(batchSize)
+      .cursor();
+
+    for await (const user of cursor) {
+      stats.scanned++;
+
+      if (!walletService.needsRewrap(user.encryptedPrivateKey)) {
+        stats.skipped++;
+        continue;
+      }
+
+      try {
+        const rewrapped = walletService.rewrapPrivateKey(user.encryptedPrivateKey, user.password);
+
+        if (dryRun) {
+          stats.rewrapped++;
+          continue;
+        }
+
+        // Only replace the value we decrypted, in case a password change raced with the job
+        const result = await User.updateOne(
+          { _id: user._id, encryptedPrivateKey: user.encryptedPrivateKey, password: user.password },
+          { encryptedPrivateKey: rewrapped }
+        );
+
+        if (result.modifiedCount === 1) {
+          stats.rewrapped++;
+        } else {
+          stats.conflicts++;
+        }
+      } catch (error: any) {
+        stats.failed++;
+        failures.push(`${user.email}: ${error.message}`);
+      }
+
+      if (stats.scanned % batchSize === 0) {
+        console.log(`Progress: ${JSON.stringify(stats)}`);
+      }
+    }
+
+    console.log(`Rotation finished: ${JSON.stringify(stats)}`);
+    if (failures.length > 0) {
+      console.error('Records that could not be re-wrapped (check ENCRYPTION_PREVIOUS_KEYS):');
+      failures.forEach(failure => console.error(`  ${failure}`));
+    }
+    if (stats.conflicts > 0) {
+      console.log('Some records changed while the job was running; run it again to pick them up');
+    }
+
+    await mongoose.disconnect();
+    process.exit(stats.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('Error rotating encryption key:', error);
+    process.exit(1);
+  }
+}
+
+rotateEncryptionKey();
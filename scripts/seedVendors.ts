@@ -126,6 +126,7 @@ async function seedVendors() {
           password: hashedPassword,
           walletAddress,
           encryptedPrivateKey,
+          roles: ['buyer', 'vendor'],
           consentGiven: true,
           onboardingCompleted: true,
           profile: vendorData.profile,
@@ -1,7 +1,24 @@
-export const CONTRACT_ADDRESSES = {
-  ESCROW_MANAGER: '0xb6826C0F43D6353448a6A96cCBE9FEb5f1365e04',
-  PAYMENT_PROCESSOR: '0x9cb3D742b89a2b363f84417120AADe481207c0F2',
-  REPUTATION_REGISTRY: '0xD3F86C083Ee87fabfc9Cd160E01CE58faFbB1F5c',
-  DISPUTE_RESOLUTION: '0xbac7DF41a15DcF314F6D73d94c753A4F10094750'
-} as const;
+import { NetworkKey } from './networks';
 
+export interface ContractAddresses {
+  ESCROW_MANAGER: string;
+  PAYMENT_PROCESSOR: string;
+  REPUTATION_REGISTRY: string;
+  DISPUTE_RESOLUTION: string;
+}
+
+export const CONTRACT_ADDRESSES: Record<NetworkKey, ContractAddresses> = {
+  base_sepolia: {
+    ESCROW_MANAGER: '0xb6826C0F43D6353448a6A96cCBE9FEb5f1365e04',
+    PAYMENT_PROCESSOR: '0x9cb3D742b89a2b363f84417120AADe481207c0F2',
+    REPUTATION_REGISTRY: '0xD3F86C083Ee87fabfc9Cd160E01CE58faFbB1F5c',
+    DISPUTE_RESOLUTION: '0xbac7DF41a15DcF314F6D73d94c753A4F10094750'
+  },
+  // Mainnet deployments are supplied per environment until the launch addresses are final
+  base: {
+    ESCROW_MANAGER: process.env.BASE_MAINNET_ESCROW_MANAGER || '',
+    PAYMENT_PROCESSOR: process.env.BASE_MAINNET_PAYMENT_PROCESSOR || '',
+    REPUTATION_REGISTRY: process.env.BASE_MAINNET_REPUTATION_REGISTRY || '',
+    DISPUTE_RESOLUTION: process.env.BASE_MAINNET_DISPUTE_RESOLUTION || ''
+  }
+};
@@ -6,6 +6,7 @@ export const config = {
   server: {
     port: Number(process.env.BACKEND_PORT) || 4000,
     nodeEnv: process.env.NODE_ENV || 'development',
+    frontendUrl: process.env.FRONTEND_URL || 'https://synkio.app',
   },
   
   database: {
@@ -16,6 +17,30 @@ export const config = {
     baseRpcUrl: process.env.BASE_RPC_URL || 'https://sepolia.base.org',
     baseSepoliaRpcUrl: process.env.BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org',
     privateKey: process.env.PRIVATE_KEY || '',
+    txConcurrency: Number(process.env.TX_QUEUE_CONCURRENCY) || 4,
+    txMaxAttempts: Number(process.env.TX_QUEUE_MAX_ATTEMPTS) || 5,
+    txStuckAfterSeconds: Number(process.env.TX_STUCK_AFTER_SECONDS) || 90,
+    txMaxReplacements: Number(process.env.TX_MAX_REPLACEMENTS) || 3,
+    indexerPollSeconds: Number(process.env.INDEXER_POLL_SECONDS) || 15,
+    rpcTimeoutMs: Number(process.env.RPC_TIMEOUT_MS) || 10000,
+    rpcFailureThreshold: Number(process.env.RPC_FAILURE_THRESHOLD) || 3,
+    rpcQuarantineSeconds: Number(process.env.RPC_QUARANTINE_SECONDS) || 30,
+    indexerBatchBlocks: Number(process.env.INDEXER_BATCH_BLOCKS) || 2000,
+    portfolioCacheSeconds: Number(process.env.PORTFOLIO_CACHE_SECONDS) || 20,
+    withdrawalDailyLimits: process.env.WITHDRAWAL_DAILY_LIMITS || 'ETH:1,WETH:1,USDC:5000',
+    gasSponsorshipEnabled: process.env.GAS_SPONSORSHIP_ENABLED !== 'false',
+    gasTreasuryPrivateKey: process.env.GAS_TREASURY_PRIVATE_KEY || '',
+    gasSponsorUserDailyBudgetEth: process.env.GAS_SPONSOR_USER_DAILY_BUDGET_ETH || '0.001',
+    escrowSchedulerPollSeconds: Number(process.env.ESCROW_SCHEDULER_POLL_SECONDS) || 300,
+    escrowDefaultExpiryPolicy: process.env.ESCROW_DEFAULT_EXPIRY_POLICY || 'refund',
+    escrowInspectionHours: Number(process.env.ESCROW_INSPECTION_HOURS) || 72,
+    escrowReminderHours: process.env.ESCROW_REMINDER_HOURS || '72,24',
+    disputeResponseHours: Number(process.env.DISPUTE_RESPONSE_HOURS) || 72,
+    disputeAppealHours: Number(process.env.DISPUTE_APPEAL_HOURS) || 48,
+    disputeSweepSeconds: Number(process.env.DISPUTE_SWEEP_SECONDS) || 300,
+    reputationSweepSeconds: Number(process.env.REPUTATION_SWEEP_SECONDS) || 900,
+    reputationRefreshHours: Number(process.env.REPUTATION_REFRESH_HOURS) || 24,
+    reputationHalfLifeDays: Number(process.env.REPUTATION_HALF_LIFE_DAYS) || 180,
   },
   
   email: {
@@ -38,7 +63,18 @@ export const config = {
   
   auth: {
     jwtSecret: process.env.JWT_SECRET || '',
+    accessTokenTtl: process.env.JWT_EXPIRES_IN || '15m',
+    refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30,
+    emailVerificationTtlHours: Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24,
+    passwordResetTtlMinutes: Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30,
     encryptionKey: process.env.ENCRYPTION_KEY || '',
+    encryptionKeyId: process.env.ENCRYPTION_KEY_ID || 'primary',
+    previousEncryptionKeys: process.env.ENCRYPTION_PREVIOUS_KEYS || '',
+    siweDomain: process.env.SIWE_DOMAIN || new URL(process.env.FRONTEND_URL || 'https://synkio.app').host,
+    siweUri: process.env.SIWE_URI || process.env.FRONTEND_URL || 'https://synkio.app',
+    siweNonceTtlMinutes: Number(process.env.SIWE_NONCE_TTL_MINUTES) || 10,
+    totpIssuer: process.env.TOTP_ISSUER || 'Synkio',
+    twoFactorChallengeTtl: process.env.TWO_FACTOR_CHALLENGE_TTL || '5m',
   },
   
   oauth: {
@@ -50,4 +86,16 @@ export const config = {
     ddxyzApiKey: process.env.DDXYZ_API_KEY,
     blockRaderApiKey: process.env.BLOCKRADER_API_KEY,
   },
+
+  evidence: {
+    storage: process.env.EVIDENCE_STORAGE || 'local',
+    localDir: process.env.EVIDENCE_LOCAL_DIR || 'uploads/evidence',
+    maxBytes: Number(process.env.EVIDENCE_MAX_BYTES) || 10 * 1024 * 1024,
+    s3Bucket: process.env.EVIDENCE_S3_BUCKET || '',
+    s3Region: process.env.EVIDENCE_S3_REGION || 'us-east-1',
+    s3Endpoint: process.env.EVIDENCE_S3_ENDPOINT,
+    s3AccessKeyId: process.env.EVIDENCE_S3_ACCESS_KEY_ID,
+    s3SecretAccessKey: process.env.EVIDENCE_S3_SECRET_ACCESS_KEY,
+    s3ForcePathStyle: process.env.EVIDENCE_S3_FORCE_PATH_STYLE === 'true',
+  },
 } as const;
@@ -1,19 +1,100 @@
-export type NetworkKey = 'base_sepolia';
+import { CONTRACT_ADDRESSES, ContractAddresses } from './contracts';
+
+export type NetworkKey = 'base_sepolia' | 'base';
+
+export interface NetworkToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
 
 export interface NetworkConfig {
   key: NetworkKey;
   name: string;
   chainId: number;
+  testnet: boolean;
   rpcUrl: string;
+  rpcUrls: string[];
+  contracts: ContractAddresses;
+  // Seeded into the persisted token registry; admins add more through /api/networks/:key/tokens
+  tokens: NetworkToken[];
+  // Blocks a log must be buried under before the indexer trusts it
+  confirmations: number;
+  indexerStartBlock: number;
 }
 
+const rpcList = (value: string | undefined, fallback: string): string[] => {
+  const urls = (value || '').split(',').map(url => url.trim()).filter(Boolean);
+  return urls.length > 0 ? urls : [fallback];
+};
+
+const NATIVE_ETH: NetworkToken = {
+  address: '0x0000000000000000000000000000000000000000',
+  symbol: 'ETH',
+  name: 'Ethereum',
+  decimals: 18
+};
+
+const baseSepoliaRpcUrls = rpcList(process.env.BASE_SEPOLIA_RPC_URLS, process.env.BASE_RPC_URL || 'https://sepolia.base.org');
+const baseRpcUrls = rpcList(process.env.BASE_MAINNET_RPC_URLS, 'https://mainnet.base.org');
+
 export const NETWORKS: NetworkConfig[] = [
   {
     key: 'base_sepolia',
     name: 'Base Sepolia',
     chainId: 84532,
-    rpcUrl: process.env.BASE_RPC_URL || 'https://sepolia.base.org'
+    testnet: true,
+    rpcUrl: baseSepoliaRpcUrls[0],
+    rpcUrls: baseSepoliaRpcUrls,
+    contracts: CONTRACT_ADDRESSES.base_sepolia,
+    tokens: [
+      NATIVE_ETH,
+      { address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+      { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', name: 'Wrapped Ethereum', decimals: 18 }
+    ],
+    confirmations: Number(process.env.BASE_SEPOLIA_CONFIRMATIONS) || 5,
+    indexerStartBlock: Number(process.env.BASE_SEPOLIA_START_BLOCK) || 0
+  },
+  {
+    key: 'base',
+    name: 'Base',
+    chainId: 8453,
+    testnet: false,
+    rpcUrl: baseRpcUrls[0],
+    rpcUrls: baseRpcUrls,
+    contracts: CONTRACT_ADDRESSES.base,
+    tokens: [
+      NATIVE_ETH,
+      { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', name: 'USD Coin', decimals: 6 },
+      { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', name: 'Wrapped Ethereum', decimals: 18 }
+    ],
+    confirmations: Number(process.env.BASE_MAINNET_CONFIRMATIONS) || 10,
+    indexerStartBlock: Number(process.env.BASE_MAINNET_START_BLOCK) || 0
   }
 ];
 
+export const DEFAULT_NETWORK_KEY: NetworkKey = (process.env.DEFAULT_NETWORK as NetworkKey) || 'base_sepolia';
 
+export function isNetworkKey(value: unknown): value is NetworkKey {
+  return typeof value === 'string' && NETWORKS.some(network => network.key === value);
+}
+
+export function getNetwork(key: NetworkKey): NetworkConfig {
+  const network = NETWORKS.find(candidate => candidate.key === key);
+  if (!network) {
+    throw new Error(`Unknown network: ${key}`);
+  }
+  return network;
+}
+
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return NETWORKS.find(network => network.chainId === chainId);
+}
+
+/**
+ * A network is only served once its escrow contracts are deployed and configured
+ */
+export function isNetworkEnabled(network: NetworkConfig): boolean {
+  return Object.values(network.contracts).every(address => !!address);
+}
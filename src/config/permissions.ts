@@ -0,0 +1,41 @@
+import { UserRole } from '../types';
+
+export type Permission =
+  | 'categories:manage'
+  | 'feedback:read'
+  | 'feedback:moderate'
+  | 'reviews:moderate'
+  | 'waitlist:read'
+  | 'reputation:write'
+  | 'disputes:resolve'
+  | 'disputes:assign'
+  | 'safety:monitor'
+  | 'tokens:manage'
+  | 'roles:manage';
+
+/**
+ * Permissions granted by each role
+ * Admin is granted everything; buyers and vendors only act on their own resources.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.BUYER]: [],
+  [UserRole.VENDOR]: [],
+  [UserRole.ARBITRATOR]: ['disputes:resolve'],
+  [UserRole.SUPPORT]: ['feedback:read', 'feedback:moderate', 'reviews:moderate', 'waitlist:read', 'safety:monitor'],
+  [UserRole.ADMIN]: [
+    'categories:manage',
+    'feedback:read',
+    'feedback:moderate',
+    'reviews:moderate',
+    'waitlist:read',
+    'reputation:write',
+    'disputes:resolve',
+    'disputes:assign',
+    'safety:monitor',
+    'tokens:manage',
+    'roles:manage'
+  ]
+};
+
+export const hasPermission = (roles: UserRole[], permission: Permission): boolean =>
+  roles.some(role => ROLE_PERMISSIONS[role]?.includes(permission));
@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware';
+import { loadRoles } from '../middleware/auth';
+import { ApiResponse, AuthenticatedRequest, NetworkRequest } from '../types';
+import { IDispute, DisputeParty } from '../models/Dispute';
+import { Transaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { disputeCaseService } from '../services/DisputeCaseService';
+import { evidenceService } from '../services/EvidenceService';
+import { transcriptService } from '../services/TranscriptService';
+import { jobStatusPath } from '../services/TransactionQueueService';
+import { CustodialAccount } from '../services/BlockchainService';
+import { logger } from '../utils/logger';
+import { hasPermission } from '../config/permissions';
+import { DEFAULT_NETWORK_KEY } from '../config/networks';
+import { sanitizeString } from '../utils/sanitize';
+import { ResolveDisputeDto, DisputeMessageDto, RequestDisputeResponseDto, AppealDisputeDto, AssignDisputeDto } from '../dto/escrow.dto';
+
+type CaseRole = DisputeParty | 'arbitrator' | 'admin';
+
+export class DisputeController {
+  static getCase = asyncHandler(async (req: Request, res: Response) => {
+    const { dispute } = await DisputeController.caseFor(req);
+
+    const response: ApiResponse = {
+      success: true,
+      data: dispute
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Post to the case thread; parties and the assigned arbitrator take part, admins only read
+   */
+  static postMessage = asyncHandler(async (req: Request, res: Response) => {
+    const { body, parentId } = req.body as DisputeMessageDto;
+    const { dispute, role, email } = await DisputeController.caseFor(req);
+
+    if (role === 'admin') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the parties and the assigned arbitrator can post to a dispute'
+      });
+    }
+
+    const updated = await disputeCaseService.postMessage(dispute, { email, role }, sanitizeString(body), parentId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Message posted',
+      data: updated.messages[updated.messages.length - 1]
+    };
+
+    res.status(201).json(response);
+  });
+
+  static requestResponse = asyncHandler(async (req: Request, res: Response) => {
+    const { party, note, hours } = req.body as RequestDisputeResponseDto;
+    const { dispute, email } = await DisputeController.caseFor(req);
+
+    const updated = await disputeCaseService.requestResponse(dispute, email, party, sanitizeString(note), hours);
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Response requested from the ${party}`,
+      data: updated
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Record the assigned arbitrator's decision
+   * It is executed on-chain once the appeal window closes, or straight away on appeal.
+   */
+  static resolve = asyncHandler(async (req: Request, res: Response) => {
+    const { sellerShareBps, winnerAddress, summary } = req.body as ResolveDisputeDto;
+    const { dispute, email } = await DisputeController.caseFor(req);
+
+    let share = sellerShareBps;
+    if (share === undefined) {
+      const winner = winnerAddress!.toLowerCase();
+      const { buyerAddress, sellerAddress } = await DisputeController.partiesOf(dispute);
+      if (winner !== buyerAddress && winner !== sellerAddress) {
+        return res.status(400).json({
+          success: false,
+          error: 'Winner must be the buyer or the seller of this escrow'
+        });
+      }
+      share = winner === sellerAddress ? 10000 : 0;
+    }
+
+    const updated = await disputeCaseService.decide(dispute, email, {
+      sellerShareBps: share,
+      summary: sanitizeString(summary)
+    });
+
+    const resolution = updated.resolution!;
+    const response: ApiResponse = {
+      success: true,
+      message: resolution.final
+        ? 'Decision recorded; resolution queued'
+        : `Decision recorded; it will be executed after ${resolution.executeAfter.toISOString()} unless appealed`,
+      data: updated
+    };
+
+    res.status(200).json(response);
+  });
+
+  static appeal = asyncHandler(async (req: Request, res: Response) => {
+    const { reason } = req.body as AppealDisputeDto;
+    const { dispute, role, email } = await DisputeController.caseFor(req);
+
+    if (role !== 'buyer' && role !== 'seller') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the buyer or the seller can appeal a decision'
+      });
+    }
+
+    const updated = await disputeCaseService.appeal(dispute, { email, role }, sanitizeString(reason));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Appeal filed',
+      data: updated
+    };
+
+    res.status(200).json(response);
+  });
+
+  // The route requires disputes:assign
+  static assign = asyncHandler(async (req: Request, res: Response) => {
+    const { arbitrator } = req.body as AssignDisputeDto;
+    const dispute = await disputeCaseService.getCase(DisputeController.networkOf(req), req.params.escrowId);
+
+    const updated = await disputeCaseService.reassign(dispute, arbitrator, (req as AuthenticatedRequest).user!.email);
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Dispute assigned to ${arbitrator}`,
+      data: updated
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Upload one evidence file (multipart field "file") and anchor its hash on-chain from the uploader's wallet
+   */
+  static uploadEvidence = asyncHandler(async (req: Request, res: Response) => {
+    const { dispute, role } = await DisputeController.caseFor(req);
+    if (role !== 'buyer' && role !== 'seller') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the buyer or the seller can submit evidence'
+      });
+    }
+
+    const description = typeof req.body.description === 'string' ? sanitizeString(req.body.description).slice(0, 1000) : undefined;
+    const evidence = await evidenceService.upload(
+      dispute,
+      { account: await DisputeController.callerAccount(req), role },
+      req.file!,
+      description
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Evidence uploaded; anchoring queued',
+      data: {
+        ...evidenceService.toResponse(evidence),
+        ...(evidence.anchor.jobId && { statusUrl: jobStatusPath(evidence.anchor.jobId) })
+      }
+    };
+
+    res.status(201).json(response);
+  });
+
+  static listEvidence = asyncHandler(async (req: Request, res: Response) => {
+    const { dispute } = await DisputeController.evidenceCaseFor(req);
+    const evidence = await evidenceService.list(dispute);
+
+    const response: ApiResponse = {
+      success: true,
+      data: evidence.map(item => evidenceService.toResponse(item))
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Stream an evidence file as a download; never rendered inline, since parties upload the content
+   */
+  static getEvidenceFile = asyncHandler(async (req: Request, res: Response) => {
+    const { dispute } = await DisputeController.evidenceCaseFor(req);
+    const { evidence, content } = await evidenceService.open(dispute, req.params.evidenceId);
+
+    res.setHeader('Content-Type', evidence.contentType);
+    res.setHeader('Content-Length', String(evidence.size));
+    res.setHeader('Content-Disposition', `attachment; filename="${evidence.fileName.replace(/[^\w.\- ]/g, '_')}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('X-Evidence-SHA256', evidence.sha256);
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    content.on('error', error => {
+      logger.error(`Streaming evidence ${evidence.evidenceId} failed:`, error);
+      res.destroy(error);
+    });
+    content.pipe(res);
+  });
+
+  /**
+   * The conversation snapshot taken when the dispute was opened, with the hash chain checked against the dispute
+   */
+  static getTranscript = asyncHandler(async (req: Request, res: Response) => {
+    const { dispute } = await DisputeController.evidenceCaseFor(req);
+    const transcript = await transcriptService.get(dispute);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        escrowId: transcript.escrowId,
+        conversationId: transcript.conversationId,
+        capturedAt: transcript.capturedAt,
+        rootHash: transcript.rootHash,
+        integrity: transcriptService.verify(dispute, transcript),
+        entries: transcript.entries
+      }
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Evidence is limited to the parties and the assigned arbitrator, without the admin read access cases have
+   */
+  private static async evidenceCaseFor(req: Request) {
+    const access = await DisputeController.caseFor(req);
+    if (access.role === 'admin') {
+      throw Object.assign(new Error('Evidence is only available to the parties and the assigned arbitrator'), { statusCode: 403 });
+    }
+    return access;
+  }
+
+  private static async callerAccount(req: Request): Promise<CustodialAccount> {
+    const user = await User.findById((req as AuthenticatedRequest).user!.id)
+      .select('email walletAddress encryptedPrivateKey password');
+
+    if (!user) {
+      throw Object.assign(new Error('User not found'), { statusCode: 404 });
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      walletAddress: user.walletAddress,
+      encryptedPrivateKey: user.encryptedPrivateKey,
+      password: user.password
+    };
+  }
+
+  /**
+   * The case and the caller's part in it; anyone else gets a 403
+   */
+  private static async caseFor(req: Request): Promise<{ dispute: IDispute; role: CaseRole; email: string }> {
+    const dispute = await disputeCaseService.getCase(DisputeController.networkOf(req), req.params.escrowId);
+    const { email } = (req as AuthenticatedRequest).user!;
+
+    let role: CaseRole | null = null;
+    if (email === dispute.buyerEmail) role = 'buyer';
+    else if (email === dispute.sellerEmail) role = 'seller';
+    else if (email === dispute.arbitrator) role = 'arbitrator';
+    else if (hasPermission(await loadRoles(req), 'disputes:assign')) role = 'admin';
+
+    if (!role) {
+      throw Object.assign(new Error('Not authorized to access this dispute'), { statusCode: 403 });
+    }
+
+    return { dispute, role, email };
+  }
+
+  private static async partiesOf(dispute: IDispute) {
+    const transaction = await Transaction.findOne({ network: dispute.network, escrowId: dispute.escrowId })
+      .select('buyerAddress sellerAddress');
+    return { buyerAddress: transaction?.buyerAddress, sellerAddress: transaction?.sellerAddress };
+  }
+
+  private static networkOf(req: Request) {
+    return (req as NetworkRequest).network || DEFAULT_NETWORK_KEY;
+  }
+}
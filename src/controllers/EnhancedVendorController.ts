@@ -6,6 +6,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
 import { SafetyService } from '../services/SafetyService';
+import { siweService } from '../services/SiweService';
 import { User } from '../models/User';
 import { Product } from '../models/Product';
 import { sanitizeEmail } from '../utils/sanitize';
@@ -331,6 +332,73 @@ export class EnhancedVendorController {
     }
   }
 
+  /**
+   * Vendor wallet verification
+   * Proves control of a self-custodied wallet via a signed SIWE link message,
+   * screens it, and makes it the payout wallet when it passes
+   */
+  async verifyVendorWallet(req: Request, res: Response) {
+    try {
+      const { message, signature, label, setAsPayout = true } = req.body;
+
+      const vendor = await User.findOne({ email: sanitizeEmail(req.params.email), 'profile.isVendor': true });
+      if (!vendor) {
+        return res.status(404).json({
+          success: false,
+          error: 'Vendor not found'
+        });
+      }
+
+      let wallet;
+      try {
+        wallet = await siweService.linkWallet(vendor, message, signature, {
+          label: typeof label === 'string' ? label.substring(0, 50) : undefined
+        });
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      const safety = await this.safetyService.checkWalletSafety(wallet.address, 'base');
+      const payoutAllowed = safety.riskLevel !== 'high' && safety.riskLevel !== 'critical';
+
+      if (setAsPayout && payoutAllowed) {
+        vendor.payoutWalletAddress = wallet.address;
+        await vendor.save();
+      }
+
+      res.json({
+        success: true,
+        message: 'Wallet ownership verified',
+        data: {
+          email: vendor.email,
+          walletAddress: wallet.address,
+          chainId: wallet.chainId,
+          status: 'verified',
+          verifiedAt: wallet.verifiedAt,
+          payoutWalletAddress: vendor.payoutWalletAddress || vendor.walletAddress,
+          safety: {
+            riskLevel: safety.riskLevel,
+            score: safety.score,
+            recommendation: safety.recommendation
+          },
+          nextSteps: setAsPayout && !payoutAllowed
+            ? ['Wallet failed the safety screening and was not set as your payout wallet']
+            : []
+        }
+      });
+
+    } catch (error) {
+      logger.error('Wallet verification failed:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Wallet verification failed'
+      });
+    }
+  }
+
   // Helper methods to integrate with existing systems
   private async getExistingVendors(filters: any) {
     const query: any = { 'profile.isVendor': true };
@@ -460,7 +528,7 @@ export class EnhancedVendorController {
       recommendations.push('Improve transaction history for better safety score');
     }
 
-    if (safetyProfile.reputation.successRate < 0.9) {
+    if (safetyProfile.reputation.successRate !== null && safetyProfile.reputation.successRate < 0.9) {
       recommendations.push('Focus on customer satisfaction to improve reputation');
     }
 
@@ -1,163 +1,243 @@
 import { Request, Response } from 'express';
-import { Transaction } from '../models/Transaction';
+import { Transaction, ITransaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { Product } from '../models/Product';
+import { jobStatusPath } from '../services/TransactionQueueService';
+import { networkRegistry } from '../services/NetworkRegistry';
+import { CustodialAccount } from '../services/BlockchainService';
+import { assertTransition, escrowRoleOf, statusAfterRelease, statusAfterRefund, escrowStateMachine, EscrowActorRole } from '../services/EscrowStateMachine';
+import { getWebSocketService } from '../services/websocket';
+import { escrowExpiryService } from '../services/EscrowExpiryService';
+import { loadRoles } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware';
-import { ApiResponse } from '../types';
+import { ApiResponse, AuthenticatedRequest, NetworkRequest } from '../types';
 import { ethers } from 'ethers';
 import { sanitizeObject, sanitizeString, sanitizeEmail } from '../utils/sanitize';
-import { CreateEscrowDto, ReleaseEscrowDto, RefundEscrowDto, DisputeEscrowDto, GetEscrowDto } from '../dto/escrow.dto';
+import { CreateEscrowDto, ReleaseEscrowDto, RefundEscrowDto, DisputeEscrowDto, GetEscrowDto, SubmitMilestoneDto, RejectMilestoneDto } from '../dto/escrow.dto';
+
+// Escrow states in which the seller can be working on milestones
+const WORKING_STATUSES = ['funded', 'in_progress', 'partially_released'];
 
 export class EscrowController {
-  constructor(
-    private escrowService: any,
-    private disputeService: any
-  ) {}
+  constructor(private networks: typeof networkRegistry) {}
+
+  /**
+   * Contract services for the network chosen by the selectNetwork middleware
+   */
+  private services(req: Request) {
+    return this.networks.get((req as NetworkRequest).network);
+  }
+
+  /**
+   * Load the caller's custodial account so on-chain calls are signed by the party itself
+   */
+  private async callerAccount(req: Request): Promise<CustodialAccount> {
+    const user = await User.findById((req as AuthenticatedRequest).user!.id)
+      .select('email walletAddress encryptedPrivateKey password');
+
+    if (!user) {
+      throw Object.assign(new Error('User not found'), { statusCode: 404 });
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      walletAddress: user.walletAddress,
+      encryptedPrivateKey: user.encryptedPrivateKey,
+      password: user.password
+    };
+  }
+
+  /**
+   * The escrow's Transaction record and the caller's role on it
+   * Checked before queueing so a transition the lifecycle forbids never reaches the chain.
+   */
+  private async escrowFor(req: Request, escrowId: string): Promise<{ transaction: ITransaction; role: EscrowActorRole }> {
+    const transaction = await Transaction.findOne({ network: (req as NetworkRequest).network, escrowId });
+    if (!transaction) {
+      throw Object.assign(new Error('Transaction not found'), { statusCode: 404 });
+    }
+
+    const caller = (req as AuthenticatedRequest).user!;
+    const role = await escrowRoleOf(transaction, { email: caller.email, roles: await loadRoles(req) });
+    if (!role) {
+      throw Object.assign(new Error('Not authorized to access this transaction'), { statusCode: 403 });
+    }
+
+    return { transaction, role };
+  }
 
   createEscrow = asyncHandler(async (req: Request, res: Response) => {
     const dto = req.body as CreateEscrowDto;
-    const { seller, amount, tokenAddress, buyerEmail, sellerEmail, metadata, conversationContext } = dto;
+    const { seller, amount, tokenAddress, buyerEmail, sellerEmail, metadata, conversationContext, expiryPolicy, inspectionHours, productId } = dto;
     
-    const sanitizedBuyerEmail = sanitizeEmail(buyerEmail);
+    const sanitizedBuyerEmail = sanitizeEmail(buyerEmail || (req as AuthenticatedRequest).user?.email);
     const sanitizedSellerEmail = sanitizeEmail(sellerEmail);
+
+    if (productId && !(await Product.exists({ productId, vendorEmail: sanitizedSellerEmail }))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Product not found for this seller'
+      });
+    }
     
     const description = metadata?.description || metadata?.title || 'Escrow transaction';
-    const milestones = metadata?.milestones || [];
+    const milestones = (metadata?.milestones || []).map(milestone => ({
+      amount: milestone.amount,
+      description: milestone.description,
+      completed: milestone.completed ?? false,
+      completedAt: milestone.completedAt ?? 0
+    }));
     const metadataHash = metadata 
       ? ethers.id(JSON.stringify(metadata))
       : ethers.id(JSON.stringify({}));
     const finalTokenAddress = tokenAddress || ethers.ZeroAddress;
     
-    const tx = await this.escrowService.createEscrow(
-      seller,
-      description,
-      metadataHash,
-      milestones,
-      finalTokenAddress,
-      amount
-    );
-    
-    const receipt = await tx.wait();
-    
-    if (!receipt || !receipt.logs || receipt.logs.length === 0) {
-      logger.error('Transaction receipt has no logs');
-      throw new Error('Failed to extract escrow ID from transaction receipt');
-    }
-    
-    const escrowCreatedEvent = receipt.logs.find((log: any) => {
-      try {
-        const parsed = this.escrowService.contract.interface.parseLog(log);
-        return parsed?.name === 'EscrowCreated';
-      } catch {
-        return false;
-      }
-    });
-    
-    if (!escrowCreatedEvent) {
-      logger.error('EscrowCreated event not found in transaction receipt');
-      throw new Error('Failed to extract escrow ID: EscrowCreated event not found');
-    }
-    
-    const parsedEvent = this.escrowService.contract.interface.parseLog(escrowCreatedEvent);
-    const escrowIdBigInt = parsedEvent?.args[0];
-    
-    if (!escrowIdBigInt || typeof escrowIdBigInt !== 'bigint') {
-      logger.error('Invalid escrow ID extracted from event');
-      throw new Error('Failed to extract escrow ID: invalid value');
-    }
-    
-    const escrowId = Number(escrowIdBigInt);
-    
-    if (!Number.isInteger(escrowId) || escrowId <= 0) {
-      logger.error(`Invalid escrow ID value: ${escrowId}`);
-      throw new Error('Failed to extract escrow ID: invalid escrow ID value');
-    }
-    
+    const { escrowService, tokenService } = this.services(req);
+    const token = tokenService.requireToken(finalTokenAddress);
+
+    // Amounts are recorded in base units so USDC and ETH escrows are stored exactly
     const sanitizedMetadata = metadata ? sanitizeObject(metadata) : metadata;
+    if (sanitizedMetadata?.milestones) {
+      sanitizedMetadata.milestones = sanitizedMetadata.milestones.map((milestone: any) => ({
+        ...milestone,
+        amount: tokenService.parseAmount(finalTokenAddress, milestone.amount).toString()
+      }));
+    }
     const sanitizedConversationContext = conversationContext ? sanitizeObject(conversationContext) : conversationContext;
-    
-    const transaction = new Transaction({
-      transactionId: tx.hash,
-      escrowId: escrowId.toString(),
-      buyerEmail: sanitizedBuyerEmail,
-      sellerEmail: sanitizedSellerEmail,
-      amount: parseFloat(amount),
-      currency: finalTokenAddress === ethers.ZeroAddress ? 'ETH' : 'USDC',
-      type: metadata?.milestones ? 'service' : 'marketplace',
-      metadata: sanitizedMetadata,
-      conversationContext: sanitizedConversationContext,
-      timeline: [{
-        status: 'pending',
-        description: 'Escrow created',
-        actor: sanitizedBuyerEmail
-      }]
-    });
 
-    await transaction.save();
+    // The buyer funds the escrow from their own custodial wallet; the Transaction
+    // record is written by the createEscrow handler once the EscrowCreated event is mined
+    const buyer = await this.callerAccount(req);
+    const buyerEscrowService = escrowService.asUser(buyer);
+    const job = await buyerEscrowService
+      .withJob({
+        context: {
+          buyerEmail: sanitizedBuyerEmail,
+          sellerEmail: sanitizedSellerEmail,
+          buyerAddress: buyerEscrowService.getSignerAddress(),
+          sellerAddress: seller,
+          amount: tokenService.parseAmount(finalTokenAddress, amount).toString(),
+          currency: token.symbol,
+          tokenAddress: token.address,
+          decimals: token.decimals,
+          type: metadata?.milestones ? 'service' : 'marketplace',
+          metadata: sanitizedMetadata,
+          conversationContext: sanitizedConversationContext,
+          expiry: escrowExpiryService.policyFor(expiryPolicy, inspectionHours),
+          productId
+        }
+      })
+      .createEscrow(
+        seller,
+        description,
+        metadataHash,
+        milestones,
+        finalTokenAddress,
+        amount
+      );
     
     const response: ApiResponse = {
       success: true,
-      data: {
-        hash: tx.hash,
-        escrowId,
-        transactionId: transaction.transactionId
-      }
+      message: 'Escrow creation queued',
+      data: { ...job, statusUrl: jobStatusPath(job.jobId) }
     };
     
-    res.status(201).json(response);
+    res.status(202).json(response);
   });
 
   releaseEscrow = asyncHandler(async (req: Request, res: Response) => {
     const dto = { ...req.params, ...req.body } as ReleaseEscrowDto;
-    const { escrowId, milestoneIndex } = dto;
-    const tx = await this.escrowService.releasePayment(Number(escrowId), milestoneIndex || 0);
-    
-    await Transaction.findOneAndUpdate(
-      { escrowId },
-      { 
-        status: 'completed',
-        $push: {
-          timeline: {
-            status: 'completed',
-            description: 'Payment released to seller',
-            actor: 'system'
-          }
-        }
+    const { escrowId, milestoneIndex = 0 } = dto;
+
+    // Only the buyer's own wallet can release on-chain
+    const { transaction, role } = await this.escrowFor(req, escrowId);
+    if (role !== 'buyer') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the buyer can release escrowed funds'
+      });
+    }
+    const milestone = transaction.metadata?.milestones?.[milestoneIndex];
+    if (milestone?.completed || milestone?.status === 'approved' || milestone?.status === 'released') {
+      return res.status(409).json({
+        success: false,
+        error: `Milestone ${milestoneIndex} has already been ${milestone.status === 'approved' ? 'approved; its release is queued' : 'released'}`
+      });
+    }
+    assertTransition(transaction.status, statusAfterRelease(transaction, milestoneIndex), role);
+
+    // Claim the milestone the same way approval does, so two requests cannot queue two releases
+    const path = `metadata.milestones.${milestoneIndex}`;
+    const previousStatus = milestone?.status || 'pending';
+    if (milestone) {
+      const claimed = await Transaction.findOneAndUpdate(
+        {
+          _id: transaction._id,
+          [`${path}.status`]: { $nin: ['approved', 'released'] },
+          [`${path}.completed`]: { $ne: true }
+        },
+        { $set: { [`${path}.status`]: 'approved', [`${path}.reviewedAt`]: new Date() } }
+      );
+      if (!claimed) {
+        return res.status(409).json({
+          success: false,
+          error: `Milestone ${milestoneIndex} changed concurrently; retry`
+        });
       }
-    );
+    }
+
+    let job;
+    try {
+      const buyer = await this.callerAccount(req);
+      job = await this.services(req).escrowService
+        .asUser(buyer)
+        .withJob({ context: { escrowId, milestoneIndex, previousStatus } })
+        .releasePayment(Number(escrowId), milestoneIndex);
+    } catch (error) {
+      if (milestone) {
+        await Transaction.updateOne(
+          { _id: transaction._id, [`${path}.status`]: 'approved' },
+          { $set: { [`${path}.status`]: previousStatus } }
+        );
+      }
+      throw error;
+    }
+
+    if (milestone) {
+      await Transaction.updateOne({ _id: transaction._id }, { $set: { [`${path}.releaseJobId`]: job.jobId } });
+    }
     
     const response: ApiResponse = {
       success: true,
-      data: { hash: tx.hash }
+      message: 'Release queued',
+      data: { ...job, statusUrl: jobStatusPath(job.jobId) }
     };
     
-    res.status(200).json(response);
+    res.status(202).json(response);
   });
 
   refundEscrow = asyncHandler(async (req: Request, res: Response) => {
     const dto = req.params as unknown as RefundEscrowDto;
     const { escrowId } = dto;
-    const tx = await this.escrowService.cancelEscrow(Number(escrowId));
-    
-    await Transaction.findOneAndUpdate(
-      { escrowId },
-      { 
-        status: 'cancelled',
-        $push: {
-          timeline: {
-            status: 'cancelled',
-            description: 'Payment refunded to buyer',
-            actor: 'system'
-          }
-        }
-      }
-    );
+
+    const { transaction, role } = await this.escrowFor(req, escrowId);
+    assertTransition(transaction.status, statusAfterRefund(transaction.status), role);
+
+    const caller = await this.callerAccount(req);
+    const job = await this.services(req).escrowService
+      .asUser(caller)
+      .withJob({ context: { escrowId } })
+      .cancelEscrow(Number(escrowId));
     
     const response: ApiResponse = {
       success: true,
-      data: { hash: tx.hash }
+      message: 'Refund queued',
+      data: { ...job, statusUrl: jobStatusPath(job.jobId) }
     };
     
-    res.status(200).json(response);
+    res.status(202).json(response);
   });
 
   disputeEscrow = asyncHandler(async (req: Request, res: Response) => {
@@ -166,40 +246,29 @@ export class EscrowController {
     
     const sanitizedReason = sanitizeString(reason);
     const sanitizedEvidence = evidence ? evidence.map((item: string) => sanitizeString(item)) : [];
+
+    const { transaction, role } = await this.escrowFor(req, escrowId);
+    assertTransition(transaction.status, 'disputed', role);
     
-    const tx = await this.escrowService.fileDispute(Number(escrowId), sanitizedReason);
-    
-    await Transaction.findOneAndUpdate(
-      { escrowId },
-      { 
-        status: 'disputed',
-        dispute: {
-          reason: sanitizedReason,
-          evidence: sanitizedEvidence,
-          createdAt: new Date()
-        },
-        $push: {
-          timeline: {
-            status: 'disputed',
-            description: `Dispute filed: ${sanitizedReason}`,
-            actor: 'system'
-          }
-        }
-      }
-    );
+    const caller = await this.callerAccount(req);
+    const job = await this.services(req).escrowService
+      .asUser(caller)
+      .withJob({ context: { escrowId, reason: sanitizedReason, evidence: sanitizedEvidence } })
+      .fileDispute(Number(escrowId), sanitizedReason);
     
     const response: ApiResponse = {
       success: true,
-      data: { hash: tx.hash }
+      message: 'Dispute queued',
+      data: { ...job, statusUrl: jobStatusPath(job.jobId) }
     };
     
-    res.status(200).json(response);
+    res.status(202).json(response);
   });
 
   getEscrow = asyncHandler(async (req: Request, res: Response) => {
     const dto = req.params as unknown as GetEscrowDto;
     const { escrowId } = dto;
-    const escrow = await this.escrowService.getEscrow(Number(escrowId));
+    const escrow = await this.services(req).escrowService.getEscrow(Number(escrowId));
     
     const response: ApiResponse = {
       success: true,
@@ -212,54 +281,345 @@ export class EscrowController {
   openDispute = asyncHandler(async (req: Request, res: Response) => {
     const { escrowId } = req.params;
     const { evidence } = req.body;
+
+    const { transaction, role } = await this.escrowFor(req, escrowId);
+    assertTransition(transaction.status, 'disputed', role);
     
-    const tx = await this.disputeService.openDispute(escrowId, evidence);
+    const caller = await this.callerAccount(req);
+    const job = await this.services(req).disputeService
+      .asUser(caller)
+      .withJob({ context: { escrowId, reason: evidence, evidence: [evidence] } })
+      .openDispute(escrowId, evidence);
     
     const response: ApiResponse = {
       success: true,
-      data: { hash: tx.hash }
+      data: { ...job, statusUrl: jobStatusPath(job.jobId) }
     };
     
-    res.status(200).json(response);
+    res.status(202).json(response);
   });
 
   addEvidence = asyncHandler(async (req: Request, res: Response) => {
     const { escrowId } = req.params;
     const { evidence } = req.body;
     
-    const tx = await this.disputeService.addEvidence(escrowId, evidence);
+    const caller = await this.callerAccount(req);
+    const job = await this.services(req).disputeService.asUser(caller).addEvidence(escrowId, evidence);
     
     const response: ApiResponse = {
       success: true,
-      data: { hash: tx.hash }
+      data: { ...job, statusUrl: jobStatusPath(job.jobId) }
     };
     
-    res.status(200).json(response);
+    res.status(202).json(response);
   });
 
-  resolveDispute = asyncHandler(async (req: Request, res: Response) => {
+  getDispute = asyncHandler(async (req: Request, res: Response) => {
     const { escrowId } = req.params;
-    const { winnerAddress } = req.body;
-    
-    const tx = await this.disputeService.resolveDispute(escrowId, winnerAddress);
+    const dispute = await this.services(req).disputeService.getDispute(escrowId);
     
     const response: ApiResponse = {
       success: true,
-      data: { hash: tx.hash }
+      data: dispute
     };
     
     res.status(200).json(response);
   });
 
-  getDispute = asyncHandler(async (req: Request, res: Response) => {
+  /**
+   * Milestone progress with what has been released and what the escrow still holds
+   */
+  getMilestones = asyncHandler(async (req: Request, res: Response) => {
     const { escrowId } = req.params;
-    const dispute = await this.disputeService.getDispute(escrowId);
-    
+    const { transaction } = await this.escrowFor(req, escrowId);
+    const milestones = transaction.metadata?.milestones || [];
+
+    // The contract's view is informative only; the listing still works while the RPC pool is down
+    let onChain: Array<{ completed: boolean }> | null = null;
+    try {
+      onChain = await this.services(req).escrowService.getMilestones(Number(escrowId));
+    } catch (error: any) {
+      logger.warn(`Could not read on-chain milestones for escrow ${escrowId}:`, error.message);
+    }
+
+    const released = milestones
+      .filter(milestone => milestone.completed)
+      .reduce((sum, milestone) => sum + BigInt(milestone.amount), 0n);
+    const format = (baseUnits: bigint | string) => ethers.formatUnits(baseUnits, transaction.decimals);
+
     const response: ApiResponse = {
       success: true,
-      data: dispute
+      data: {
+        escrowId,
+        status: transaction.status,
+        currency: transaction.currency,
+        total: format(transaction.amount),
+        released: format(released),
+        remaining: format(BigInt(transaction.amount) - released),
+        milestones: milestones.map((milestone, index) => ({
+          index,
+          description: milestone.description,
+          amount: format(milestone.amount),
+          amountBaseUnits: milestone.amount,
+          status: milestone.status || (milestone.completed ? 'released' : 'pending'),
+          submissionNote: milestone.submissionNote,
+          deliverables: milestone.deliverables,
+          submittedAt: milestone.submittedAt,
+          reviewedAt: milestone.reviewedAt,
+          rejectionReason: milestone.rejectionReason,
+          releaseHash: milestone.releaseHash,
+          completed: milestone.completed,
+          completedAt: milestone.completedAt,
+          completedOnChain: onChain ? !!onChain[index]?.completed : undefined
+        }))
+      }
     };
-    
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Seller hands a milestone in for review; the first submission moves a funded escrow to in progress
+   */
+  submitMilestone = asyncHandler(async (req: Request, res: Response) => {
+    const { escrowId } = req.params;
+    const milestoneIndex = Number(req.params.milestoneIndex);
+    const { note, deliverables } = req.body as SubmitMilestoneDto;
+
+    let { transaction, role } = await this.escrowFor(req, escrowId);
+    if (role !== 'seller') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the seller can submit milestones'
+      });
+    }
+
+    const milestone = this.milestoneOf(transaction, milestoneIndex);
+    if (milestone.completed || !['pending', 'rejected', undefined].includes(milestone.status)) {
+      return res.status(409).json({
+        success: false,
+        error: `Milestone ${milestoneIndex} is ${milestone.status} and cannot be submitted`
+      });
+    }
+    if (!WORKING_STATUSES.includes(transaction.status)) {
+      return res.status(409).json({
+        success: false,
+        error: `Milestones cannot be submitted while the escrow is ${transaction.status}`
+      });
+    }
+
+    const seller = (req as AuthenticatedRequest).user!.email;
+    if (transaction.status === 'funded') {
+      transaction = await escrowStateMachine.transition(transaction, 'in_progress', {
+        actor: seller,
+        role,
+        description: 'Seller started work',
+        onChain: await this.services(req).escrowService.getEscrow(Number(escrowId))
+      });
+    }
+
+    const path = `metadata.milestones.${milestoneIndex}`;
+    const updated = await Transaction.findOneAndUpdate(
+      { _id: transaction._id, [`${path}.status`]: { $in: ['pending', 'rejected', null] } },
+      {
+        $set: {
+          [`${path}.status`]: 'submitted',
+          [`${path}.submissionNote`]: note ? sanitizeString(note) : undefined,
+          [`${path}.deliverables`]: (deliverables || []).map(item => sanitizeString(item)),
+          [`${path}.submittedAt`]: new Date()
+        },
+        $unset: { [`${path}.rejectionReason`]: '' },
+        $push: {
+          timeline: {
+            status: transaction.status,
+            description: `Milestone ${milestoneIndex} submitted for review`,
+            actor: seller,
+            actorRole: role
+          }
+        }
+      },
+      { new: true }
+    );
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        error: `Milestone ${milestoneIndex} changed concurrently; retry`
+      });
+    }
+
+    getWebSocketService()?.notifyUser(updated.buyerEmail, 'milestone:submitted', {
+      network: updated.network,
+      escrowId,
+      milestoneIndex
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Milestone submitted for review',
+      data: updated.metadata.milestones![milestoneIndex]
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Buyer accepts a submitted milestone, which queues its on-chain release
+   */
+  approveMilestone = asyncHandler(async (req: Request, res: Response) => {
+    const { escrowId } = req.params;
+    const milestoneIndex = Number(req.params.milestoneIndex);
+
+    const { transaction, role } = await this.escrowFor(req, escrowId);
+    if (role !== 'buyer') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the buyer can approve milestones'
+      });
+    }
+
+    const milestone = this.milestoneOf(transaction, milestoneIndex);
+    if (milestone.status !== 'submitted') {
+      return res.status(409).json({
+        success: false,
+        error: `Milestone ${milestoneIndex} is ${milestone.status || 'pending'}; only submitted milestones can be approved`
+      });
+    }
+    assertTransition(transaction.status, statusAfterRelease(transaction, milestoneIndex), role);
+
+    const buyerEmail = (req as AuthenticatedRequest).user!.email;
+    const path = `metadata.milestones.${milestoneIndex}`;
+    const approved = await Transaction.findOneAndUpdate(
+      { _id: transaction._id, [`${path}.status`]: 'submitted' },
+      {
+        $set: {
+          [`${path}.status`]: 'approved',
+          [`${path}.reviewedAt`]: new Date()
+        },
+        $push: {
+          timeline: {
+            status: transaction.status,
+            description: `Milestone ${milestoneIndex} approved; release queued`,
+            actor: buyerEmail,
+            actorRole: role
+          }
+        }
+      },
+      { new: true }
+    );
+    if (!approved) {
+      return res.status(409).json({
+        success: false,
+        error: `Milestone ${milestoneIndex} changed concurrently; retry`
+      });
+    }
+
+    let job;
+    try {
+      const buyer = await this.callerAccount(req);
+      job = await this.services(req).escrowService
+        .asUser(buyer)
+        .withJob({ context: { escrowId, milestoneIndex } })
+        .releasePayment(Number(escrowId), milestoneIndex);
+    } catch (error) {
+      await Transaction.updateOne(
+        { _id: transaction._id, [`${path}.status`]: 'approved' },
+        { $set: { [`${path}.status`]: 'submitted' } }
+      );
+      throw error;
+    }
+
+    await Transaction.updateOne({ _id: transaction._id }, { $set: { [`${path}.releaseJobId`]: job.jobId } });
+
+    const released = (approved.metadata.milestones || [])
+      .filter(item => item.completed)
+      .reduce((sum, item) => sum + BigInt(item.amount), 0n);
+    const remaining = BigInt(approved.amount) - released - BigInt(milestone.amount);
+
+    getWebSocketService()?.notifyUser(approved.sellerEmail, 'milestone:approved', {
+      network: approved.network,
+      escrowId,
+      milestoneIndex
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Milestone approved; release queued',
+      data: {
+        ...job,
+        statusUrl: jobStatusPath(job.jobId),
+        milestoneIndex,
+        remainingAfterRelease: ethers.formatUnits(remaining, approved.decimals),
+        currency: approved.currency
+      }
+    };
+
+    res.status(202).json(response);
+  });
+
+  rejectMilestone = asyncHandler(async (req: Request, res: Response) => {
+    const { escrowId } = req.params;
+    const milestoneIndex = Number(req.params.milestoneIndex);
+    const { reason } = req.body as RejectMilestoneDto;
+
+    const { transaction, role } = await this.escrowFor(req, escrowId);
+    if (role !== 'buyer') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the buyer can reject milestones'
+      });
+    }
+
+    const sanitizedReason = sanitizeString(reason);
+    const path = `metadata.milestones.${milestoneIndex}`;
+    this.milestoneOf(transaction, milestoneIndex);
+
+    const updated = await Transaction.findOneAndUpdate(
+      { _id: transaction._id, [`${path}.status`]: 'submitted' },
+      {
+        $set: {
+          [`${path}.status`]: 'rejected',
+          [`${path}.rejectionReason`]: sanitizedReason,
+          [`${path}.reviewedAt`]: new Date()
+        },
+        $push: {
+          timeline: {
+            status: transaction.status,
+            description: `Milestone ${milestoneIndex} rejected: ${sanitizedReason}`,
+            actor: (req as AuthenticatedRequest).user!.email,
+            actorRole: role
+          }
+        }
+      },
+      { new: true }
+    );
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        error: `Milestone ${milestoneIndex} is not awaiting review`
+      });
+    }
+
+    getWebSocketService()?.notifyUser(updated.sellerEmail, 'milestone:rejected', {
+      network: updated.network,
+      escrowId,
+      milestoneIndex,
+      reason: sanitizedReason
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Milestone rejected',
+      data: updated.metadata.milestones![milestoneIndex]
+    };
+
     res.status(200).json(response);
   });
+
+  private milestoneOf(transaction: ITransaction, milestoneIndex: number) {
+    const milestone = transaction.metadata?.milestones?.[milestoneIndex];
+    if (!milestone) {
+      throw Object.assign(new Error(`Escrow has no milestone ${milestoneIndex}`), { statusCode: 404 });
+    }
+    return milestone;
+  }
 }
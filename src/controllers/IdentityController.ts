@@ -1,169 +1,1063 @@
 import { Request, Response } from 'express';
-import { User } from '../models/User';
+import { User, IUser } from '../models/User';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware';
-import { ApiResponse } from '../types';
+import { ApiResponse, AuthenticatedRequest, Channel, isActiveChannel, NetworkRequest, UserRole } from '../types';
 import { WalletService } from '../services/WalletService';
+import { sessionService, SessionContext } from '../services/SessionService';
+import { userTokenService } from '../services/UserTokenService';
+import { emailService } from '../services/EmailService';
+import { siweService } from '../services/SiweService';
+import { twoFactorService } from '../services/TwoFactorService';
+import { authService } from '../services/AuthService';
+import { networkRegistry } from '../services/NetworkRegistry';
+import { portfolioService } from '../services/PortfolioService';
+import { gasSponsorshipService } from '../services/GasSponsorshipService';
+import { Transaction } from '../models/Transaction';
+import { Product } from '../models/Product';
+import { Conversation } from '../models/Conversation';
+import { Feedback } from '../models/Feedback';
+import { config } from '../config/env';
 import { ethers } from 'ethers';
 import bcrypt from 'bcryptjs';
 import { sanitizeString, sanitizeEmail, sanitizeUrl, containsScriptTags } from '../utils/sanitize';
 
 export class IdentityController {
   private static walletService = new WalletService();
-  private static provider: ethers.Provider | null = null;
 
-  private static initializeProvider(): ethers.Provider | null {
-    if (this.provider) {
-      return this.provider;
+  private static sessionContext(req: Request): SessionContext {
+    const { channel, device } = req.body || {};
+    return {
+      channel: typeof channel === 'string' && isActiveChannel(channel) ? channel as Channel : Channel.WEB,
+      device: typeof device === 'string' ? sanitizeString(device).substring(0, 200) : undefined,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')?.substring(0, 500)
+    };
+  }
+
+  private static async sendVerificationEmail(user: IUser): Promise<boolean> {
+    try {
+      const { token } = await userTokenService.issue(user, 'email_verification');
+      const verificationUrl = `${config.server.frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+      return await emailService.sendEmailVerification(user.email, verificationUrl, user.profile?.name);
+    } catch (error: any) {
+      logger.error('Failed to send verification email', { email: user.email, error: error.message });
+      return false;
+    }
+  }
+
+  /**
+   * Finish a sign in once every required factor has been checked
+   */
+  private static async signInResponse(req: Request, user: IUser, extra: Record<string, any> = {}): Promise<ApiResponse> {
+    return {
+      success: true,
+      message: 'Sign in successful',
+      data: {
+        email: user.email,
+        username: user.username,
+        walletAddress: user.walletAddress,
+        roles: user.roles,
+        profile: user.profile,
+        onboardingCompleted: user.onboardingCompleted,
+        ...extra,
+        ...(await sessionService.createSession(user, IdentityController.sessionContext(req)))
+      }
+    };
+  }
+
+  private static twoFactorChallenge(user: IUser): ApiResponse {
+    return {
+      success: true,
+      message: 'Two-factor authentication required',
+      data: {
+        twoFactorRequired: true,
+        ...authService.issueTwoFactorChallenge(user.id)
+      }
+    };
+  }
+
+  static createUser = asyncHandler(async (req: Request, res: Response) => {
+    const { email, username, password, profile, consentGiven, phoneNumber } = req.body;
+    
+    if (containsScriptTags(email) || containsScriptTags(username) || 
+        (profile?.name && containsScriptTags(profile.name)) ||
+        (profile?.bio && containsScriptTags(profile.bio)) ||
+        (profile?.location && containsScriptTags(profile.location))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid characters detected in input'
+      });
+    }
+    
+    const sanitizedEmail = sanitizeEmail(email);
+    
+    // Check if user already exists by email
+    const existingUserByEmail = await User.findOne({ email: sanitizedEmail });
+    if (existingUserByEmail) {
+      return res.status(400).json({ 
+        success: false,
+        error: 'User with this email already exists' 
+      });
+    }
+
+    const sanitizedUsername = username ? sanitizeString(username) : '';
+    const normalizedUsername = sanitizedUsername && !sanitizedUsername.toLowerCase().endsWith('.synkio') 
+      ? `${sanitizedUsername.toLowerCase().trim()}.synkio` 
+      : (sanitizedUsername?.toLowerCase().trim() || '');
+
+    // Check if username already exists
+    const existingUserByUsername = await User.findOne({ username: normalizedUsername });
+    if (existingUserByUsername) {
+      return res.status(400).json({ 
+        success: false,
+        error: 'Username already taken' 
+      });
+    }
+
+    // Hash password
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // Create wallet with password-based encryption
+    const { address: walletAddress, encryptedPrivateKey } = await IdentityController.walletService.createWallet(hashedPassword);
+
+    const user = new User({
+      email: sanitizedEmail,
+      username: normalizedUsername,
+      password: hashedPassword,
+      walletAddress,
+      encryptedPrivateKey,
+      roles: profile?.isVendor ? [UserRole.BUYER, UserRole.VENDOR] : [UserRole.BUYER],
+      consentGiven: consentGiven || false,
+      onboardingCompleted: true,
+      phoneNumber: phoneNumber ? sanitizeString(phoneNumber) : undefined,
+      profile: {
+        name: profile?.name ? sanitizeString(profile.name) : '',
+        bio: profile?.bio ? sanitizeString(profile.bio) : undefined,
+        isVendor: profile?.isVendor || false,
+        categories: profile?.categories || [],
+        avatar: profile?.avatar ? sanitizeUrl(profile.avatar) : undefined,
+        location: profile?.location ? sanitizeString(profile.location) : undefined,
+        website: profile?.website ? sanitizeUrl(profile.website) : undefined
+      }
+    });
+
+    await user.save();
+    await IdentityController.sendVerificationEmail(user);
+    
+    const response: ApiResponse = {
+      success: true,
+      message: 'User created successfully',
+      data: {
+        email: user.email,
+        username: user.username,
+        walletAddress: user.walletAddress,
+        roles: user.roles,
+        profile: user.profile,
+        onboardingCompleted: user.onboardingCompleted,
+        ...(await sessionService.createSession(user, IdentityController.sessionContext(req)))
+      }
+    };
+    
+    res.status(201).json(response);
+  });
+
+  static signIn = asyncHandler(async (req: Request, res: Response) => {
+    const { email, username, password } = req.body;
+    
+    if (!password) {
+      return res.status(400).json({
+        success: false,
+        error: 'Password is required'
+      });
+    }
+
+    let user;
+    if (email) {
+      const sanitizedEmail = sanitizeEmail(email);
+      user = await User.findOne({ email: sanitizedEmail });
+    } else if (username) {
+      const normalizedUsername = username.toLowerCase().endsWith('.synkio') 
+        ? username.toLowerCase().trim()
+        : `${username.toLowerCase().trim()}.synkio`;
+      user = await User.findOne({ username: normalizedUsername });
+    } else {
+      return res.status(400).json({
+        success: false,
+        error: 'Email or username is required'
+      });
+    }
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid email/username or password'
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid email/username or password'
+      });
+    }
+
+    if (user.twoFactor?.enabled) {
+      return res.status(200).json(IdentityController.twoFactorChallenge(user));
+    }
+
+    res.status(200).json(await IdentityController.signInResponse(req, user));
+  });
+
+  static verifyTwoFactorSignIn = asyncHandler(async (req: Request, res: Response) => {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || typeof challengeToken !== 'string' || !code || typeof code !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Challenge token and code are required'
+      });
+    }
+
+    let userId: string;
+    try {
+      userId = authService.verifyTwoFactorChallenge(challengeToken);
+    } catch (error: any) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired two-factor challenge, please sign in again'
+      });
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired two-factor challenge, please sign in again'
+      });
+    }
+
+    const result = await twoFactorService.verify(user, code);
+    if (!result.valid) {
+      return res.status(result.locked ? 429 : 401).json({
+        success: false,
+        error: result.locked ? 'Too many invalid two-factor codes, try again later' : 'Invalid two-factor code'
+      });
+    }
+
+    res.status(200).json(await IdentityController.signInResponse(req, user, {
+      backupCodesRemaining: result.method === 'backup_code' ? twoFactorService.remainingBackupCodes(user) - 1 : undefined
+    }));
+  });
+
+  static requestSiweNonce = asyncHandler(async (req: Request, res: Response) => {
+    const { address, chainId } = req.body;
+
+    if (!address || !ethers.isAddress(address)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid wallet address is required'
+      });
+    }
+
+    try {
+      const challenge = await siweService.createChallenge(address, 'login', {
+        chainId: chainId !== undefined ? Number(chainId) : undefined
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: challenge
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  static siweSignIn = asyncHandler(async (req: Request, res: Response) => {
+    const { message, signature } = req.body;
+
+    let verified;
+    try {
+      verified = await siweService.verify(message, signature, 'login');
+    } catch (error: any) {
+      logger.warn('SIWE sign in rejected', { error: error.message });
+      return res.status(401).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    const user = await siweService.findUserByWallet(verified.address);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'No account is linked to this wallet'
+      });
+    }
+
+    const wallet = user.externalWallets.find(w => w.address === verified.address.toLowerCase());
+    if (wallet) {
+      wallet.lastUsedAt = new Date();
+      await user.save();
+    }
+
+    if (user.twoFactor?.enabled) {
+      return res.status(200).json(IdentityController.twoFactorChallenge(user));
+    }
+
+    res.status(200).json(await IdentityController.signInResponse(req, user, { signedInWith: verified.address }));
+  });
+
+  static refreshToken = asyncHandler(async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Refresh token is required'
+      });
+    }
+
+    try {
+      const { session } = await sessionService.refreshSession(refreshToken, IdentityController.sessionContext(req));
+
+      const response: ApiResponse = {
+        success: true,
+        data: session
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.warn('Refresh token rejected', { error: error.message });
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token'
+      });
+    }
+  });
+
+  static signOut = asyncHandler(async (req: Request, res: Response) => {
+    const { id, sessionId } = (req as AuthenticatedRequest).user!;
+    await sessionService.revokeSession(id, sessionId, 'signout');
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Signed out successfully'
+    };
+
+    res.status(200).json(response);
+  });
+
+  static getSessions = asyncHandler(async (req: Request, res: Response) => {
+    const { id, sessionId } = (req as AuthenticatedRequest).user!;
+    const sessions = await sessionService.listActiveSessions(id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          sessionId: session.sessionId,
+          channel: session.channel,
+          device: session.device,
+          ipAddress: session.ipAddress,
+          userAgent: session.userAgent,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastSeenAt,
+          expiresAt: session.expiresAt,
+          current: session.sessionId === sessionId
+        }))
+      }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static revokeSession = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = (req as AuthenticatedRequest).user!;
+    const { sessionId } = req.params;
+
+    const revoked = await sessionService.revokeSession(id, sessionId, 'remote_signout');
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Session revoked successfully'
+    };
+
+    res.status(200).json(response);
+  });
+
+  static revokeAllSessions = asyncHandler(async (req: Request, res: Response) => {
+    const { id, sessionId } = (req as AuthenticatedRequest).user!;
+    const keepCurrent = req.query.keepCurrent === 'true';
+
+    const revokedCount = await sessionService.revokeAllSessions(
+      id,
+      'remote_signout',
+      keepCurrent ? sessionId : undefined
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Sessions revoked successfully',
+      data: { revokedCount }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static requestEmailVerification = asyncHandler(async (req: Request, res: Response) => {
+    const { email } = req.params;
+    const user = await User.findOne({ email: sanitizeEmail(email) });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    if (user.verification?.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is already verified'
+      });
+    }
+
+    const emailSent = await IdentityController.sendVerificationEmail(user);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Verification email requested',
+      data: { emailSent }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static confirmEmailVerification = asyncHandler(async (req: Request, res: Response) => {
+    const { token } = req.body;
+    const userToken = await userTokenService.consume(token, 'email_verification');
+
+    if (!userToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid or expired verification token'
+      });
+    }
+
+    // The token is bound to the address it was sent to, not just the account
+    const user = await User.findOneAndUpdate(
+      { _id: userToken.userId, email: userToken.email },
+      { 'verification.emailVerified': true },
+      { new: true }
+    );
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid or expired verification token'
+      });
+    }
+
+    logger.info('Email verified', { email: user.email });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Email verified successfully',
+      data: {
+        email: user.email,
+        emailVerified: true
+      }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static requestPasswordReset = asyncHandler(async (req: Request, res: Response) => {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required'
+      });
+    }
+
+    const user = await User.findOne({ email: sanitizeEmail(email) });
+
+    if (user) {
+      const { token } = await userTokenService.issue(user, 'password_reset');
+      const resetUrl = `${config.server.frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+      await emailService.sendPasswordReset(user.email, resetUrl, user.profile?.name);
+    } else {
+      logger.info('Password reset requested for unknown email', { email: sanitizeEmail(email) });
+    }
+
+    // Same answer either way so the endpoint can't be used to discover accounts
+    const response: ApiResponse = {
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent'
+    };
+
+    res.status(200).json(response);
+  });
+
+  static confirmPasswordReset = asyncHandler(async (req: Request, res: Response) => {
+    const { token, newPassword } = req.body;
+
+    if (!newPassword || typeof newPassword !== 'string' || newPassword.length < 8) {
+      return res.status(400).json({
+        success: false,
+        error: 'New password must be at least 8 characters'
+      });
+    }
+
+    const userToken = await userTokenService.consume(token, 'password_reset');
+    if (!userToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid or expired reset token'
+      });
+    }
+
+    const user = await User.findById(userToken.userId);
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid or expired reset token'
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    let encryptedPrivateKey: string;
+    try {
+      encryptedPrivateKey = IdentityController.walletService.reencryptPrivateKey(
+        user.encryptedPrivateKey,
+        user.password,
+        hashedPassword
+      );
+    } catch (error: any) {
+      logger.error('Password reset aborted - wallet key could not be re-encrypted', {
+        email: user.email,
+        error: error.message
+      });
+      return res.status(500).json({
+        success: false,
+        error: 'Password reset failed - wallet could not be re-encrypted. Please contact support.'
+      });
+    }
+
+    // Saving the password also revokes every session (see User model hooks)
+    user.password = hashedPassword;
+    user.encryptedPrivateKey = encryptedPrivateKey;
+    await user.save();
+
+    await emailService.sendPasswordChanged(user.email, user.profile?.name);
+    logger.info('Password reset completed', { email: user.email });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Password reset successfully. Please sign in again.'
+    };
+
+    res.status(200).json(response);
+  });
+
+  static changePassword = asyncHandler(async (req: Request, res: Response) => {
+    const { email } = req.params;
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || typeof currentPassword !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Current password is required'
+      });
+    }
+
+    if (!newPassword || typeof newPassword !== 'string' || newPassword.length < 8) {
+      return res.status(400).json({
+        success: false,
+        error: 'New password must be at least 8 characters'
+      });
+    }
+
+    const user = await User.findOne({ email: sanitizeEmail(email) });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+    if (!isPasswordValid) {
+      return res.status(401).json({
+        success: false,
+        error: 'Current password is incorrect'
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    let encryptedPrivateKey: string;
+    try {
+      encryptedPrivateKey = IdentityController.walletService.reencryptPrivateKey(
+        user.encryptedPrivateKey,
+        user.password,
+        hashedPassword
+      );
+    } catch (error: any) {
+      logger.error('Password change aborted - wallet key could not be re-encrypted', {
+        email: user.email,
+        error: error.message
+      });
+      return res.status(500).json({
+        success: false,
+        error: 'Password change failed - wallet could not be re-encrypted. Please contact support.'
+      });
+    }
+
+    // Password and wrapped key are written together so neither can be saved without the other
+    user.password = hashedPassword;
+    user.encryptedPrivateKey = encryptedPrivateKey;
+    await user.save();
+
+    await emailService.sendPasswordChanged(user.email, user.profile?.name);
+    logger.info('Password changed', { email: user.email });
+
+    // Every session was just revoked, so hand the caller a fresh one
+    const response: ApiResponse = {
+      success: true,
+      message: 'Password changed successfully. Other sessions have been signed out.',
+      data: await sessionService.createSession(user, IdentityController.sessionContext(req))
+    };
+
+    res.status(200).json(response);
+  });
+
+  static changeEmail = asyncHandler(async (req: Request, res: Response) => {
+    const { newEmail, password } = req.body;
+
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Password is required'
+      });
+    }
+
+    if (!newEmail || typeof newEmail !== 'string' || containsScriptTags(newEmail)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid new email is required'
+      });
+    }
+
+    const sanitizedNewEmail = sanitizeEmail(newEmail);
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(sanitizedNewEmail)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A valid new email is required'
+      });
+    }
+
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      return res.status(401).json({
+        success: false,
+        error: 'Password is incorrect'
+      });
+    }
+
+    if (sanitizedNewEmail === user.email) {
+      return res.status(400).json({
+        success: false,
+        error: 'New email is the same as the current one'
+      });
+    }
+
+    if (await User.exists({ email: sanitizedNewEmail })) {
+      return res.status(400).json({
+        success: false,
+        error: 'User with this email already exists'
+      });
+    }
+
+    const oldEmail = user.email;
+    user.email = sanitizedNewEmail;
+    user.verification.emailVerified = false;
+    await user.save();
+
+    // Records are keyed by email, so carry them over to the new address
+    await Promise.all([
+      Transaction.updateMany({ buyerEmail: oldEmail }, { buyerEmail: sanitizedNewEmail }),
+      Transaction.updateMany({ sellerEmail: oldEmail }, { sellerEmail: sanitizedNewEmail }),
+      Product.updateMany({ vendorEmail: oldEmail }, { vendorEmail: sanitizedNewEmail }),
+      Conversation.updateMany({ userEmail: oldEmail }, { userEmail: sanitizedNewEmail }),
+      Feedback.updateMany({ userEmail: oldEmail }, { userEmail: sanitizedNewEmail })
+    ]);
+
+    // Access tokens carry the email claim, so every existing session is stale
+    await sessionService.revokeAllSessions(user.id, 'email_change');
+    await emailService.sendEmailChanged(oldEmail, sanitizedNewEmail, user.profile?.name);
+    await IdentityController.sendVerificationEmail(user);
+
+    logger.info('Email changed', { oldEmail, newEmail: sanitizedNewEmail });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Email changed successfully. Please verify your new address.',
+      data: {
+        email: user.email,
+        ...(await sessionService.createSession(user, IdentityController.sessionContext(req)))
+      }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static getTwoFactorStatus = asyncHandler(async (req: Request, res: Response) => {
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        enabled: !!user.twoFactor?.enabled,
+        enabledAt: user.twoFactor?.enabledAt,
+        backupCodesRemaining: twoFactorService.remainingBackupCodes(user)
+      }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static setupTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    try {
+      const enrollment = await twoFactorService.beginEnrollment(user);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+        data: enrollment
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  static enableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+    const { code } = req.body;
+
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
     }
 
-    const rpcUrl = process.env.BASE_RPC_URL;
-    if (!rpcUrl) {
-      logger.warn('BASE_RPC_URL not set, wallet balance will use fallback');
-      return null;
+    try {
+      const backupCodes = await twoFactorService.confirmEnrollment(user, code);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Two-factor authentication enabled. Store these backup codes somewhere safe; they will not be shown again.',
+        data: { backupCodes }
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
     }
+  });
 
-    try {
-      this.provider = new ethers.JsonRpcProvider(rpcUrl);
-      logger.info(`Initialized RPC provider with URL: ${rpcUrl}`);
-      return this.provider;
-    } catch (error) {
-      logger.warn('Failed to initialize RPC provider:', error);
-      return null;
-    }
-  }
+  static disableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+    const { password } = req.body;
 
-  static createUser = asyncHandler(async (req: Request, res: Response) => {
-    const { email, username, password, profile, consentGiven, phoneNumber } = req.body;
-    
-    if (containsScriptTags(email) || containsScriptTags(username) || 
-        (profile?.name && containsScriptTags(profile.name)) ||
-        (profile?.bio && containsScriptTags(profile.bio)) ||
-        (profile?.location && containsScriptTags(profile.location))) {
-      return res.status(400).json({
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
         success: false,
-        error: 'Invalid characters detected in input'
+        error: 'User not found'
       });
     }
-    
-    const sanitizedEmail = sanitizeEmail(email);
-    
-    // Check if user already exists by email
-    const existingUserByEmail = await User.findOne({ email: sanitizedEmail });
-    if (existingUserByEmail) {
-      return res.status(400).json({ 
+
+    if (!password || typeof password !== 'string' || !(await bcrypt.compare(password, user.password))) {
+      return res.status(401).json({
         success: false,
-        error: 'User with this email already exists' 
+        error: 'Password is incorrect'
       });
     }
 
-    const sanitizedUsername = username ? sanitizeString(username) : '';
-    const normalizedUsername = sanitizedUsername && !sanitizedUsername.toLowerCase().endsWith('.synkio') 
-      ? `${sanitizedUsername.toLowerCase().trim()}.synkio` 
-      : (sanitizedUsername?.toLowerCase().trim() || '');
+    await twoFactorService.disable(user);
+    await emailService.sendTwoFactorDisabled(user.email, user.profile?.name);
 
-    // Check if username already exists
-    const existingUserByUsername = await User.findOne({ username: normalizedUsername });
-    if (existingUserByUsername) {
-      return res.status(400).json({ 
+    const response: ApiResponse = {
+      success: true,
+      message: 'Two-factor authentication disabled'
+    };
+
+    res.status(200).json(response);
+  });
+
+  static regenerateBackupCodes = asyncHandler(async (req: Request, res: Response) => {
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user?.twoFactor?.enabled) {
+      return res.status(400).json({
         success: false,
-        error: 'Username already taken' 
+        error: 'Two-factor authentication is not enabled'
       });
     }
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10);
+    const backupCodes = await twoFactorService.regenerateBackupCodes(user);
 
-    // Create wallet with password-based encryption
-    const { address: walletAddress, encryptedPrivateKey } = await IdentityController.walletService.createWallet(hashedPassword);
+    const response: ApiResponse = {
+      success: true,
+      message: 'New backup codes generated. Previous codes no longer work.',
+      data: { backupCodes }
+    };
 
-    const user = new User({
-      email: sanitizedEmail,
-      username: normalizedUsername,
-      password: hashedPassword,
-      walletAddress,
-      encryptedPrivateKey,
-      consentGiven: consentGiven || false,
-      onboardingCompleted: true,
-      phoneNumber: phoneNumber ? sanitizeString(phoneNumber) : undefined,
-      profile: {
-        name: profile?.name ? sanitizeString(profile.name) : '',
-        bio: profile?.bio ? sanitizeString(profile.bio) : undefined,
-        isVendor: profile?.isVendor || false,
-        categories: profile?.categories || [],
-        avatar: profile?.avatar ? sanitizeUrl(profile.avatar) : undefined,
-        location: profile?.location ? sanitizeString(profile.location) : undefined,
-        website: profile?.website ? sanitizeUrl(profile.website) : undefined
-      }
-    });
+    res.status(200).json(response);
+  });
+
+  static getWallets = asyncHandler(async (req: Request, res: Response) => {
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
 
-    await user.save();
-    
     const response: ApiResponse = {
       success: true,
-      message: 'User created successfully',
       data: {
-        email: user.email,
-        username: user.username,
         walletAddress: user.walletAddress,
-        profile: user.profile,
-        onboardingCompleted: user.onboardingCompleted
+        payoutWalletAddress: user.payoutWalletAddress || user.walletAddress,
+        externalWallets: user.externalWallets
       }
     };
-    
-    res.status(201).json(response);
+
+    res.status(200).json(response);
   });
 
-  static signIn = asyncHandler(async (req: Request, res: Response) => {
-    const { email, username, password } = req.body;
-    
-    if (!password) {
+  static requestWalletLinkNonce = asyncHandler(async (req: Request, res: Response) => {
+    const { address, chainId } = req.body;
+
+    if (!address || !ethers.isAddress(address)) {
       return res.status(400).json({
         success: false,
-        error: 'Password is required'
+        error: 'A valid wallet address is required'
       });
     }
 
-    let user;
-    if (email) {
-      const sanitizedEmail = sanitizeEmail(email);
-      user = await User.findOne({ email: sanitizedEmail });
-    } else if (username) {
-      const normalizedUsername = username.toLowerCase().endsWith('.synkio') 
-        ? username.toLowerCase().trim()
-        : `${username.toLowerCase().trim()}.synkio`;
-      user = await User.findOne({ username: normalizedUsername });
-    } else {
+    try {
+      const challenge = await siweService.createChallenge(address, 'link', {
+        userId: (req as AuthenticatedRequest).user!.id,
+        chainId: chainId !== undefined ? Number(chainId) : undefined
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: challenge
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
       return res.status(400).json({
         success: false,
-        error: 'Email or username is required'
+        error: error.message
       });
     }
+  });
+
+  static linkWallet = asyncHandler(async (req: Request, res: Response) => {
+    const { message, signature, label, setAsPayout } = req.body;
 
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
     if (!user) {
-      return res.status(401).json({
+      return res.status(404).json({
         success: false,
-        error: 'Invalid email/username or password'
+        error: 'User not found'
       });
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
-      return res.status(401).json({
+    try {
+      const wallet = await siweService.linkWallet(user, message, signature, {
+        label: typeof label === 'string' ? sanitizeString(label).substring(0, 50) : undefined,
+        setAsPayout: setAsPayout === true
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Wallet linked successfully',
+        data: {
+          wallet,
+          payoutWalletAddress: user.payoutWalletAddress || user.walletAddress
+        }
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.warn('Wallet link rejected', { email: user.email, error: error.message });
+      return res.status(400).json({
         success: false,
-        error: 'Invalid email/username or password'
+        error: error.message
+      });
+    }
+  });
+
+  static setPayoutWallet = asyncHandler(async (req: Request, res: Response) => {
+    const { address } = req.body;
+
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const normalized = typeof address === 'string' ? address.toLowerCase() : '';
+    const isOwnWallet = normalized === user.walletAddress
+      || user.externalWallets.some(wallet => wallet.address === normalized);
+
+    if (!isOwnWallet) {
+      return res.status(400).json({
+        success: false,
+        error: 'Payout wallet must be your Synkio wallet or a verified external wallet'
       });
     }
 
+    user.payoutWalletAddress = normalized === user.walletAddress ? undefined : normalized;
+    await user.save();
+
     const response: ApiResponse = {
       success: true,
-      message: 'Sign in successful',
+      message: 'Payout wallet updated successfully',
+      data: { payoutWalletAddress: normalized }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static unlinkWallet = asyncHandler(async (req: Request, res: Response) => {
+    const address = req.params.address.toLowerCase();
+
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const remaining = user.externalWallets.filter(wallet => wallet.address !== address);
+    if (remaining.length === user.externalWallets.length) {
+      return res.status(404).json({
+        success: false,
+        error: 'Wallet not linked'
+      });
+    }
+
+    user.externalWallets = remaining;
+    if (user.payoutWalletAddress === address) {
+      user.payoutWalletAddress = undefined;
+    }
+    await user.save();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Wallet unlinked successfully',
+      data: { payoutWalletAddress: user.payoutWalletAddress || user.walletAddress }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static updateRoles = asyncHandler(async (req: Request, res: Response) => {
+    const { email } = req.params;
+    const { roles } = req.body;
+    const validRoles = Object.values(UserRole) as string[];
+
+    if (!Array.isArray(roles) || roles.length === 0 || roles.some(role => !validRoles.includes(role))) {
+      return res.status(400).json({
+        success: false,
+        error: `Roles must be a non-empty list of: ${validRoles.join(', ')}`
+      });
+    }
+
+    const user = await User.findOne({ email: sanitizeEmail(email) });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const actor = (req as AuthenticatedRequest).user!;
+    if (user.id === actor.id && !roles.includes(UserRole.ADMIN)) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot remove your own admin role'
+      });
+    }
+
+    const previousRoles = [...user.roles];
+    user.roles = Array.from(new Set(roles)) as UserRole[];
+    await user.save();
+
+    logger.info('User roles updated', { email: user.email, previousRoles, roles: user.roles, by: actor.email });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Roles updated successfully',
       data: {
         email: user.email,
-        username: user.username,
-        walletAddress: user.walletAddress,
-        profile: user.profile,
-        onboardingCompleted: user.onboardingCompleted
+        roles: user.roles
       }
     };
 
@@ -187,6 +1081,9 @@ export class IdentityController {
       data: {
         email: user.email,
         walletAddress: user.walletAddress,
+        payoutWalletAddress: user.payoutWalletAddress || user.walletAddress,
+        externalWallets: user.externalWallets,
+        roles: user.roles,
         profile: user.profile,
         onboardingCompleted: user.onboardingCompleted,
         consentGiven: user.consentGiven,
@@ -281,25 +1178,18 @@ export class IdentityController {
     }
 
     try {
-      const provider = IdentityController.initializeProvider();
+      const { network, provider } = networkRegistry.get((req as NetworkRequest).network);
       const balance = await IdentityController.walletService.getWalletBalance(
         user.encryptedPrivateKey, 
         user.password, 
-        provider || undefined
+        provider
       );
 
-      let networkInfo = { name: 'Base Sepolia', chainId: 84532 };
-      if (provider) {
-        try {
-          const network = await provider.getNetwork();
-          networkInfo = {
-            name: network.name,
-            chainId: Number(network.chainId)
-          };
-        } catch (error) {
-          logger.warn('Could not get network info, using defaults:', error);
-        }
-      }
+      const networkInfo = {
+        key: network.key,
+        name: network.name,
+        chainId: network.chainId
+      };
 
       const response: ApiResponse = {
         success: true,
@@ -323,13 +1213,13 @@ export class IdentityController {
       });
 
       const errorMessage = error.message || 'Failed to get wallet balance';
-      const statusCode = error.message?.includes('ENCRYPTION_KEY') || error.message?.includes('password hash') 
-        ? 500 
-        : 500;
+      const statusCode = error.statusCode || 500;
 
       res.status(statusCode).json({
         success: false,
-        error: errorMessage.includes('ENCRYPTION_KEY') 
+        error: error.statusCode
+          ? errorMessage
+          : errorMessage.includes('ENCRYPTION_KEY') 
           ? 'Wallet decryption failed - encryption key mismatch. Please contact support.'
           : errorMessage.includes('password hash')
           ? 'Wallet decryption failed - password hash mismatch. Account may need to be re-initialized.'
@@ -338,6 +1228,51 @@ export class IdentityController {
     }
   });
 
+  /**
+   * Native and ERC-20 balances on every network plus funds held in open escrows
+   * Balances that could not be read are flagged stale or unavailable rather than reported as zero.
+   */
+  static getWalletPortfolio = asyncHandler(async (req: Request, res: Response) => {
+    const sanitizedEmail = sanitizeEmail(req.params.email);
+    const user = await User.findOne({ email: sanitizedEmail }).select('email walletAddress');
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    if (!user.walletAddress) {
+      return res.status(409).json({
+        success: false,
+        error: 'Wallet not initialized'
+      });
+    }
+
+    const networks = await portfolioService.getPortfolio(user.email, user.walletAddress);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        walletAddress: user.walletAddress,
+        cacheTtlSeconds: config.blockchain.portfolioCacheSeconds,
+        networks
+      }
+    };
+
+    res.status(200).json(response);
+  });
+
+  static getGasBudget = asyncHandler(async (req: Request, res: Response) => {
+    const response: ApiResponse = {
+      success: true,
+      data: await gasSponsorshipService.getBudget((req as AuthenticatedRequest).user!.id)
+    };
+
+    res.status(200).json(response);
+  });
+
   static linkFarcaster = asyncHandler(async (req: Request, res: Response) => {
     const { email } = req.params;
     const sanitizedEmail = sanitizeEmail(email);
@@ -403,7 +1338,10 @@ export class IdentityController {
     const response: ApiResponse = {
       success: true,
       message: 'Profile updated successfully',
-      data: user
+      data: {
+        email: user.email,
+        profile: user.profile
+      }
     };
 
     res.status(200).json(response);
@@ -459,6 +1397,7 @@ export class IdentityController {
       password: hashedPassword,
       walletAddress,
       encryptedPrivateKey,
+      roles: [UserRole.BUYER, UserRole.VENDOR],
       consentGiven: consentGiven || false,
       onboardingCompleted: true,
       phoneNumber: phoneNumber ? sanitizeString(phoneNumber) : undefined,
@@ -474,6 +1413,7 @@ export class IdentityController {
     });
 
     await user.save();
+    await IdentityController.sendVerificationEmail(user);
     
     const response: ApiResponse = {
       success: true,
@@ -482,8 +1422,10 @@ export class IdentityController {
         email: user.email,
         username: user.username,
         walletAddress: user.walletAddress,
+        roles: user.roles,
         profile: user.profile,
-        onboardingCompleted: user.onboardingCompleted
+        onboardingCompleted: user.onboardingCompleted,
+        ...(await sessionService.createSession(user, IdentityController.sessionContext(req)))
       }
     };
     
@@ -543,6 +1485,7 @@ export class IdentityController {
         email: user.email,
         username: user.username,
         walletAddress: user.walletAddress,
+        payoutWalletAddress: user.payoutWalletAddress || user.walletAddress,
         profile: user.profile,
         reputation: user.reputation
       }
@@ -552,7 +1495,7 @@ export class IdentityController {
   });
 
   static getVendors = asyncHandler(async (req: Request, res: Response) => {
-    const { category, minReputation = 0, page = 1, limit = 20 } = req.query;
+    const { category, minReputation = 0, minRating, page = 1, limit = 20 } = req.query;
     
     const query: any = {
       'profile.isVendor': true,
@@ -562,6 +1505,11 @@ export class IdentityController {
     if (category) {
       query['profile.categories'] = category;
     }
+
+    // Ratings are aggregated onto reputation by the reputation engine
+    if (minRating) {
+      query['reputation.averageRating'] = { $gte: Number(minRating) };
+    }
     
     const skip = (Number(page) - 1) * Number(limit);
     
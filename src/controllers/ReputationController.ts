@@ -1,32 +1,95 @@
 import { Request, Response } from 'express';
-import { logger } from '../utils/logger';
+import { ethers } from 'ethers';
 import { asyncHandler } from '../middleware';
-import { ApiResponse } from '../types';
+import { ApiResponse, AuthenticatedRequest } from '../types';
+import { User } from '../models/User';
+import { ReputationService } from '../services/ReputationService';
+import { reputationEngine } from '../services/ReputationEngine';
+import { jobStatusPath } from '../services/TransactionQueueService';
 
 export class ReputationController {
-  constructor(private reputationService: any) {}
+  constructor(private reputationService: ReputationService) {}
 
   getReputation = asyncHandler(async (req: Request, res: Response) => {
     const { userAddress } = req.params;
     const reputation = await this.reputationService.getReputation(userAddress);
-    
+
     const response: ApiResponse = {
       success: true,
       data: { reputation }
     };
-    
+
     res.status(200).json(response);
   });
 
-  updateReputation = asyncHandler(async (req: Request, res: Response) => {
-    const { userAddress, newReputation } = req.body;
-    const tx = await this.reputationService.updateReputation(userAddress, newReputation);
-    
+  /**
+   * Why a user's score moved, newest first
+   */
+  getHistory = asyncHandler(async (req: Request, res: Response) => {
+    const user = await this.userFor(req.params.userAddress);
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    const history = await reputationEngine.history(user.email, limit);
+
     const response: ApiResponse = {
       success: true,
-      data: { hash: tx.hash }
+      data: {
+        reputation: user.reputation,
+        history: history.map(change => ({
+          previousScore: change.previousScore,
+          score: change.score,
+          reasons: change.reasons,
+          factors: change.factors,
+          stats: change.stats,
+          trigger: change.trigger,
+          onChain: change.onChain,
+          createdAt: change.createdAt
+        }))
+      }
     };
-    
+
     res.status(200).json(response);
   });
+
+  /**
+   * Rescore a user from their escrow history now instead of waiting for the next sweep
+   * Scores cannot be set directly; the engine derives them and pushes the result on-chain.
+   */
+  updateReputation = asyncHandler(async (req: Request, res: Response) => {
+    const user = await this.userFor(req.body.userAddress);
+    const change = await reputationEngine.recalculate(user.email, (req as AuthenticatedRequest).user!.email);
+
+    if (!change) {
+      const response: ApiResponse = {
+        success: true,
+        data: { reputation: (await User.findById(user._id))?.reputation },
+        message: 'Score unchanged'
+      };
+      return res.status(200).json(response);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        previousScore: change.previousScore,
+        score: change.score,
+        reasons: change.reasons,
+        onChain: change.onChain,
+        statusUrl: change.onChain.jobId ? jobStatusPath(change.onChain.jobId) : undefined
+      }
+    };
+
+    res.status(change.onChain.status === 'queued' ? 202 : 200).json(response);
+  });
+
+  private async userFor(userAddress: unknown) {
+    if (typeof userAddress !== 'string' || !ethers.isAddress(userAddress)) {
+      throw Object.assign(new Error('A valid userAddress is required'), { statusCode: 400 });
+    }
+
+    const user = await User.findOne({ walletAddress: userAddress.toLowerCase() });
+    if (!user) {
+      throw Object.assign(new Error('No user has this wallet address'), { statusCode: 404 });
+    }
+    return user;
+  }
 }
@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware';
+import { ApiResponse, AuthenticatedRequest, NetworkRequest } from '../types';
+import { Transaction } from '../models/Transaction';
+import { Product } from '../models/Product';
+import { reviewService, ReviewPage } from '../services/ReviewService';
+import { DEFAULT_NETWORK_KEY } from '../config/networks';
+import { sanitizeEmail } from '../utils/sanitize';
+import { CreateReviewDto, ReviewReplyDto, ModerateReviewDto } from '../dto/escrow.dto';
+
+export class ReviewController {
+  /**
+   * Either party reviews the other once the escrow has completed
+   */
+  static createReview = asyncHandler(async (req: Request, res: Response) => {
+    const { rating, text, photos } = req.body as CreateReviewDto;
+    const email = (req as AuthenticatedRequest).user!.email;
+    const transaction = await Transaction.findOne({ network: ReviewController.networkOf(req), escrowId: req.params.escrowId });
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transaction not found'
+      });
+    }
+
+    const role = transaction.buyerEmail === email ? 'buyer' : transaction.sellerEmail === email ? 'seller' : null;
+    if (!role) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the buyer and seller can review this escrow'
+      });
+    }
+
+    const review = await reviewService.create(transaction, { email, role }, { rating, text, photos });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Review posted',
+      data: reviewService.toResponse(review, true)
+    };
+
+    res.status(201).json(response);
+  });
+
+  static getEscrowReviews = asyncHandler(async (req: Request, res: Response) => {
+    const reviews = await reviewService.forEscrow(ReviewController.networkOf(req), req.params.escrowId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: reviews.map(review => reviewService.toResponse(review, true))
+    };
+
+    res.status(200).json(response);
+  });
+
+  static getVendorReviews = asyncHandler(async (req: Request, res: Response) => {
+    const vendorEmail = sanitizeEmail(req.params.email);
+    const { page, limit } = ReviewController.pagingOf(req);
+
+    const [summary, reviews] = await Promise.all([
+      reviewService.summaryForSubject(vendorEmail),
+      reviewService.forSubject(vendorEmail, page, limit)
+    ]);
+
+    res.status(200).json(ReviewController.listResponse(summary, reviews, page, limit));
+  });
+
+  static getProductReviews = asyncHandler(async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const { page, limit } = ReviewController.pagingOf(req);
+
+    if (!(await Product.exists({ productId }))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const [summary, reviews] = await Promise.all([
+      reviewService.summaryForProduct(productId),
+      reviewService.forProduct(productId, page, limit)
+    ]);
+
+    res.status(200).json(ReviewController.listResponse(summary, reviews, page, limit));
+  });
+
+  static replyToReview = asyncHandler(async (req: Request, res: Response) => {
+    const { text } = req.body as ReviewReplyDto;
+    const review = await reviewService.reply(req.params.reviewId, sanitizeEmail(req.params.email), text);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Reply posted',
+      data: reviewService.toResponse(review)
+    };
+
+    res.status(200).json(response);
+  });
+
+  static moderateReview = asyncHandler(async (req: Request, res: Response) => {
+    const { status, reason } = req.body as ModerateReviewDto;
+    const review = await reviewService.moderate(
+      req.params.reviewId,
+      sanitizeEmail(req.params.email),
+      status,
+      (req as AuthenticatedRequest).user!.email,
+      reason
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Review ${status}`,
+      data: reviewService.toResponse(review, true)
+    };
+
+    res.status(200).json(response);
+  });
+
+  private static listResponse(summary: unknown, { reviews, total }: ReviewPage, page: number, limit: number): ApiResponse {
+    return {
+      success: true,
+      data: {
+        summary,
+        reviews: reviews.map(review => reviewService.toResponse(review)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    };
+  }
+
+  private static pagingOf(req: Request) {
+    return {
+      page: Math.max(Number(req.query.page) || 1, 1),
+      limit: Math.min(Math.max(Number(req.query.limit) || 20, 1), 100)
+    };
+  }
+
+  private static networkOf(req: Request) {
+    return (req as NetworkRequest).network || DEFAULT_NETWORK_KEY;
+  }
+}
@@ -1,23 +1,29 @@
 import { Request, Response } from 'express';
-import { Transaction } from '../models/Transaction';
+import { Transaction, ESCROW_STATUSES } from '../models/Transaction';
+import { User } from '../models/User';
+import { transactionQueueService, jobStatusPath } from '../services/TransactionQueueService';
+import { networkRegistry } from '../services/NetworkRegistry';
+import { gasSponsorshipService } from '../services/GasSponsorshipService';
+import { escrowStateMachine, escrowRoleOf } from '../services/EscrowStateMachine';
+import { loadRoles } from '../middleware/auth';
+import { sanitizeString } from '../utils/sanitize';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware';
-import { ApiResponse, TransactionQuery } from '../types';
+import { ApiResponse, AuthenticatedRequest, NetworkRequest, TransactionQuery } from '../types';
+import { ethers } from 'ethers';
 
 export class TransactionController {
-  constructor(
-    private paymentService: any,
-    private reputationService: any
-  ) {}
+  constructor(private networks: typeof networkRegistry) {}
 
   getTransactions = asyncHandler(async (req: Request, res: Response) => {
     const { email } = req.params;
-    const { page = 1, limit = 20, status, type, sortBy = 'createdAt', sortOrder = 'desc' } = req.query as TransactionQuery;
+    const { page = 1, limit = 20, network, status, type, sortBy = 'createdAt', sortOrder = 'desc' } = req.query as TransactionQuery;
     
     const query: any = {
       $or: [{ buyerEmail: email }, { sellerEmail: email }]
     };
     
+    if (network) query.network = network;
     if (status) query.status = status;
     if (type) query.type = type;
     
@@ -72,35 +78,76 @@ export class TransactionController {
 
   makeDirectPayment = asyncHandler(async (req: Request, res: Response) => {
     const { payee, amount, tokenAddress } = req.body;
-    const tx = await this.paymentService.makePayment(payee, amount, tokenAddress);
+
+    const payer = await User.findById((req as AuthenticatedRequest).user!.id)
+      .select('email walletAddress encryptedPrivateKey password');
+    if (!payer) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const { paymentService, escrowService } = this.networks.get((req as NetworkRequest).network);
+    const token = tokenAddress || ethers.ZeroAddress;
+
+    // Payments accept the same tokens the escrow contract allow-lists
+    await escrowService.assertTokenSupported(token);
+
+    const job = await paymentService.asUser({
+      id: payer.id,
+      email: payer.email,
+      walletAddress: payer.walletAddress,
+      encryptedPrivateKey: payer.encryptedPrivateKey,
+      password: payer.password
+    }).makePayment(payee, amount, token);
     
     const response: ApiResponse = {
       success: true,
-      data: { hash: tx.hash }
+      message: 'Payment queued',
+      data: { ...job, statusUrl: jobStatusPath(job.jobId) }
     };
     
+    res.status(202).json(response);
+  });
+
+  getJobStatus = asyncHandler(async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    const status = await transactionQueueService.getStatus(jobId);
+
+    // Jobs are only visible to the user who queued them
+    if (!status || status.requestedBy !== (req as AuthenticatedRequest).user!.email) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: status
+    };
+
     res.status(200).json(response);
   });
 
+  /**
+   * Move an escrow through its lifecycle; the transition, the caller's role and the
+   * contract's own status must all agree
+   */
   updateTransactionStatus = asyncHandler(async (req: Request, res: Response) => {
     const { transactionId } = req.params;
-    const { status, description, actor } = req.body;
-    
-    const transaction = await Transaction.findOneAndUpdate(
-      { transactionId },
-      {
-        status,
-        $push: {
-          timeline: {
-            status,
-            description: description || `Status updated to ${status}`,
-            actor: actor || 'system'
-          }
-        }
-      },
-      { new: true }
-    );
+    const { status, description } = req.body;
+    const caller = (req as AuthenticatedRequest).user!;
+
+    if (!ESCROW_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Status must be one of: ${ESCROW_STATUSES.join(', ')}`
+      });
+    }
 
+    const transaction = await Transaction.findOne({ transactionId });
     if (!transaction) {
       return res.status(404).json({ 
         success: false,
@@ -108,10 +155,28 @@ export class TransactionController {
       });
     }
 
+    const role = await escrowRoleOf(transaction, { email: caller.email, roles: await loadRoles(req) });
+    if (!role) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to access this transaction'
+      });
+    }
+
+    const onChain = await this.networks.get(transaction.network).escrowService.getEscrow(Number(transaction.escrowId));
+    const updated = await escrowStateMachine.transition(transaction, status, {
+      actor: caller.email,
+      role,
+      description: typeof description === 'string' && description.trim()
+        ? sanitizeString(description)
+        : `Status updated to ${status}`,
+      onChain
+    });
+
     const response: ApiResponse = {
       success: true,
       message: 'Transaction status updated',
-      data: transaction
+      data: updated
     };
     
     res.status(200).json(response);
@@ -139,4 +204,43 @@ export class TransactionController {
     
     res.status(200).json(response);
   });
+
+  /**
+   * Gas the platform treasury paid for this escrow's calls
+   */
+  getTransactionGas = asyncHandler(async (req: Request, res: Response) => {
+    const { transactionId } = req.params;
+    const transaction = await Transaction.findOne({ transactionId }).select('transactionId network escrowId');
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transaction not found'
+      });
+    }
+
+    const { total, gasCost, sponsorships } = await gasSponsorshipService.getForEscrow(transaction.network, transaction.escrowId);
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        transactionId: transaction.transactionId,
+        sponsoredTotal: ethers.formatEther(total),
+        sponsoredGasCost: ethers.formatEther(gasCost),
+        sponsorships: sponsorships.map(record => ({
+          kind: record.kind,
+          method: record.method,
+          amount: ethers.formatEther(record.amount),
+          gasCost: record.gasCost ? ethers.formatEther(record.gasCost) : undefined,
+          topUpHash: record.topUpHash,
+          callHash: record.callHash,
+          sponsoredBy: record.treasury,
+          recipient: record.recipient,
+          createdAt: record.createdAt
+        }))
+      }
+    };
+
+    res.status(200).json(response);
+  });
 }
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { ethers } from 'ethers';
+import { User } from '../models/User';
+import { Withdrawal, IWithdrawal } from '../models/Withdrawal';
+import { asyncHandler } from '../middleware';
+import { ApiResponse, AuthenticatedRequest, NetworkRequest } from '../types';
+import { withdrawalService } from '../services/WithdrawalService';
+import { jobStatusPath } from '../services/TransactionQueueService';
+import { DEFAULT_NETWORK_KEY } from '../config/networks';
+
+export class WithdrawalController {
+  /**
+   * Withdraw native currency or an ERC-20 from the caller's custodial wallet
+   * The route also requires the second factor; the password is re-checked here.
+   */
+  static createWithdrawal = asyncHandler(async (req: Request, res: Response) => {
+    const { to, amount, tokenAddress, password } = req.body;
+
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Password is required'
+      });
+    }
+
+    if (!to || typeof to !== 'string' || !amount || (typeof amount !== 'string' && typeof amount !== 'number')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Destination address and amount are required'
+      });
+    }
+
+    const user = await User.findById((req as AuthenticatedRequest).user!.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      return res.status(401).json({
+        success: false,
+        error: 'Password is incorrect'
+      });
+    }
+
+    const { withdrawal, job } = await withdrawalService.requestWithdrawal(user, {
+      network: (req as NetworkRequest).network || DEFAULT_NETWORK_KEY,
+      to,
+      amount: String(amount),
+      tokenAddress: typeof tokenAddress === 'string' ? tokenAddress : ethers.ZeroAddress
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        ...WithdrawalController.toResponse(withdrawal),
+        statusUrl: jobStatusPath(job.jobId)
+      },
+      message: 'Withdrawal queued'
+    };
+
+    res.status(202).json(response);
+  });
+
+  static getWithdrawals = asyncHandler(async (req: Request, res: Response) => {
+    const { status, limit = 20, offset = 0 } = req.query;
+
+    const query: any = { userId: (req as AuthenticatedRequest).user!.id };
+    if (typeof status === 'string') {
+      query.status = status;
+    }
+
+    const withdrawals = await Withdrawal.find(query)
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Number(limit) || 20, 100))
+      .skip(Number(offset) || 0);
+
+    const response: ApiResponse = {
+      success: true,
+      data: withdrawals.map(withdrawal => WithdrawalController.toResponse(withdrawal))
+    };
+
+    res.status(200).json(response);
+  });
+
+  static getWithdrawal = asyncHandler(async (req: Request, res: Response) => {
+    const withdrawal = await Withdrawal.findOne({
+      withdrawalId: req.params.withdrawalId,
+      userId: (req as AuthenticatedRequest).user!.id
+    });
+
+    if (!withdrawal) {
+      return res.status(404).json({
+        success: false,
+        error: 'Withdrawal not found'
+      });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        ...WithdrawalController.toResponse(withdrawal),
+        history: withdrawal.history
+      }
+    };
+
+    res.status(200).json(response);
+  });
+
+  private static toResponse(withdrawal: IWithdrawal) {
+    return {
+      withdrawalId: withdrawal.withdrawalId,
+      network: withdrawal.network,
+      from: withdrawal.from,
+      to: withdrawal.to,
+      tokenAddress: withdrawal.tokenAddress,
+      symbol: withdrawal.symbol,
+      amount: ethers.formatUnits(withdrawal.amount, withdrawal.decimals),
+      amountBaseUnits: withdrawal.amount,
+      estimatedFee: withdrawal.estimatedFee ? ethers.formatEther(withdrawal.estimatedFee) : undefined,
+      status: withdrawal.status,
+      transactionHash: withdrawal.transactionHash,
+      failureReason: withdrawal.failureReason,
+      safety: withdrawal.safety,
+      createdAt: withdrawal.createdAt,
+      confirmedAt: withdrawal.confirmedAt
+    };
+  }
+}
@@ -1,7 +1,9 @@
-import { IsString, IsEmail, IsOptional, IsNumber, IsArray, IsBoolean, ValidateIf, Matches, Min, Max, MaxLength, MinLength, Validate, IsObject, ValidateNested } from 'class-validator';
+import { IsString, IsEmail, IsOptional, IsNumber, IsArray, IsBoolean, IsIn, ValidateIf, Matches, Min, Max, MaxLength, MinLength, Validate, IsObject, ValidateNested, IsInt, IsMongoId, IsUUID, IsUrl, ArrayMaxSize } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { ethers } from 'ethers';
 import { sanitizeEmail, containsScriptTags } from '../utils/sanitize';
+import { NETWORKS } from '../config/networks';
+import { EXPIRY_POLICIES, ExpiryPolicy } from '../models/Transaction';
 
 class IsEthereumAddressConstraint {
   validate(value: any): boolean {
@@ -110,6 +112,26 @@ export class CreateEscrowDto {
   @IsObject()
   @Validate(IsSafeContentConstraint)
   conversationContext?: Record<string, any>;
+
+  @IsOptional()
+  @IsIn(NETWORKS.map(network => network.key), { message: 'Unsupported network' })
+  network?: string;
+
+  // Catalogue listing being bought; it must belong to the seller
+  @IsOptional()
+  @IsUUID('4', { message: 'Invalid product id' })
+  productId?: string;
+
+  // What happens once the escrow passes its on-chain expiry; defaults to ESCROW_DEFAULT_EXPIRY_POLICY
+  @IsOptional()
+  @IsIn(EXPIRY_POLICIES, { message: 'Expiry policy must be refund or auto_release' })
+  expiryPolicy?: ExpiryPolicy;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1, { message: 'Inspection window must be at least 1 hour' })
+  @Max(720, { message: 'Inspection window cannot exceed 30 days' })
+  inspectionHours?: number;
 }
 
 export class ReleaseEscrowDto {
@@ -152,3 +174,134 @@ export class GetEscrowDto {
   escrowId!: string;
 }
 
+export class MilestoneParamsDto {
+  @IsString()
+  @Matches(/^\d+$/, { message: 'Escrow ID must be a number' })
+  escrowId!: string;
+
+  @IsString()
+  @Matches(/^\d+$/, { message: 'Milestone index must be a number' })
+  milestoneIndex!: string;
+}
+
+export class SubmitMilestoneDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000, { message: 'Note too long' })
+  @Validate(IsSafeContentConstraint)
+  note?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(500, { each: true })
+  deliverables?: string[];
+}
+
+export class RejectMilestoneDto {
+  @IsString()
+  @MinLength(1, { message: 'Rejection reason is required' })
+  @MaxLength(1000, { message: 'Reason too long' })
+  @Validate(IsSafeContentConstraint)
+  reason!: string;
+}
+
+export class ResolveDisputeDto {
+  // Basis points of the remaining escrow awarded to the seller; winnerAddress is the all-or-nothing shorthand
+  @ValidateIf((o) => o.winnerAddress === undefined)
+  @IsInt({ message: 'Seller share must be a whole number of basis points' })
+  @Min(0)
+  @Max(10000)
+  sellerShareBps?: number;
+
+  @IsOptional()
+  @Validate(IsEthereumAddressConstraint)
+  @IsString()
+  winnerAddress?: string;
+
+  @IsString()
+  @MinLength(1, { message: 'A summary of the decision is required' })
+  @MaxLength(2000, { message: 'Summary too long' })
+  @Validate(IsSafeContentConstraint)
+  summary!: string;
+}
+
+export class DisputeMessageDto {
+  @IsString()
+  @MinLength(1, { message: 'Message is required' })
+  @MaxLength(5000, { message: 'Message too long' })
+  @Validate(IsSafeContentConstraint)
+  body!: string;
+
+  @IsOptional()
+  @IsMongoId({ message: 'Invalid message id' })
+  parentId?: string;
+}
+
+export class RequestDisputeResponseDto {
+  @IsIn(['buyer', 'seller'], { message: 'Party must be buyer or seller' })
+  party!: 'buyer' | 'seller';
+
+  @IsString()
+  @MinLength(1, { message: 'A note explaining what is needed is required' })
+  @MaxLength(2000, { message: 'Note too long' })
+  @Validate(IsSafeContentConstraint)
+  note!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(336)
+  hours?: number;
+}
+
+export class AppealDisputeDto {
+  @IsString()
+  @MinLength(1, { message: 'Appeal reason is required' })
+  @MaxLength(2000, { message: 'Reason too long' })
+  @Validate(IsSafeContentConstraint)
+  reason!: string;
+}
+
+export class AssignDisputeDto {
+  @IsEmail({}, { message: 'Invalid arbitrator email' })
+  @Transform(({ value }) => value ? sanitizeEmail(value) : undefined)
+  arbitrator!: string;
+}
+
+export class CreateReviewDto {
+  @IsInt({ message: 'Rating must be a whole number' })
+  @Min(1, { message: 'Rating must be between 1 and 5' })
+  @Max(5, { message: 'Rating must be between 1 and 5' })
+  rating!: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000, { message: 'Review too long' })
+  @Validate(IsSafeContentConstraint)
+  text?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5, { message: 'At most 5 photos per review' })
+  @IsUrl({ protocols: ['https'], require_protocol: true }, { each: true, message: 'Photos must be https URLs' })
+  photos?: string[];
+}
+
+export class ReviewReplyDto {
+  @IsString()
+  @MinLength(1, { message: 'Reply is required' })
+  @MaxLength(2000, { message: 'Reply too long' })
+  @Validate(IsSafeContentConstraint)
+  text!: string;
+}
+
+export class ModerateReviewDto {
+  @IsIn(['published', 'removed'], { message: 'Status must be published or removed' })
+  status!: 'published' | 'removed';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, { message: 'Reason too long' })
+  reason?: string;
+}
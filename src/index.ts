@@ -10,16 +10,17 @@ import { logger } from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware';
 
 // Import config
-import { CONTRACT_ADDRESSES } from './config/contracts';
 import { config } from './config/env';
 
 // Import services
-import { EscrowService } from './services/EscrowService';
-import { PaymentService } from './services/PaymentService';
-import { ReputationService } from './services/ReputationService';
-import { DisputeService } from './services/DisputeService';
+import { networkRegistry } from './services/NetworkRegistry';
 import { WebSocketService } from './libs/WebSocketService';
 import { setWebSocketService } from './services/websocket';
+import { transactionQueueService } from './services/TransactionQueueService';
+import { registerTransactionHandlers } from './jobs/transactionHandlers';
+import { escrowExpiryService } from './services/EscrowExpiryService';
+import { disputeCaseService } from './services/DisputeCaseService';
+import { reputationEngine } from './services/ReputationEngine';
 
 // Import routes
 import identityRoutes from './routes/identity';
@@ -71,51 +72,53 @@ if (!privateKey) {
   process.exit(1);
 }
 
-const escrowManagerAddress = CONTRACT_ADDRESSES.ESCROW_MANAGER;
-const paymentProcessorAddress = CONTRACT_ADDRESSES.PAYMENT_PROCESSOR;
-const reputationRegistryAddress = CONTRACT_ADDRESSES.REPUTATION_REGISTRY;
-const disputeResolutionAddress = CONTRACT_ADDRESSES.DISPUTE_RESOLUTION;
-
-// Create provider configuration for Base Sepolia testnet
-const providerConfig = {
-  rpcUrl: process.env.BASE_RPC_URL || 'https://sepolia.base.org',
-  chainId: 84532,
-  name: 'Base Sepolia',
-  timeout: 10000
-};
-
-// Initialize services with error handling
-let escrowService, paymentService, reputationService, disputeService;
+if (!config.auth.jwtSecret) {
+  logger.error("Missing JWT_SECRET environment variable. Please check .env file.");
+  process.exit(1);
+}
 
+// Contract services for every network with deployed contracts
 try {
-  escrowService = new EscrowService(providerConfig, privateKey, escrowManagerAddress);
-  paymentService = new PaymentService(providerConfig, privateKey, paymentProcessorAddress);
-  reputationService = new ReputationService(providerConfig, privateKey, reputationRegistryAddress);
-  disputeService = new DisputeService(providerConfig, privateKey, disputeResolutionAddress);
-  
-  logger.info('Blockchain services initialized successfully');
+  networkRegistry.init(privateKey);
 } catch (error) {
   logger.error('Failed to initialize blockchain services:', error);
-  logger.warn('Services will be initialized with fallback configuration');
-  
-  // Fallback configuration for Base Sepolia testnet
-  const fallbackConfig = {
-    rpcUrl: 'https://sepolia.base.org',
-    chainId: 84532,
-    name: 'Base Sepolia',
-    timeout: 15000
-  };
-  
-  escrowService = new EscrowService(fallbackConfig, privateKey, escrowManagerAddress);
-  paymentService = new PaymentService(fallbackConfig, privateKey, paymentProcessorAddress);
-  reputationService = new ReputationService(fallbackConfig, privateKey, reputationRegistryAddress);
-  disputeService = new DisputeService(fallbackConfig, privateKey, disputeResolutionAddress);
+  process.exit(1);
 }
 
+const defaultNetwork = networkRegistry.get();
+networkRegistry.loadTokens();
+
+// Blockchain writes are signed and broadcast by the queue worker
+transactionQueueService.start({
+  networks: networkRegistry.all().map(({ network, provider }) => ({ chainId: network.chainId, provider })),
+  defaultChainId: defaultNetwork.network.chainId,
+  platformPrivateKey: privateKey
+});
+registerTransactionHandlers({ escrowInterface: defaultNetwork.escrowService.getInterface() });
+
+// Reconcile Transaction records with escrows, disputes and payments made directly on-chain
+networkRegistry.all().forEach(({ indexer, provider, escrowService, disputeService, paymentService, tokenService }) => {
+  indexer.start({
+    provider,
+    escrow: escrowService,
+    dispute: disputeService,
+    payment: paymentService,
+    tokens: tokenService
+  });
+});
+
+// Refund or auto-release escrows once they pass their on-chain expiry
+escrowExpiryService.start();
+// Arbitrator assignment, response deadlines and executing dispute decisions
+disputeCaseService.start();
+// Rescore users from their escrow history and push changed scores on-chain
+reputationEngine.start();
+
 // Initialize route controllers with services
-initializeEscrowRoutes(escrowService, disputeService);
-initializeTransactionRoutes(paymentService, reputationService);
-initializeReputationRoutes(reputationService);
+initializeEscrowRoutes(networkRegistry);
+initializeTransactionRoutes(networkRegistry);
+// Reputation is kept on the default network only
+initializeReputationRoutes(defaultNetwork.reputationService);
 
 // API Routes
 app.use('/api/identity', identityRoutes);
@@ -146,7 +149,15 @@ app.get('/', (req, res) => {
     },
     email: {
       configured: emailService.isConfigured()
-    }
+    },
+    networks: networkRegistry.all().map(({ network, provider, indexer }) => ({
+      key: network.key,
+      rpc: provider.getStatus(),
+      indexer: indexer.getStatus()
+    })),
+    escrowScheduler: escrowExpiryService.getStatus(),
+    disputeCases: disputeCaseService.getStatus(),
+    reputation: reputationEngine.getStatus()
   });
 });
 
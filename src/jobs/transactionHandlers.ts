@@ -0,0 +1,288 @@
+import { ethers } from 'ethers';
+import { Transaction } from '../models/Transaction';
+import { logger } from '../utils/logger';
+import { getWebSocketService } from '../services/websocket';
+import { transactionQueueService, TransactionJobData } from '../services/TransactionQueueService';
+import { getNetworkByChainId } from '../config/networks';
+import { withdrawalService } from '../services/WithdrawalService';
+import { gasSponsorshipService } from '../services/GasSponsorshipService';
+import { escrowStateMachine, statusAfterRefund, statusAfterDecision } from '../services/EscrowStateMachine';
+import { escrowExpiryService } from '../services/EscrowExpiryService';
+import { disputeCaseService } from '../services/DisputeCaseService';
+import { evidenceService } from '../services/EvidenceService';
+import { reputationEngine } from '../services/ReputationEngine';
+import { EscrowStatus } from '../models/Transaction';
+
+/**
+ * Follow-up work once a queued transaction is mined
+ * Each handler is keyed by the contract method that produced the job and must be safe to re-run.
+ */
+export function registerTransactionHandlers(services: { escrowInterface: ethers.Interface }): void {
+  const { escrowInterface } = services;
+
+  transactionQueueService.registerHandler('createEscrow', async (receipts, data) => {
+    const receipt = receipts[receipts.length - 1];
+    const context = data.context || {};
+
+    const event = receipt.logs
+      .map(log => {
+        try {
+          return escrowInterface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .find(parsed => parsed?.name === 'EscrowCreated');
+
+    const escrowIdBigInt = event?.args[0];
+    if (typeof escrowIdBigInt !== 'bigint' || escrowIdBigInt <= 0n) {
+      throw new Error(`EscrowCreated event not found in ${receipt.hash}`);
+    }
+    const escrowId = escrowIdBigInt.toString();
+
+    // Keyed by escrowId: the event indexer may already have recorded a bare version of this escrow
+    await Transaction.updateOne(
+      { network: networkOf(data), escrowId },
+      {
+        $set: {
+          buyerEmail: context.buyerEmail,
+          sellerEmail: context.sellerEmail,
+          buyerAddress: context.buyerAddress,
+          sellerAddress: context.sellerAddress,
+          amount: context.amount,
+          currency: context.currency,
+          tokenAddress: context.tokenAddress,
+          decimals: context.decimals,
+          type: context.type,
+          metadata: context.metadata,
+          conversationContext: context.conversationContext,
+          ...(context.productId && { productId: context.productId }),
+          ...(context.expiry && {
+            'expiry.policy': context.expiry.policy,
+            'expiry.inspectionHours': context.expiry.inspectionHours
+          })
+        },
+        $setOnInsert: {
+          transactionId: receipt.hash,
+          timeline: [{
+            status: 'pending',
+            description: 'Escrow created',
+            actor: context.buyerEmail,
+            actorRole: 'buyer'
+          }]
+        }
+      },
+      { upsert: true }
+    );
+
+    await gasSponsorshipService.linkEscrow(networkOf(data), receipts.map(mined => mined.hash), escrowId);
+
+    logger.info(`Escrow ${escrowId} recorded from ${receipt.hash}`);
+    getWebSocketService()?.notifyUser(context.sellerEmail, 'escrow:created', {
+      network: networkOf(data),
+      escrowId,
+      transactionId: receipt.hash,
+      buyerEmail: context.buyerEmail
+    });
+
+    return { escrowId, transactionId: receipt.hash };
+  });
+
+  // Scheduled auto-releases pay several milestones in one job, one receipt per milestone
+  transactionQueueService.registerHandler('releasePayment', async (receipts, data) => {
+    const { escrowId, milestoneIndex = 0, milestoneIndexes = [milestoneIndex] } = data.context || {};
+
+    for (const [position, index] of (milestoneIndexes as number[]).entries()) {
+      const receipt = receipts[position];
+      const transaction = await escrowStateMachine.syncRelease({ network: networkOf(data), escrowId }, index, receipt.hash, {
+        actor: data.requestedBy || 'system',
+        description: `Milestone ${index} released to seller (${receipt.hash})`
+      });
+
+      if (transaction) {
+        getWebSocketService()?.notifyUsers([transaction.buyerEmail, transaction.sellerEmail], 'milestone:released', {
+          network: transaction.network,
+          escrowId,
+          milestoneIndex: index,
+          status: transaction.status,
+          transactionHash: receipt.hash
+        });
+      }
+    }
+
+    return { escrowId, hashes: receipts.map(receipt => receipt.hash) };
+  });
+
+  // An approved milestone whose release never mined goes back to where it was before the release was requested
+  transactionQueueService.registerFailureHandler('releasePayment', async (data, error) => {
+    const { escrowId, milestoneIndex = 0, scheduled, previousStatus = 'submitted' } = data.context || {};
+    if (scheduled) {
+      return escrowExpiryService.recordActionFailure(networkOf(data), escrowId, error.message);
+    }
+
+    const path = `metadata.milestones.${milestoneIndex}`;
+
+    const transaction = await Transaction.findOneAndUpdate(
+      { network: networkOf(data), escrowId, [`${path}.status`]: 'approved' },
+      {
+        $set: { [`${path}.status`]: previousStatus },
+        $unset: { [`${path}.releaseJobId`]: '' }
+      },
+      { new: true }
+    );
+
+    if (transaction) {
+      logger.warn(`Release of milestone ${milestoneIndex} on escrow ${escrowId} failed: ${error.message}`);
+      getWebSocketService()?.notifyUser(transaction.buyerEmail, 'milestone:release_failed', {
+        network: transaction.network,
+        escrowId,
+        milestoneIndex,
+        error: error.message
+      });
+    }
+  });
+
+  transactionQueueService.registerHandler('cancelEscrow', async (receipts, data) =>
+    recordEscrowStatus(receipts, data, statusAfterRefund, 'Payment refunded to buyer')
+  );
+
+  transactionQueueService.registerFailureHandler('cancelEscrow', async (data, error) => {
+    if (data.context?.scheduled) {
+      await escrowExpiryService.recordActionFailure(networkOf(data), data.context.escrowId, error.message);
+    }
+  });
+
+  // Both ways of filing a dispute open the same off-chain case
+  for (const kind of ['fileDispute', 'openDispute']) {
+    transactionQueueService.registerHandler(kind, async (receipts, data) => {
+      const { escrowId, reason, evidence } = data.context || {};
+      const result = await recordEscrowStatus(receipts, data, 'disputed', `Dispute filed: ${reason}`);
+
+      await disputeCaseService.open({
+        network: networkOf(data),
+        escrowId,
+        openedBy: data.requestedBy!,
+        reason,
+        evidence
+      });
+
+      return result;
+    });
+  }
+
+  // Text evidence carries no evidenceId; uploaded files are marked anchored
+  transactionQueueService.registerHandler('addEvidence', async (receipts, data) => {
+    const receipt = receipts[receipts.length - 1];
+    const { escrowId, evidenceId } = data.context || {};
+
+    if (evidenceId) {
+      await evidenceService.markAnchored(evidenceId, receipt.hash);
+    }
+    return { escrowId, evidenceId, hash: receipt.hash };
+  });
+
+  transactionQueueService.registerFailureHandler('addEvidence', async (data, error) => {
+    if (data.context?.evidenceId) {
+      await evidenceService.markAnchorFailed(data.context.evidenceId, error.message);
+    }
+  });
+
+  transactionQueueService.registerHandler('resolveDispute', async (receipts, data) => {
+    const { escrowId, arbitrator, sellerShareBps, summary } = data.context || {};
+    const receipt = receipts[receipts.length - 1];
+
+    const result = await recordEscrowStatus(
+      receipts,
+      data,
+      statusAfterDecision(sellerShareBps),
+      `Dispute resolved: ${sellerShareBps / 100}% to the seller`,
+      {
+        'dispute.arbitrator': arbitrator,
+        'dispute.resolution': summary,
+        'dispute.sellerShareBps': sellerShareBps,
+        'dispute.resolvedAt': new Date()
+      }
+    );
+    await disputeCaseService.markExecuted(networkOf(data), escrowId, receipt.hash);
+
+    return result;
+  });
+
+  transactionQueueService.registerFailureHandler('resolveDispute', async (data, error) => {
+    await disputeCaseService.markExecutionFailed(networkOf(data), data.context?.escrowId, error.message);
+  });
+
+  // The platform's transfer of one party's share of a split decision
+  transactionQueueService.registerHandler('disputePayout', async (receipts, data) => {
+    const receipt = receipts[receipts.length - 1];
+    const { escrowId, party } = data.context || {};
+
+    await disputeCaseService.markPayoutConfirmed(networkOf(data), escrowId, party, receipt.hash);
+    return { escrowId, party, hash: receipt.hash };
+  });
+
+  transactionQueueService.registerFailureHandler('disputePayout', async (data, error) => {
+    await disputeCaseService.markPayoutFailed(networkOf(data), data.context?.escrowId, data.context?.party, error.message);
+  });
+
+  transactionQueueService.registerHandler('updateReputation', async (receipts, data) => {
+    const receipt = receipts[receipts.length - 1];
+    const { historyId } = data.context || {};
+
+    if (historyId) {
+      await reputationEngine.markPushed(historyId, receipt.hash);
+    }
+    return { historyId, hash: receipt.hash };
+  });
+
+  transactionQueueService.registerFailureHandler('updateReputation', async (data, error) => {
+    if (data.context?.historyId) {
+      await reputationEngine.markPushFailed(data.context.historyId, error.message);
+    }
+  });
+
+  transactionQueueService.registerHandler('withdrawal', async (receipts, data) => {
+    const receipt = receipts[receipts.length - 1];
+    const { withdrawalId } = data.context || {};
+
+    await withdrawalService.markConfirmed(withdrawalId, receipt);
+    getWebSocketService()?.notifyUser(data.requestedBy!, 'withdrawal:confirmed', {
+      withdrawalId,
+      transactionHash: receipt.hash
+    });
+
+    return { withdrawalId, transactionHash: receipt.hash };
+  });
+
+  transactionQueueService.registerFailureHandler('withdrawal', async (data, error) => {
+    await withdrawalService.markFailed(data.context?.withdrawalId, error.message);
+  });
+}
+
+async function recordEscrowStatus(
+  receipts: ethers.TransactionReceipt[],
+  data: TransactionJobData,
+  status: EscrowStatus | ((from: EscrowStatus) => EscrowStatus),
+  description: string,
+  extra: Record<string, any> = {}
+) {
+  const receipt = receipts[receipts.length - 1];
+  const { escrowId } = data.context || {};
+
+  // The state machine skips a re-run handler instead of adding a second timeline entry
+  await escrowStateMachine.sync({ network: networkOf(data), escrowId }, status, {
+    actor: data.requestedBy || 'system',
+    description: `${description} (${receipt.hash})`,
+    extra
+  });
+
+  return { escrowId, hash: receipt.hash };
+}
+
+function networkOf(data: TransactionJobData) {
+  const network = getNetworkByChainId(data.chainId);
+  if (!network) {
+    throw new Error(`No network configured for chain ${data.chainId}`);
+  }
+  return network.key;
+}
@@ -0,0 +1,292 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest, NetworkRequest, UserRole } from '../types';
+import { authService, AccessTokenClaims } from '../services/AuthService';
+import { sessionService } from '../services/SessionService';
+import { Transaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { Permission, hasPermission } from '../config/permissions';
+import { DEFAULT_NETWORK_KEY } from '../config/networks';
+import { twoFactorService } from '../services/TwoFactorService';
+import { sanitizeEmail } from '../utils/sanitize';
+
+type RequestSource = 'params' | 'body' | 'query';
+
+const readField = (req: Request, source: RequestSource, field: string): string | undefined => {
+  const container = source === 'params' ? req.params : source === 'body' ? req.body : req.query;
+  const value = container?.[field];
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Require a valid Bearer access token backed by an active session and attach the caller to req.user
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization;
+
+  if (!header || !header.startsWith('Bearer ')) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = authService.verifyAccessToken(header.substring(7).trim());
+  } catch (error: any) {
+    logger.warn('Rejected access token', { error: error.message, url: req.url });
+    return res.status(401).json({
+      success: false,
+      error: error.name === 'TokenExpiredError' ? 'Access token expired' : 'Invalid access token'
+    });
+  }
+
+  try {
+    const session = await sessionService.validateSession(claims.sid, claims.sub);
+    if (!session) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session has been revoked'
+      });
+    }
+
+    (req as AuthenticatedRequest).user = {
+      id: claims.sub,
+      sessionId: claims.sid,
+      email: claims.email,
+      walletAddress: claims.walletAddress
+    };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Only allow the caller whose email matches the given request field
+ * Must run after authenticate. Missing body/query fields are left to the controller.
+ */
+export const requireEmailOwner = (source: RequestSource = 'params', field: string = 'email') => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as AuthenticatedRequest).user;
+    const value = readField(req, source, field);
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    if (value === undefined && source !== 'params') {
+      return next();
+    }
+
+    if (sanitizeEmail(value) !== user.email) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to access this account'
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Only allow the caller whose custodial wallet matches the given request field
+ * Must run after authenticate. Missing body/query fields are left to the controller.
+ */
+export const requireWalletOwner = (source: RequestSource = 'params', field: string = 'walletAddress') => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as AuthenticatedRequest).user;
+    const value = readField(req, source, field);
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    if (value === undefined && source !== 'params') {
+      return next();
+    }
+
+    if (!value || value.toLowerCase() !== user.walletAddress?.toLowerCase()) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to act for this wallet'
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Only allow the buyer or seller of the transaction referenced by a route param
+ * Must run after authenticate
+ */
+export const requireTransactionParty = (param: 'transactionId' | 'escrowId' = 'transactionId') => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    try {
+      // Escrow ids repeat across networks; transaction ids are chain hashes and unique on their own
+      const filter: Record<string, string> = { [param]: req.params[param] };
+      if (param === 'escrowId') {
+        filter.network = (req as NetworkRequest).network || DEFAULT_NETWORK_KEY;
+      }
+
+      const transaction = await Transaction.findOne(filter)
+        .select('buyerEmail sellerEmail')
+        .lean();
+
+      if (!transaction) {
+        return res.status(404).json({
+          success: false,
+          error: 'Transaction not found'
+        });
+      }
+
+      if (transaction.buyerEmail !== user.email && transaction.sellerEmail !== user.email) {
+        return res.status(403).json({
+          success: false,
+          error: 'Not authorized to access this transaction'
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Load the caller's roles from the database so grants and revocations apply immediately
+ */
+export const loadRoles = async (req: Request): Promise<UserRole[]> => {
+  const user = (req as AuthenticatedRequest).user!;
+  if (!user.roles) {
+    const record = await User.findById(user.id).select('roles').lean();
+    user.roles = (record?.roles as UserRole[] | undefined) ?? [];
+  }
+  return user.roles;
+};
+
+/**
+ * Only allow callers holding one of the given roles
+ * Must run after authenticate
+ */
+export const requireRole = (...roles: UserRole[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!(req as AuthenticatedRequest).user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    try {
+      const userRoles = await loadRoles(req);
+      if (!userRoles.some(role => roles.includes(role))) {
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient role for this operation'
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Only allow callers whose roles grant the given permission (see config/permissions)
+ * Must run after authenticate
+ */
+export const requirePermission = (permission: Permission) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    try {
+      if (!hasPermission(await loadRoles(req), permission)) {
+        logger.warn('Permission denied', { email: user.email, permission, url: req.url });
+        return res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions for this operation'
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Step-up check for sensitive actions: users with two-factor enabled must send a
+ * current TOTP or unused backup code in the X-2FA-Code header or body.twoFactorCode
+ * Must run after authenticate
+ */
+export const requireSecondFactor = async (req: Request, res: Response, next: NextFunction) => {
+  const caller = (req as AuthenticatedRequest).user;
+
+  if (!caller) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const user = await User.findById(caller.id);
+    if (!user?.twoFactor?.enabled) {
+      return next();
+    }
+
+    const code = req.get('x-2fa-code') || req.body?.twoFactorCode;
+    if (!code || typeof code !== 'string') {
+      return res.status(401).json({
+        success: false,
+        error: 'Two-factor code required for this action',
+        twoFactorRequired: true
+      });
+    }
+
+    const result = await twoFactorService.verify(user, code);
+    if (!result.valid) {
+      return res.status(result.locked ? 429 : 401).json({
+        success: false,
+        error: result.locked
+          ? 'Too many invalid two-factor codes, try again later'
+          : 'Invalid two-factor code',
+        twoFactorRequired: true
+      });
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { NetworkRequest } from '../types';
+import { DEFAULT_NETWORK_KEY, isNetworkKey } from '../config/networks';
+import { networkRegistry } from '../services/NetworkRegistry';
+
+/**
+ * Pick the network a request operates on from ?network=, body.network or the X-Network header
+ * Falls back to DEFAULT_NETWORK when none is given.
+ */
+export const selectNetwork = (req: Request, res: Response, next: NextFunction) => {
+  const requested = req.query.network ?? req.body?.network ?? req.headers['x-network'];
+
+  if (requested === undefined) {
+    (req as NetworkRequest).network = DEFAULT_NETWORK_KEY;
+    return next();
+  }
+
+  if (!isNetworkKey(requested) || !networkRegistry.has(requested)) {
+    return res.status(400).json({
+      success: false,
+      error: `Unsupported network: ${requested}`
+    });
+  }
+
+  (req as NetworkRequest).network = requested;
+  next();
+};
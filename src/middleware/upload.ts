@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { config } from '../config/env';
+
+/**
+ * Accept one multipart file in memory under `field`; the handler validates and stores it
+ * Oversized and malformed uploads are answered here with a 413 or 400.
+ */
+export const singleFileUpload = (field: string) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: config.evidence.maxBytes, files: 1, fields: 10 }
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, error => {
+      if (error instanceof multer.MulterError) {
+        return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+          success: false,
+          error: error.message
+        });
+      }
+      next(error);
+    });
+  };
+};
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IChainEvent extends Document {
+  key: string;
+  chainId: number;
+  contract: string;
+  name: string;
+  escrowId?: string;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  args: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChainEventSchema = new Schema<IChainEvent>({
+  // chainId:transactionHash:logIndex - stable across re-scans of the same block range
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  chainId: {
+    type: Number,
+    required: true
+  },
+  contract: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  escrowId: {
+    type: String,
+    index: true
+  },
+  transactionHash: {
+    type: String,
+    required: true
+  },
+  blockNumber: {
+    type: Number,
+    required: true
+  },
+  blockHash: {
+    type: String,
+    required: true
+  },
+  logIndex: {
+    type: Number,
+    required: true
+  },
+  args: {
+    type: Schema.Types.Mixed,
+    default: {}
+  }
+}, {
+  timestamps: true
+});
+
+ChainEventSchema.index({ chainId: 1, blockNumber: -1 });
+
+export const ChainEvent = mongoose.model<IChainEvent>('ChainEvent', ChainEventSchema);
@@ -0,0 +1,272 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NETWORKS, NetworkKey } from '../config/networks';
+
+// Allowed moves between these live in services/DisputeCaseService
+export const DISPUTE_STATUSES = ['opened', 'awaiting_response', 'under_review', 'resolved', 'appealed'] as const;
+export type DisputeStatus = typeof DISPUTE_STATUSES[number];
+
+export type DisputeParty = 'buyer' | 'seller';
+
+// pending: decided, waiting out the appeal window; queued/confirmed/failed track the on-chain resolveDispute
+export type ResolutionStatus = 'pending' | 'queued' | 'confirmed' | 'failed';
+
+/**
+ * One leg of a split decision, paid by the platform once resolveDispute has moved the escrow to it
+ * pending: waiting for resolveDispute or a retry; queued/confirmed/failed track the transfer
+ */
+export interface IDisputePayout {
+  party: DisputeParty;
+  address: string;
+  // Base units, like Transaction.amount
+  amount: string;
+  status: ResolutionStatus;
+  attempts: number;
+  jobId?: string;
+  transactionHash?: string;
+  paidAt?: Date;
+  failureReason?: string;
+}
+
+export interface IDisputeMessage {
+  _id: mongoose.Types.ObjectId;
+  author: string;
+  role: DisputeParty | 'arbitrator';
+  body: string;
+  // Replies point at the message they answer
+  parentId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface IDispute extends Document {
+  network: NetworkKey;
+  escrowId: string;
+  transactionId: string;
+  buyerEmail: string;
+  sellerEmail: string;
+  openedBy: string;
+  openedByRole: DisputeParty;
+  reason: string;
+  evidence: string[];
+  status: DisputeStatus;
+  arbitrator?: string;
+  assignedAt?: Date;
+  awaitingResponseFrom?: DisputeParty;
+  responseDueAt?: Date;
+  messages: IDisputeMessage[];
+  resolution?: {
+    // Seller's share of the escrowed funds in basis points; the rest goes to the buyer
+    sellerShareBps: number;
+    // Base units, like Transaction.amount
+    sellerAmount: string;
+    buyerAmount: string;
+    // The party DisputeResolution pays the whole escrow out to; unset for a split
+    winner?: DisputeParty;
+    // Who resolveDispute awards the escrow to: the winner, or the platform wallet for a split
+    winnerAddress: string;
+    // The platform's transfers to each party of a split; the ledger of what was actually paid
+    payouts?: IDisputePayout[];
+    summary: string;
+    decidedBy: string;
+    decidedAt: Date;
+    // Decisions on appeal are final and executed straight away
+    final: boolean;
+    executeAfter: Date;
+    status: ResolutionStatus;
+    attempts: number;
+    jobId?: string;
+    transactionHash?: string;
+    executedAt?: Date;
+    failureReason?: string;
+  };
+  appeal?: {
+    by: string;
+    role: DisputeParty;
+    reason: string;
+    previousArbitrator?: string;
+    filedAt: Date;
+  };
+  // Snapshot of the deal's messages when the dispute was opened; the entries live in Transcript
+  transcript?: {
+    rootHash: string;
+    messageCount: number;
+    conversationId?: string;
+    capturedAt: Date;
+  };
+  history: Array<{
+    status: DisputeStatus;
+    previousStatus?: DisputeStatus;
+    timestamp: Date;
+    description: string;
+    actor: string;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DisputeMessageSchema = new Schema<IDisputeMessage>({
+  author: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  role: {
+    type: String,
+    enum: ['buyer', 'seller', 'arbitrator'],
+    required: true
+  },
+  body: {
+    type: String,
+    required: true,
+    maxlength: 5000
+  },
+  parentId: Schema.Types.ObjectId,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const DisputeSchema = new Schema<IDispute>({
+  network: {
+    type: String,
+    enum: NETWORKS.map(network => network.key),
+    required: true
+  },
+  escrowId: {
+    type: String,
+    required: true
+  },
+  transactionId: {
+    type: String,
+    required: true
+  },
+  buyerEmail: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  sellerEmail: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  openedBy: {
+    type: String,
+    required: true
+  },
+  openedByRole: {
+    type: String,
+    enum: ['buyer', 'seller'],
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    maxlength: 1000
+  },
+  evidence: {
+    type: [String],
+    default: []
+  },
+  status: {
+    type: String,
+    enum: DISPUTE_STATUSES,
+    default: 'opened',
+    index: true
+  },
+  arbitrator: {
+    type: String,
+    lowercase: true,
+    index: true
+  },
+  assignedAt: Date,
+  awaitingResponseFrom: {
+    type: String,
+    enum: ['buyer', 'seller']
+  },
+  responseDueAt: Date,
+  messages: [DisputeMessageSchema],
+  resolution: {
+    sellerShareBps: Number,
+    sellerAmount: String,
+    buyerAmount: String,
+    winner: {
+      type: String,
+      enum: ['buyer', 'seller']
+    },
+    winnerAddress: String,
+    payouts: [{
+      _id: false,
+      party: {
+        type: String,
+        enum: ['buyer', 'seller']
+      },
+      address: String,
+      amount: String,
+      status: {
+        type: String,
+        enum: ['pending', 'queued', 'confirmed', 'failed']
+      },
+      attempts: {
+        type: Number,
+        default: 0
+      },
+      jobId: String,
+      transactionHash: String,
+      paidAt: Date,
+      failureReason: String
+    }],
+    summary: String,
+    decidedBy: String,
+    decidedAt: Date,
+    final: Boolean,
+    executeAfter: Date,
+    status: {
+      type: String,
+      enum: ['pending', 'queued', 'confirmed', 'failed']
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    jobId: String,
+    transactionHash: String,
+    executedAt: Date,
+    failureReason: String
+  },
+  appeal: {
+    by: String,
+    role: {
+      type: String,
+      enum: ['buyer', 'seller']
+    },
+    reason: String,
+    previousArbitrator: String,
+    filedAt: Date
+  },
+  transcript: {
+    rootHash: String,
+    messageCount: Number,
+    conversationId: String,
+    capturedAt: Date
+  },
+  history: [{
+    status: String,
+    previousStatus: String,
+    timestamp: {
+      type: Date,
+      default: Date.now
+    },
+    description: String,
+    actor: String
+  }]
+}, {
+  timestamps: true
+});
+
+// An escrow can only be disputed once; its states after resolution are terminal
+DisputeSchema.index({ network: 1, escrowId: 1 }, { unique: true });
+DisputeSchema.index({ buyerEmail: 1, createdAt: -1 });
+DisputeSchema.index({ sellerEmail: 1, createdAt: -1 });
+
+export const Dispute = mongoose.model<IDispute>('Dispute', DisputeSchema);
@@ -0,0 +1,110 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NETWORKS, NetworkKey } from '../config/networks';
+import { DisputeParty } from './Dispute';
+
+export type EvidenceAnchorStatus = 'queued' | 'confirmed' | 'failed';
+
+export interface IEvidence extends Document {
+  evidenceId: string;
+  network: NetworkKey;
+  escrowId: string;
+  uploadedBy: string;
+  uploaderRole: DisputeParty;
+  fileName: string;
+  contentType: string;
+  size: number;
+  // Hex SHA-256 of the file; this is what DisputeService.addEvidence anchors on-chain
+  sha256: string;
+  description?: string;
+  storage: {
+    backend: 'local' | 's3';
+    key: string;
+  };
+  anchor: {
+    status: EvidenceAnchorStatus;
+    jobId?: string;
+    transactionHash?: string;
+    failureReason?: string;
+    anchoredAt?: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EvidenceSchema = new Schema<IEvidence>({
+  evidenceId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  network: {
+    type: String,
+    enum: NETWORKS.map(network => network.key),
+    required: true
+  },
+  escrowId: {
+    type: String,
+    required: true
+  },
+  uploadedBy: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  uploaderRole: {
+    type: String,
+    enum: ['buyer', 'seller'],
+    required: true
+  },
+  fileName: {
+    type: String,
+    required: true,
+    maxlength: 255
+  },
+  contentType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  sha256: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  },
+  description: {
+    type: String,
+    maxlength: 1000
+  },
+  storage: {
+    backend: {
+      type: String,
+      enum: ['local', 's3'],
+      required: true
+    },
+    key: {
+      type: String,
+      required: true
+    }
+  },
+  anchor: {
+    status: {
+      type: String,
+      enum: ['queued', 'confirmed', 'failed'],
+      default: 'queued'
+    },
+    jobId: String,
+    transactionHash: String,
+    failureReason: String,
+    anchoredAt: Date
+  }
+}, {
+  timestamps: true
+});
+
+// The same file is only anchored once per escrow
+EvidenceSchema.index({ network: 1, escrowId: 1, sha256: 1 }, { unique: true });
+
+export const Evidence = mongoose.model<IEvidence>('Evidence', EvidenceSchema);
@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NETWORKS, NetworkKey } from '../config/networks';
+
+export type GasSponsorshipStatus = 'pending' | 'confirmed' | 'failed' | 'rejected';
+
+export interface IGasSponsorship extends Document {
+  userId: mongoose.Types.ObjectId;
+  email: string;
+  network: NetworkKey;
+  // Queue job and call the top-up paid for
+  jobId: string;
+  callIndex: number;
+  kind: string;
+  method: string;
+  // Set once known, so sponsored gas can be totalled per Transaction
+  escrowId?: string;
+  treasury: string;
+  recipient: string;
+  // Wei sent by the treasury
+  amount: string;
+  topUpHash?: string;
+  // Hash and actual fee (wei) of the user's call once mined
+  callHash?: string;
+  gasCost?: string;
+  status: GasSponsorshipStatus;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GasSponsorshipSchema = new Schema<IGasSponsorship>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  network: {
+    type: String,
+    enum: NETWORKS.map(network => network.key),
+    required: true
+  },
+  jobId: {
+    type: String,
+    required: true
+  },
+  callIndex: {
+    type: Number,
+    required: true
+  },
+  kind: {
+    type: String,
+    required: true
+  },
+  method: {
+    type: String,
+    required: true
+  },
+  escrowId: String,
+  treasury: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  recipient: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  amount: {
+    type: String,
+    required: true,
+    match: /^\d+$/
+  },
+  topUpHash: String,
+  callHash: String,
+  gasCost: String,
+  status: {
+    type: String,
+    enum: ['pending', 'confirmed', 'failed', 'rejected'],
+    default: 'pending'
+  },
+  failureReason: String
+}, {
+  timestamps: true
+});
+
+// One top-up per queued call, however often the job is retried
+GasSponsorshipSchema.index({ jobId: 1, callIndex: 1 }, { unique: true });
+GasSponsorshipSchema.index({ userId: 1, createdAt: -1 });
+GasSponsorshipSchema.index({ network: 1, escrowId: 1 });
+GasSponsorshipSchema.index({ callHash: 1 }, { sparse: true });
+
+export const GasSponsorship = mongoose.model<IGasSponsorship>('GasSponsorship', GasSponsorshipSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIndexerCursor extends Document {
+  chainId: number;
+  blockNumber: number;
+  blockHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IndexerCursorSchema = new Schema<IIndexerCursor>({
+  chainId: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  blockNumber: {
+    type: Number,
+    required: true
+  },
+  blockHash: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+export const IndexerCursor = mongoose.model<IIndexerCursor>('IndexerCursor', IndexerCursorSchema);
@@ -0,0 +1,102 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// skipped: no wallet to push to; queued/confirmed/failed track ReputationService.updateReputation
+export type ReputationPushStatus = 'skipped' | 'queued' | 'confirmed' | 'failed';
+
+export interface IReputationFactor {
+  // completed | partially_released | refunded | dispute_lost | dispute_open | review
+  kind: string;
+  count: number;
+  // Recency-weighted points this kind of activity contributes to the score
+  points: number;
+}
+
+export interface IReputationHistory extends Document {
+  userEmail: string;
+  walletAddress?: string;
+  previousScore: number;
+  score: number;
+  // What moved the score, e.g. "2 escrows completed since the last update"
+  reasons: string[];
+  factors: IReputationFactor[];
+  stats: {
+    totalTransactions: number;
+    completedTransactions: number;
+    disputes: number;
+    // Native currency only, as in User.reputation
+    totalVolume: number;
+    averageRating?: number | null;
+    reviewCount?: number;
+  };
+  trigger: 'scheduled' | 'manual';
+  requestedBy?: string;
+  onChain: {
+    status: ReputationPushStatus;
+    jobId?: string;
+    transactionHash?: string;
+    failureReason?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReputationHistorySchema = new Schema<IReputationHistory>({
+  userEmail: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  walletAddress: {
+    type: String,
+    lowercase: true
+  },
+  previousScore: {
+    type: Number,
+    required: true
+  },
+  score: {
+    type: Number,
+    required: true
+  },
+  reasons: {
+    type: [String],
+    default: []
+  },
+  factors: [{
+    _id: false,
+    kind: String,
+    count: Number,
+    points: Number
+  }],
+  stats: {
+    totalTransactions: Number,
+    completedTransactions: Number,
+    disputes: Number,
+    totalVolume: Number,
+    averageRating: Number,
+    reviewCount: Number
+  },
+  trigger: {
+    type: String,
+    enum: ['scheduled', 'manual'],
+    default: 'scheduled'
+  },
+  requestedBy: String,
+  onChain: {
+    status: {
+      type: String,
+      enum: ['skipped', 'queued', 'confirmed', 'failed'],
+      default: 'skipped'
+    },
+    jobId: String,
+    transactionHash: String,
+    failureReason: String
+  }
+}, {
+  timestamps: true
+});
+
+ReputationHistorySchema.index({ userEmail: 1, createdAt: -1 });
+ReputationHistorySchema.index({ walletAddress: 1, createdAt: -1 });
+
+export const ReputationHistory = mongoose.model<IReputationHistory>('ReputationHistory', ReputationHistorySchema);
@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NETWORKS, NetworkKey } from '../config/networks';
+import { DisputeParty } from './Dispute';
+
+// removed reviews are kept for the record but hidden and left out of ratings
+export const REVIEW_STATUSES = ['published', 'removed'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export interface IReview extends Document {
+  reviewId: string;
+  network: NetworkKey;
+  escrowId: string;
+  transactionId: string;
+  productId?: string;
+  reviewerEmail: string;
+  reviewerRole: DisputeParty;
+  // The other party to the escrow: the vendor for a buyer's review, the buyer for a seller's
+  subjectEmail: string;
+  rating: number;
+  text?: string;
+  photos: string[];
+  // Only the vendor answers, and only reviews written by their buyers
+  reply?: {
+    text: string;
+    repliedAt: Date;
+  };
+  moderation: {
+    status: ReviewStatus;
+    reason?: string;
+    moderatedBy?: string;
+    moderatedAt?: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReviewSchema = new Schema<IReview>({
+  reviewId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  network: {
+    type: String,
+    enum: NETWORKS.map(network => network.key),
+    required: true
+  },
+  escrowId: {
+    type: String,
+    required: true
+  },
+  transactionId: {
+    type: String,
+    required: true
+  },
+  productId: {
+    type: String,
+    index: true
+  },
+  reviewerEmail: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  reviewerRole: {
+    type: String,
+    enum: ['buyer', 'seller'],
+    required: true
+  },
+  subjectEmail: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  rating: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 5
+  },
+  text: {
+    type: String,
+    maxlength: 2000
+  },
+  photos: {
+    type: [String],
+    default: []
+  },
+  reply: {
+    text: {
+      type: String,
+      maxlength: 2000
+    },
+    repliedAt: Date
+  },
+  moderation: {
+    status: {
+      type: String,
+      enum: REVIEW_STATUSES,
+      default: 'published'
+    },
+    reason: String,
+    moderatedBy: String,
+    moderatedAt: Date
+  }
+}, {
+  timestamps: true
+});
+
+// One review per party per escrow
+ReviewSchema.index({ network: 1, escrowId: 1, reviewerRole: 1 }, { unique: true });
+ReviewSchema.index({ subjectEmail: 1, 'moderation.status': 1, createdAt: -1 });
+ReviewSchema.index({ productId: 1, 'moderation.status': 1, createdAt: -1 });
+
+export const Review = mongoose.model<IReview>('Review', ReviewSchema);
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { Channel } from '../types';
+
+export interface ISession extends Document {
+  sessionId: string;
+  userId: Types.ObjectId;
+  email: string;
+  refreshTokenHash: string;
+  rotationCounter: number;
+  channel: Channel;
+  device?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: 'signout' | 'remote_signout' | 'password_change' | 'email_change' | 'token_reuse' | 'expired';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true
+  },
+  rotationCounter: {
+    type: Number,
+    default: 0
+  },
+  channel: {
+    type: String,
+    enum: Object.values(Channel),
+    default: Channel.WEB
+  },
+  device: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  ipAddress: String,
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date,
+  revokedReason: {
+    type: String,
+    enum: ['signout', 'remote_signout', 'password_change', 'email_change', 'token_reuse', 'expired']
+  }
+}, {
+  timestamps: true
+});
+
+SessionSchema.index({ userId: 1, revokedAt: 1, lastSeenAt: -1 });
+// Let MongoDB purge sessions a week after they can no longer be refreshed
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NETWORKS, NetworkKey } from '../config/networks';
+
+export interface IToken extends Document {
+  network: NetworkKey;
+  // Lowercase; the zero address stands for the network's native currency
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  // Result of EscrowService.isTokenSupported when the token was last checked
+  escrowSupported: boolean;
+  verifiedAt?: Date;
+  source: 'config' | 'admin';
+  addedBy?: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TokenSchema = new Schema<IToken>({
+  network: {
+    type: String,
+    enum: NETWORKS.map(network => network.key),
+    required: true
+  },
+  address: {
+    type: String,
+    required: true,
+    lowercase: true,
+    match: /^0x[a-f0-9]{40}$/
+  },
+  symbol: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  decimals: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 36
+  },
+  escrowSupported: {
+    type: Boolean,
+    default: false
+  },
+  verifiedAt: {
+    type: Date
+  },
+  source: {
+    type: String,
+    enum: ['config', 'admin'],
+    default: 'admin'
+  },
+  addedBy: {
+    type: String,
+    lowercase: true
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+TokenSchema.index({ network: 1, address: 1 }, { unique: true });
+
+export const Token = mongoose.model<IToken>('Token', TokenSchema);
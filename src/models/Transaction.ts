@@ -1,22 +1,62 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { Channel } from '../types';
+import { NETWORKS, NetworkKey } from '../config/networks';
+
+// Allowed moves between these live in services/EscrowStateMachine
+export const ESCROW_STATUSES = [
+  'pending',
+  'funded',
+  'in_progress',
+  'partially_released',
+  'completed',
+  'disputed',
+  'refunded',
+  'expired',
+  'cancelled'
+] as const;
+
+export type EscrowStatus = typeof ESCROW_STATUSES[number];
+
+// Seller submits, buyer approves (which queues the on-chain release) or rejects
+export type MilestoneStatus = 'pending' | 'submitted' | 'approved' | 'rejected' | 'released';
+
+// What the expiry scheduler does once an escrow passes expiresAt: refund the buyer, or pay the seller
+// after the buyer's inspection window unless they dispute first
+export const EXPIRY_POLICIES = ['refund', 'auto_release'] as const;
+export type ExpiryPolicy = typeof EXPIRY_POLICIES[number];
 
 export interface ITransaction extends Document {
   transactionId: string;
+  network: NetworkKey;
   escrowId: string;
   buyerEmail: string;
   sellerEmail: string;
-  amount: number;
+  buyerAddress?: string;
+  sellerAddress?: string;
+  // Exact amount in the token's base units (wei for ETH, 6 decimals for USDC)
+  amount: string;
   currency: string;
-  status: 'pending' | 'funded' | 'completed' | 'disputed' | 'cancelled' | 'expired';
+  tokenAddress: string;
+  decimals: number;
+  status: EscrowStatus;
   type: 'marketplace' | 'service';
+  // Listing the escrow pays for, when bought from the catalogue; reviews of the deal count towards it
+  productId?: string;
   metadata: {
     title: string;
     description: string;
     category?: string;
     milestones?: Array<{
-      amount: number;
+      amount: string;
       description: string;
+      status?: MilestoneStatus;
+      submissionNote?: string;
+      deliverables?: string[];
+      submittedAt?: Date;
+      reviewedAt?: Date;
+      rejectionReason?: string;
+      releaseJobId?: string;
+      releaseHash?: string;
       completed: boolean;
       completedAt?: Date;
     }>;
@@ -35,18 +75,35 @@ export interface ITransaction extends Document {
   };
   timeline: Array<{
     status: string;
+    previousStatus?: string;
     timestamp: Date;
     description: string;
     actor?: string;
+    actorRole?: string;
   }>;
   dispute?: {
     reason: string;
     evidence: string[];
     arbitrator?: string;
     resolution?: string;
+    // The arbitrator's split, in basis points to the seller; the full case lives in the Dispute model
+    sellerShareBps?: number;
     createdAt: Date;
     resolvedAt?: Date;
   };
+  expiry: {
+    policy: ExpiryPolicy;
+    inspectionHours: number;
+    // Copied from the contract the first time the scheduler sees the escrow
+    expiresAt?: Date;
+    // End of the buyer's inspection window under auto_release
+    releaseAt?: Date;
+    remindersSent: string[];
+    actionRequestedAt?: Date;
+    actionJobId?: string;
+    attempts: number;
+    lastError?: string;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -58,6 +115,12 @@ const TransactionSchema = new Schema<ITransaction>({
     unique: true,
     index: true
   },
+  // Escrow ids are only unique per contract, so every lookup pairs them with the network
+  network: {
+    type: String,
+    enum: NETWORKS.map(network => network.key),
+    default: 'base_sepolia'
+  },
   escrowId: {
     type: String,
     required: true,
@@ -75,22 +138,43 @@ const TransactionSchema = new Schema<ITransaction>({
     lowercase: true,
     index: true
   },
+  buyerAddress: {
+    type: String,
+    lowercase: true
+  },
+  sellerAddress: {
+    type: String,
+    lowercase: true
+  },
   amount: {
-    type: Number,
+    type: String,
     required: true,
-    min: 0
+    match: /^\d+$/
   },
   currency: {
     type: String,
     default: 'ETH',
-    enum: ['ETH', 'USDC', 'USDT', 'DAI']
+    uppercase: true
+  },
+  tokenAddress: {
+    type: String,
+    lowercase: true,
+    default: '0x0000000000000000000000000000000000000000'
+  },
+  decimals: {
+    type: Number,
+    default: 18
   },
   status: {
     type: String,
-    enum: ['pending', 'funded', 'completed', 'disputed', 'cancelled', 'expired'],
+    enum: ESCROW_STATUSES,
     default: 'pending',
     index: true
   },
+  productId: {
+    type: String,
+    index: true
+  },
   type: {
     type: String,
     enum: ['marketplace', 'service'],
@@ -115,8 +199,23 @@ const TransactionSchema = new Schema<ITransaction>({
       ]
     },
     milestones: [{
-      amount: Number,
+      amount: {
+        type: String,
+        match: /^\d+$/
+      },
       description: String,
+      status: {
+        type: String,
+        enum: ['pending', 'submitted', 'approved', 'rejected', 'released'],
+        default: 'pending'
+      },
+      submissionNote: String,
+      deliverables: [String],
+      submittedAt: Date,
+      reviewedAt: Date,
+      rejectionReason: String,
+      releaseJobId: String,
+      releaseHash: String,
       completed: {
         type: Boolean,
         default: false
@@ -149,29 +248,58 @@ const TransactionSchema = new Schema<ITransaction>({
   },
   timeline: [{
     status: String,
+    previousStatus: String,
     timestamp: {
       type: Date,
       default: Date.now
     },
     description: String,
-    actor: String
+    actor: String,
+    actorRole: String
   }],
   dispute: {
     reason: String,
     evidence: [String],
     arbitrator: String,
     resolution: String,
+    sellerShareBps: Number,
     createdAt: Date,
     resolvedAt: Date
+  },
+  expiry: {
+    policy: {
+      type: String,
+      enum: EXPIRY_POLICIES,
+      default: 'refund'
+    },
+    inspectionHours: {
+      type: Number,
+      default: 72
+    },
+    expiresAt: Date,
+    releaseAt: Date,
+    remindersSent: {
+      type: [String],
+      default: []
+    },
+    actionRequestedAt: Date,
+    actionJobId: String,
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    lastError: String
   }
 }, {
   timestamps: true
 });
 
 // Indexes for better query performance
+TransactionSchema.index({ network: 1, escrowId: 1 });
 TransactionSchema.index({ buyerEmail: 1, createdAt: -1 });
 TransactionSchema.index({ sellerEmail: 1, createdAt: -1 });
 TransactionSchema.index({ status: 1, createdAt: -1 });
+TransactionSchema.index({ status: 1, 'expiry.expiresAt': 1 });
 TransactionSchema.index({ 'metadata.category': 1 });
 TransactionSchema.index({ 'conversationContext.channel': 1 });
 
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NETWORKS, NetworkKey } from '../config/networks';
+
+export interface ITranscriptEntry {
+  index: number;
+  // conversation: the linked Conversation; transaction: Transaction.conversationContext.messageHistory
+  source: 'conversation' | 'transaction';
+  sender: string;
+  role: string;
+  content: string;
+  timestamp: Date;
+  // sha256(previous entry's hash + this entry); see TranscriptService.hashEntry
+  hash: string;
+}
+
+export interface ITranscript extends Document {
+  network: NetworkKey;
+  escrowId: string;
+  conversationId?: string;
+  entries: ITranscriptEntry[];
+  // Hash of the last entry; also stored on the dispute, so editing any entry breaks the chain
+  rootHash: string;
+  capturedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TranscriptSchema = new Schema<ITranscript>({
+  network: {
+    type: String,
+    enum: NETWORKS.map(network => network.key),
+    required: true
+  },
+  escrowId: {
+    type: String,
+    required: true
+  },
+  conversationId: String,
+  entries: [{
+    _id: false,
+    index: Number,
+    source: {
+      type: String,
+      enum: ['conversation', 'transaction']
+    },
+    sender: String,
+    role: String,
+    content: String,
+    timestamp: Date,
+    hash: String
+  }],
+  rootHash: {
+    type: String,
+    required: true
+  },
+  capturedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// One snapshot per dispute, taken when it is opened
+TranscriptSchema.index({ network: 1, escrowId: 1 }, { unique: true });
+
+export const Transcript = mongoose.model<ITranscript>('Transcript', TranscriptSchema);
@@ -1,12 +1,35 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { KYCStatus, PrivacyLevel } from '../types';
+import { KYCStatus, PrivacyLevel, UserRole } from '../types';
+import { Session } from './Session';
+
+export interface IExternalWallet {
+  address: string;
+  chainId: number;
+  label?: string;
+  verifiedAt: Date;
+  lastUsedAt?: Date;
+}
 
 export interface IUser extends Document {
   email: string;
   username: string;
   password: string;
+  passwordChangedAt?: Date;
+  roles: UserRole[];
+  twoFactor: {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    enabledAt?: Date;
+    lastUsedStep?: number;
+    failedAttempts: number;
+    lockedUntil?: Date;
+    backupCodes: { hash: string; usedAt?: Date }[];
+  };
   walletAddress: string;
   encryptedPrivateKey: string;
+  externalWallets: IExternalWallet[];
+  payoutWalletAddress?: string;
   phoneNumber?: string; // whatsapp phone number
   consentGiven: boolean;
   onboardingCompleted: boolean;
@@ -24,7 +47,11 @@ export interface IUser extends Document {
     totalTransactions: number;
     completedTransactions: number;
     disputes: number;
+    // Native currency (ETH) released across the user's escrows; token escrows are not counted
     totalVolume: number;
+    // Published reviews from escrow counterparties; averageRating is null until the first one
+    averageRating?: number | null;
+    reviewCount: number;
     lastUpdated: Date;
   };
   preferences: {
@@ -64,6 +91,39 @@ const UserSchema = new Schema<IUser>({
     type: String,
     required: true
   },
+  passwordChangedAt: Date,
+  roles: {
+    type: [{
+      type: String,
+      enum: Object.values(UserRole)
+    }],
+    default: [UserRole.BUYER],
+    index: true
+  },
+  // TOTP secrets are stored encrypted, backup codes as sha256 hashes
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    secret: String,
+    pendingSecret: String,
+    enabledAt: Date,
+    lastUsedStep: Number,
+    failedAttempts: {
+      type: Number,
+      default: 0
+    },
+    lockedUntil: Date,
+    backupCodes: [{
+      _id: false,
+      hash: {
+        type: String,
+        required: true
+      },
+      usedAt: Date
+    }]
+  },
   walletAddress: {
     type: String,
     required: true,
@@ -75,6 +135,34 @@ const UserSchema = new Schema<IUser>({
     type: String,
     required: true
   },
+  // Self-custodied wallets the user proved ownership of via SIWE
+  externalWallets: [{
+    _id: false,
+    address: {
+      type: String,
+      required: true,
+      lowercase: true
+    },
+    chainId: {
+      type: Number,
+      required: true
+    },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: 50
+    },
+    verifiedAt: {
+      type: Date,
+      required: true
+    },
+    lastUsedAt: Date
+  }],
+  // Where vendor payouts go; either walletAddress or a verified external wallet
+  payoutWalletAddress: {
+    type: String,
+    lowercase: true
+  },
   phoneNumber: {
     type: String,
     sparse: true,
@@ -134,6 +222,14 @@ const UserSchema = new Schema<IUser>({
       type: Number,
       default: 0
     },
+    averageRating: {
+      type: Number,
+      default: null
+    },
+    reviewCount: {
+      type: Number,
+      default: 0
+    },
     lastUpdated: {
       type: Date,
       default: Date.now
@@ -187,5 +283,29 @@ UserSchema.index({ 'profile.isVendor': 1, 'reputation.score': -1 });
 UserSchema.index({ 'profile.categories': 1 });
 UserSchema.index({ 'reputation.totalVolume': -1 });
 UserSchema.index({ createdAt: -1 });
+// An external wallet can only be linked to one account
+UserSchema.index(
+  { 'externalWallets.address': 1 },
+  { unique: true, partialFilterExpression: { 'externalWallets.address': { $exists: true } } }
+);
+
+// A password change signs the user out everywhere, whichever flow changed it
+UserSchema.pre('save', function (next) {
+  if (!this.isNew && this.isModified('password')) {
+    this.passwordChangedAt = new Date();
+    this.$locals.passwordChanged = true;
+  }
+  next();
+});
+
+UserSchema.post('save', async function (doc) {
+  if (doc.$locals.passwordChanged) {
+    doc.$locals.passwordChanged = false;
+    await Session.updateMany(
+      { userId: doc._id, revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: 'password_change' }
+    );
+  }
+});
 
 export const User = mongoose.model<IUser>('User', UserSchema);
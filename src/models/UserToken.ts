@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type UserTokenPurpose = 'email_verification' | 'password_reset';
+
+export interface IUserToken extends Document {
+  userId: Types.ObjectId;
+  email: string;
+  purpose: UserTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserTokenSchema = new Schema<IUserToken>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  purpose: {
+    type: String,
+    enum: ['email_verification', 'password_reset'],
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: Date
+}, {
+  timestamps: true
+});
+
+UserTokenSchema.index({ userId: 1, purpose: 1, usedAt: 1 });
+UserTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const UserToken = mongoose.model<IUserToken>('UserToken', UserTokenSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type WalletNoncePurpose = 'login' | 'link';
+
+export interface IWalletNonce extends Document {
+  nonce: string;
+  address: string;
+  purpose: WalletNoncePurpose;
+  userId?: Types.ObjectId;
+  chainId: number;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletNonceSchema = new Schema<IWalletNonce>({
+  nonce: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  address: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  purpose: {
+    type: String,
+    enum: ['login', 'link'],
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  chainId: {
+    type: Number,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: Date
+}, {
+  timestamps: true
+});
+
+WalletNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 60 * 60 });
+
+export const WalletNonce = mongoose.model<IWalletNonce>('WalletNonce', WalletNonceSchema);
@@ -0,0 +1,127 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NETWORKS, NetworkKey } from '../config/networks';
+
+export type WithdrawalStatus = 'queued' | 'confirmed' | 'failed' | 'rejected';
+
+export interface IWithdrawal extends Document {
+  withdrawalId: string;
+  userId: mongoose.Types.ObjectId;
+  email: string;
+  network: NetworkKey;
+  from: string;
+  to: string;
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  // Base units, like Transaction.amount
+  amount: string;
+  estimatedGas?: string;
+  estimatedFee?: string;
+  status: WithdrawalStatus;
+  jobId?: string;
+  transactionHash?: string;
+  gasUsed?: string;
+  safety?: {
+    riskLevel: string;
+    score: number;
+    recommendation: string;
+  };
+  failureReason?: string;
+  history: Array<{
+    status: WithdrawalStatus;
+    timestamp: Date;
+    description: string;
+  }>;
+  confirmedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WithdrawalSchema = new Schema<IWithdrawal>({
+  withdrawalId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    index: true
+  },
+  network: {
+    type: String,
+    enum: NETWORKS.map(network => network.key),
+    required: true
+  },
+  from: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  to: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  tokenAddress: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  symbol: {
+    type: String,
+    required: true
+  },
+  decimals: {
+    type: Number,
+    required: true
+  },
+  amount: {
+    type: String,
+    required: true,
+    match: /^\d+$/
+  },
+  estimatedGas: String,
+  estimatedFee: String,
+  status: {
+    type: String,
+    enum: ['queued', 'confirmed', 'failed', 'rejected'],
+    default: 'queued',
+    index: true
+  },
+  jobId: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  transactionHash: String,
+  gasUsed: String,
+  safety: {
+    riskLevel: String,
+    score: Number,
+    recommendation: String
+  },
+  failureReason: String,
+  history: [{
+    status: String,
+    timestamp: {
+      type: Date,
+      default: Date.now
+    },
+    description: String
+  }],
+  confirmedAt: Date
+}, {
+  timestamps: true
+});
+
+// Daily limit checks sum a user's recent withdrawals per token
+WithdrawalSchema.index({ userId: 1, network: 1, tokenAddress: 1, createdAt: -1 });
+
+export const Withdrawal = mongoose.model<IWithdrawal>('Withdrawal', WithdrawalSchema);
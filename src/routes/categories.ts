@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { CategoryController } from '../controllers/CategoryController';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 router.get('/', CategoryController.getCategories);
 router.get('/:slug', CategoryController.getCategory);
-router.post('/', CategoryController.createCategory);
-router.put('/:slug', CategoryController.updateCategory);
-router.delete('/:slug', CategoryController.deleteCategory);
+router.post('/', authenticate, requirePermission('categories:manage'), CategoryController.createCategory);
+router.put('/:slug', authenticate, requirePermission('categories:manage'), CategoryController.updateCategory);
+router.delete('/:slug', authenticate, requirePermission('categories:manage'), CategoryController.deleteCategory);
 
 export default router;
@@ -5,13 +5,18 @@
 
 import { Router } from 'express';
 import { EnhancedVendorController } from '../controllers/EnhancedVendorController';
+import { IdentityController } from '../controllers/IdentityController';
 import { logger } from '../utils/logger';
+import { authenticate, requireEmailOwner, requireWalletOwner, requirePermission } from '../middleware/auth';
 
 const router = Router();
 const enhancedVendorController = new EnhancedVendorController();
 
 // Enhanced vendor management routes
 router.post('/', 
+  authenticate,
+  requireEmailOwner('body', 'email'),
+  requireWalletOwner('body', 'walletAddress'),
   async (req, res, next) => enhancedVendorController.createEnhancedVendor(req, res, next)
 );
 
@@ -20,6 +25,8 @@ router.get('/',
 );
 
 router.get('/safety-dashboard', 
+  authenticate,
+  requirePermission('safety:monitor'),
   async (req, res) => enhancedVendorController.getVendorSafetyDashboard(req, res)
 );
 
@@ -33,38 +40,11 @@ router.post('/check-transaction-safety',
 );
 
 // Vendor verification endpoints
-router.post('/:email/verify-wallet', async (req, res) => {
-  try {
-    const { email } = req.params;
-    const { walletAddress, chain, signature } = req.body;
-
-    // Verify wallet ownership through signature
-    // Integration with your existing wallet verification logic
-
-    res.json({
-      success: true,
-      message: 'Wallet verification initiated',
-      data: {
-        email,
-        walletAddress,
-        chain,
-        status: 'pending',
-        nextSteps: [
-          'Signature verification in progress',
-          'Safety assessment will follow',
-          'Verification results in 1-2 minutes'
-        ]
-      }
-    });
+router.post('/:email/verify-wallet/nonce', authenticate, requireEmailOwner(), IdentityController.requestWalletLinkNonce);
 
-  } catch (error) {
-    logger.error('Wallet verification failed:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Wallet verification failed'
-    });
-  }
-});
+router.post('/:email/verify-wallet', authenticate, requireEmailOwner(),
+  async (req, res) => enhancedVendorController.verifyVendorWallet(req, res)
+);
 
 router.get('/:email/safety-status', async (req, res) => {
   try {
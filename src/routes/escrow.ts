@@ -1,21 +1,33 @@
 import { Router } from 'express';
 import { EscrowController } from '../controllers/EscrowController';
+import { DisputeController } from '../controllers/DisputeController';
+import { ReviewController } from '../controllers/ReviewController';
 import { validateDto } from '../middleware';
-import { CreateEscrowDto, ReleaseEscrowDto, RefundEscrowDto, DisputeEscrowDto, GetEscrowDto } from '../dto/escrow.dto';
+import { authenticate, requireEmailOwner, requireTransactionParty, requirePermission, requireSecondFactor } from '../middleware/auth';
+import { selectNetwork } from '../middleware/network';
+import { singleFileUpload } from '../middleware/upload';
+import { networkRegistry } from '../services/NetworkRegistry';
+import { CreateEscrowDto, ReleaseEscrowDto, RefundEscrowDto, DisputeEscrowDto, GetEscrowDto, MilestoneParamsDto, SubmitMilestoneDto, RejectMilestoneDto, ResolveDisputeDto, DisputeMessageDto, RequestDisputeResponseDto, AppealDisputeDto, AssignDisputeDto, CreateReviewDto } from '../dto/escrow.dto';
 
 const router = Router();
 
 // Initialize controller with services (will be injected)
 let escrowController: EscrowController;
 
-export const initializeEscrowRoutes = (escrowService: any, disputeService: any) => {
-  escrowController = new EscrowController(escrowService, disputeService);
+export const initializeEscrowRoutes = (networks: typeof networkRegistry) => {
+  escrowController = new EscrowController(networks);
 };
 
+// Every escrow route acts on one network; escrow ids are only unique per network
+router.use(selectNetwork);
+
 // Escrow management routes
-router.post('/create', validateDto(CreateEscrowDto, 'body'), (req, res, next) => escrowController.createEscrow(req, res, next));
+router.post('/create', authenticate, validateDto(CreateEscrowDto, 'body'), requireEmailOwner('body', 'buyerEmail'), (req, res, next) => escrowController.createEscrow(req, res, next));
 router.post('/:escrowId/release', 
+  authenticate,
   validateDto(ReleaseEscrowDto, 'params'),
+  requireTransactionParty('escrowId'),
+  requireSecondFactor,
   (req, res, next) => {
     const bodyDto = req.body as Partial<ReleaseEscrowDto>;
     req.body = { ...req.params, ...bodyDto } as ReleaseEscrowDto;
@@ -23,9 +35,11 @@ router.post('/:escrowId/release',
   },
   (req, res, next) => escrowController.releaseEscrow(req, res, next)
 );
-router.post('/:escrowId/refund', validateDto(RefundEscrowDto, 'params'), (req, res, next) => escrowController.refundEscrow(req, res, next));
+router.post('/:escrowId/refund', authenticate, validateDto(RefundEscrowDto, 'params'), requireTransactionParty('escrowId'), (req, res, next) => escrowController.refundEscrow(req, res, next));
 router.post('/:escrowId/dispute', 
+  authenticate,
   validateDto(DisputeEscrowDto, 'params'),
+  requireTransactionParty('escrowId'),
   (req, res, next) => {
     const bodyDto = req.body as Partial<DisputeEscrowDto>;
     req.body = { ...req.params, ...bodyDto } as DisputeEscrowDto;
@@ -35,10 +49,57 @@ router.post('/:escrowId/dispute',
 );
 router.get('/:escrowId', validateDto(GetEscrowDto, 'params'), (req, res, next) => escrowController.getEscrow(req, res, next));
 
+// Milestone routes
+router.get('/:escrowId/milestones', authenticate, validateDto(GetEscrowDto, 'params'), requireTransactionParty('escrowId'), (req, res, next) => escrowController.getMilestones(req, res, next));
+router.post('/:escrowId/milestones/:milestoneIndex/submit',
+  authenticate,
+  validateDto(MilestoneParamsDto, 'params'),
+  validateDto(SubmitMilestoneDto, 'body'),
+  requireTransactionParty('escrowId'),
+  (req, res, next) => escrowController.submitMilestone(req, res, next)
+);
+router.post('/:escrowId/milestones/:milestoneIndex/approve',
+  authenticate,
+  validateDto(MilestoneParamsDto, 'params'),
+  requireTransactionParty('escrowId'),
+  requireSecondFactor,
+  (req, res, next) => escrowController.approveMilestone(req, res, next)
+);
+router.post('/:escrowId/milestones/:milestoneIndex/reject',
+  authenticate,
+  validateDto(MilestoneParamsDto, 'params'),
+  validateDto(RejectMilestoneDto, 'body'),
+  requireTransactionParty('escrowId'),
+  (req, res, next) => escrowController.rejectMilestone(req, res, next)
+);
+
 // Dispute resolution routes
-router.post('/:escrowId/disputes/open', (req, res, next) => escrowController.openDispute(req, res, next));
-router.post('/:escrowId/disputes/evidence', (req, res, next) => escrowController.addEvidence(req, res, next));
-router.post('/:escrowId/disputes/resolve', (req, res, next) => escrowController.resolveDispute(req, res, next));
-router.get('/:escrowId/disputes', (req, res, next) => escrowController.getDispute(req, res, next));
+router.post('/:escrowId/disputes/open', authenticate, validateDto(GetEscrowDto, 'params'), requireTransactionParty('escrowId'), (req, res, next) => escrowController.openDispute(req, res, next));
+// A multipart "file" is stored and its hash anchored; a plain "evidence" string is anchored as-is
+router.post('/:escrowId/disputes/evidence',
+  authenticate,
+  validateDto(GetEscrowDto, 'params'),
+  requireTransactionParty('escrowId'),
+  singleFileUpload('file'),
+  (req, res, next) => req.file
+    ? DisputeController.uploadEvidence(req, res, next)
+    : escrowController.addEvidence(req, res, next)
+);
+router.get('/:escrowId/disputes/evidence', authenticate, validateDto(GetEscrowDto, 'params'), DisputeController.listEvidence);
+router.get('/:escrowId/disputes/evidence/:evidenceId', authenticate, DisputeController.getEvidenceFile);
+router.get('/:escrowId/disputes/transcript', authenticate, validateDto(GetEscrowDto, 'params'), DisputeController.getTranscript);
+router.get('/:escrowId/disputes', validateDto(GetEscrowDto, 'params'), (req, res, next) => escrowController.getDispute(req, res, next));
+
+// Off-chain case: thread, response deadlines, decision and appeal
+router.get('/:escrowId/disputes/case', authenticate, validateDto(GetEscrowDto, 'params'), DisputeController.getCase);
+router.post('/:escrowId/disputes/messages', authenticate, validateDto(GetEscrowDto, 'params'), validateDto(DisputeMessageDto, 'body'), DisputeController.postMessage);
+router.post('/:escrowId/disputes/request-response', authenticate, validateDto(GetEscrowDto, 'params'), requirePermission('disputes:resolve'), validateDto(RequestDisputeResponseDto, 'body'), DisputeController.requestResponse);
+router.post('/:escrowId/disputes/resolve', authenticate, validateDto(GetEscrowDto, 'params'), requirePermission('disputes:resolve'), validateDto(ResolveDisputeDto, 'body'), DisputeController.resolve);
+router.post('/:escrowId/disputes/appeal', authenticate, validateDto(GetEscrowDto, 'params'), validateDto(AppealDisputeDto, 'body'), DisputeController.appeal);
+router.post('/:escrowId/disputes/assign', authenticate, validateDto(GetEscrowDto, 'params'), requirePermission('disputes:assign'), validateDto(AssignDisputeDto, 'body'), DisputeController.assign);
+
+// Reviews between the parties once the escrow completes
+router.post('/:escrowId/reviews', authenticate, validateDto(GetEscrowDto, 'params'), validateDto(CreateReviewDto, 'body'), ReviewController.createReview);
+router.get('/:escrowId/reviews', authenticate, validateDto(GetEscrowDto, 'params'), requireTransactionParty('escrowId'), ReviewController.getEscrowReviews);
 
 export default router;
@@ -1,13 +1,14 @@
 import { Router } from 'express';
 import { FeedbackController } from '../controllers/FeedbackController';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 router.post('/', FeedbackController.createFeedback);
-router.get('/', FeedbackController.getAllFeedback);
-router.get('/stats', FeedbackController.getFeedbackStats);
-router.get('/:id', FeedbackController.getFeedbackById);
-router.put('/:id/status', FeedbackController.updateFeedbackStatus);
+router.get('/', authenticate, requirePermission('feedback:read'), FeedbackController.getAllFeedback);
+router.get('/stats', authenticate, requirePermission('feedback:read'), FeedbackController.getFeedbackStats);
+router.get('/:id', authenticate, requirePermission('feedback:read'), FeedbackController.getFeedbackById);
+router.put('/:id/status', authenticate, requirePermission('feedback:moderate'), FeedbackController.updateFeedbackStatus);
 
 export default router;
 
@@ -1,17 +1,65 @@
 import { Router } from 'express';
 import { IdentityController } from '../controllers/IdentityController';
+import { WithdrawalController } from '../controllers/WithdrawalController';
+import { authenticate, requireEmailOwner, requirePermission, requireSecondFactor } from '../middleware/auth';
+import { selectNetwork } from '../middleware/network';
 
 const router = Router();
 
 // User management routes
 router.post('/create', IdentityController.createUser);
 router.post('/signin', IdentityController.signIn);
-router.get('/:email', IdentityController.getUser);
-router.get('/:email/onboarding', IdentityController.checkOnboarding);
-router.put('/:email/onboarding', IdentityController.completeOnboarding);
-router.get('/:email/wallet/balance', IdentityController.getWalletBalance);
-router.put('/:email/link-farcaster', IdentityController.linkFarcaster);
-router.put('/:email/profile', IdentityController.updateProfile);
+router.post('/signin/2fa', IdentityController.verifyTwoFactorSignIn);
+router.post('/token/refresh', IdentityController.refreshToken);
+router.post('/signout', authenticate, IdentityController.signOut);
+
+// Sign-In with Ethereum (EIP-4361) routes
+router.post('/siwe/nonce', IdentityController.requestSiweNonce);
+router.post('/siwe/signin', IdentityController.siweSignIn);
+
+// Email verification and password recovery routes
+router.post('/verify-email/confirm', IdentityController.confirmEmailVerification);
+router.post('/password-reset/request', IdentityController.requestPasswordReset);
+router.post('/password-reset/confirm', IdentityController.confirmPasswordReset);
+
+router.get('/:email', authenticate, requireEmailOwner(), IdentityController.getUser);
+router.get('/:email/onboarding', authenticate, requireEmailOwner(), IdentityController.checkOnboarding);
+router.put('/:email/onboarding', authenticate, requireEmailOwner(), IdentityController.completeOnboarding);
+router.get('/:email/wallet/balance', authenticate, requireEmailOwner(), selectNetwork, IdentityController.getWalletBalance);
+router.get('/:email/wallet/portfolio', authenticate, requireEmailOwner(), IdentityController.getWalletPortfolio);
+router.get('/:email/wallet/gas-budget', authenticate, requireEmailOwner(), IdentityController.getGasBudget);
+router.put('/:email/link-farcaster', authenticate, requireEmailOwner(), IdentityController.linkFarcaster);
+router.put('/:email/profile', authenticate, requireEmailOwner(), IdentityController.updateProfile);
+router.post('/:email/verify-email', authenticate, requireEmailOwner(), IdentityController.requestEmailVerification);
+router.put('/:email/password', authenticate, requireEmailOwner(), IdentityController.changePassword);
+router.put('/:email/email', authenticate, requireEmailOwner(), requireSecondFactor, IdentityController.changeEmail);
+
+// Two-factor authentication routes
+router.get('/:email/2fa', authenticate, requireEmailOwner(), IdentityController.getTwoFactorStatus);
+router.post('/:email/2fa/setup', authenticate, requireEmailOwner(), IdentityController.setupTwoFactor);
+router.post('/:email/2fa/enable', authenticate, requireEmailOwner(), IdentityController.enableTwoFactor);
+router.post('/:email/2fa/disable', authenticate, requireEmailOwner(), requireSecondFactor, IdentityController.disableTwoFactor);
+router.post('/:email/2fa/backup-codes', authenticate, requireEmailOwner(), requireSecondFactor, IdentityController.regenerateBackupCodes);
+
+// External wallet routes
+router.get('/:email/wallets', authenticate, requireEmailOwner(), IdentityController.getWallets);
+router.post('/:email/wallets/nonce', authenticate, requireEmailOwner(), IdentityController.requestWalletLinkNonce);
+router.post('/:email/wallets', authenticate, requireEmailOwner(), IdentityController.linkWallet);
+router.put('/:email/wallets/payout', authenticate, requireEmailOwner(), IdentityController.setPayoutWallet);
+router.delete('/:email/wallets/:address', authenticate, requireEmailOwner(), IdentityController.unlinkWallet);
+
+// Withdrawal routes
+router.post('/:email/withdrawals', authenticate, requireEmailOwner(), requireSecondFactor, selectNetwork, WithdrawalController.createWithdrawal);
+router.get('/:email/withdrawals', authenticate, requireEmailOwner(), WithdrawalController.getWithdrawals);
+router.get('/:email/withdrawals/:withdrawalId', authenticate, requireEmailOwner(), WithdrawalController.getWithdrawal);
+
+// Role management routes
+router.put('/:email/roles', authenticate, requirePermission('roles:manage'), IdentityController.updateRoles);
+
+// Session management routes
+router.get('/:email/sessions', authenticate, requireEmailOwner(), IdentityController.getSessions);
+router.delete('/:email/sessions', authenticate, requireEmailOwner(), IdentityController.revokeAllSessions);
+router.delete('/:email/sessions/:sessionId', authenticate, requireEmailOwner(), IdentityController.revokeSession);
 
 // Vendor search routes
 router.get('/', IdentityController.getVendors);
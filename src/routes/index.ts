@@ -7,14 +7,8 @@ import mongoose from 'mongoose';
 import { logger } from '../utils/logger';
 import { errorHandler, notFoundHandler } from '../middleware';
 
-// Import config
-import { CONTRACT_ADDRESSES } from '../config/contracts';
-
 // Import services
-import { EscrowService } from '../services/EscrowService';
-import { PaymentService } from '../services/PaymentService';
-import { ReputationService } from '../services/ReputationService';
-import { DisputeService } from '../services/DisputeService';
+import { networkRegistry } from '../services/NetworkRegistry';
 
 // Import routes
 import identityRoutes from './identity';
@@ -62,28 +56,12 @@ if (!privateKey) {
   process.exit(1);
 }
 
-const escrowManagerAddress = CONTRACT_ADDRESSES.ESCROW_MANAGER;
-const paymentProcessorAddress = CONTRACT_ADDRESSES.PAYMENT_PROCESSOR;
-const reputationRegistryAddress = CONTRACT_ADDRESSES.REPUTATION_REGISTRY;
-const disputeResolutionAddress = CONTRACT_ADDRESSES.DISPUTE_RESOLUTION;
-
-// Create provider configuration for Base Sepolia testnet
-const providerConfig = {
-  rpcUrl: process.env.BASE_RPC_URL || 'https://sepolia.base.org',
-  chainId: 84532,
-  name: 'Base Sepolia',
-  timeout: 10000
-};
-
-const escrowService = new EscrowService(providerConfig, privateKey, escrowManagerAddress);
-const paymentService = new PaymentService(providerConfig, privateKey, paymentProcessorAddress);
-const reputationService = new ReputationService(providerConfig, privateKey, reputationRegistryAddress);
-const disputeService = new DisputeService(providerConfig, privateKey, disputeResolutionAddress);
+networkRegistry.init(privateKey);
 
 // Initialize route controllers with services
-initializeEscrowRoutes(escrowService, disputeService);
-initializeTransactionRoutes(paymentService, reputationService);
-initializeReputationRoutes(reputationService);
+initializeEscrowRoutes(networkRegistry);
+initializeTransactionRoutes(networkRegistry);
+initializeReputationRoutes(networkRegistry.get().reputationService);
 
 // API Routes
 app.use('/api/identity', identityRoutes);
@@ -1,22 +1,83 @@
-import { Router } from 'express';
-import { NETWORKS } from '../config/networks';
+import { Router, Request, Response } from 'express';
+import { NETWORKS, NetworkKey, DEFAULT_NETWORK_KEY } from '../config/networks';
+import { networkRegistry } from '../services/NetworkRegistry';
+import { asyncHandler } from '../middleware';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { AuthenticatedRequest } from '../types';
 
 const router = Router();
 
-router.get('/', (req, res) => {
-  const result = NETWORKS.map((network) => ({
-    key: network.key,
-    name: network.name,
-    chainId: network.chainId,
-    rpcUrl: network.rpcUrl
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const result = await Promise.all(NETWORKS.map(async (network) => {
+    const enabled = networkRegistry.has(network.key);
+
+    return {
+      key: network.key,
+      name: network.name,
+      chainId: network.chainId,
+      rpcUrl: network.rpcUrl,
+      testnet: network.testnet,
+      enabled,
+      isDefault: network.key === DEFAULT_NETWORK_KEY,
+      confirmations: network.confirmations,
+      contracts: network.contracts,
+      tokens: enabled ? await networkRegistry.get(network.key).tokenService.getSupportedTokens() : network.tokens
+    };
   }));
 
   res.status(200).json({
     success: true,
     networks: result
   });
-});
+}));
 
-export default router;
+// Token registry; clients should read this instead of hardcoding token addresses
+router.get('/:key/tokens', asyncHandler(async (req: Request, res: Response) => {
+  const { network, tokenService } = networkRegistry.get(req.params.key as NetworkKey);
 
+  res.status(200).json({
+    success: true,
+    data: {
+      network: { key: network.key, name: network.name, chainId: network.chainId },
+      tokens: await tokenService.getSupportedTokens()
+    }
+  });
+}));
 
+router.post('/:key/tokens', authenticate, requirePermission('tokens:manage'), asyncHandler(async (req: Request, res: Response) => {
+  const { tokenService, escrowService } = networkRegistry.get(req.params.key as NetworkKey);
+  const { address } = req.body;
+
+  if (!address || typeof address !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Token address is required'
+    });
+  }
+
+  const token = await tokenService.addToken(
+    address,
+    (req as AuthenticatedRequest).user!.email,
+    tokenAddress => escrowService.isTokenSupported(tokenAddress)
+  );
+
+  res.status(201).json({
+    success: true,
+    data: token,
+    message: token.escrowSupported
+      ? 'Token added'
+      : 'Token added, but the escrow contract does not accept it yet'
+  });
+}));
+
+router.delete('/:key/tokens/:address', authenticate, requirePermission('tokens:manage'), asyncHandler(async (req: Request, res: Response) => {
+  const { tokenService } = networkRegistry.get(req.params.key as NetworkKey);
+  await tokenService.disableToken(req.params.address);
+
+  res.status(200).json({
+    success: true,
+    message: 'Token disabled'
+  });
+}));
+
+export default router;
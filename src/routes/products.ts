@@ -1,13 +1,15 @@
 import { Router } from 'express';
 import { ProductController } from '../controllers/ProductController';
+import { ReviewController } from '../controllers/ReviewController';
+import { authenticate, requireEmailOwner } from '../middleware/auth';
 
 const router = Router();
 
-router.post('/', ProductController.createProduct);
+router.post('/', authenticate, requireEmailOwner('body', 'vendorEmail'), ProductController.createProduct);
 router.get('/', ProductController.getProducts);
 router.get('/:productId', ProductController.getProduct);
-router.put('/:productId', ProductController.updateProduct);
-router.delete('/:productId', ProductController.deleteProduct);
+router.get('/:productId/reviews', ReviewController.getProductReviews);
+router.put('/:productId', authenticate, requireEmailOwner('body', 'vendorEmail'), ProductController.updateProduct);
+router.delete('/:productId', authenticate, requireEmailOwner('body', 'vendorEmail'), ProductController.deleteProduct);
 
 export default router;
-
@@ -1,6 +1,8 @@
 import { NextFunction, Router } from 'express';
 import { ReputationController } from '../controllers/ReputationController';
+import { ReputationService } from '../services/ReputationService';
 import { asyncHandler } from '../middleware';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { Request, Response } from 'express';
 
 const router = Router();
@@ -8,12 +10,14 @@ const router = Router();
 // Initialize controller with services (will be injected)
 let reputationController: ReputationController;
 
-export const initializeReputationRoutes = (reputationService: any) => {
+export const initializeReputationRoutes = (reputationService: ReputationService) => {
   reputationController = new ReputationController(reputationService);
 };
 
 // Reputation management routes
 router.get('/:userAddress', asyncHandler(async (req: Request, res: Response, next: NextFunction) => reputationController.getReputation(req, res, next)));
-router.post('/update', asyncHandler(async (req: Request, res: Response, next: NextFunction) => reputationController.updateReputation(req, res, next)));
+router.get('/:userAddress/history', asyncHandler(async (req: Request, res: Response, next: NextFunction) => reputationController.getHistory(req, res, next)));
+// Recalculates from escrow history; the score itself is never taken from the request
+router.post('/update', authenticate, requirePermission('reputation:write'), asyncHandler(async (req: Request, res: Response, next: NextFunction) => reputationController.updateReputation(req, res, next)));
 
 export default router;
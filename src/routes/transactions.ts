@@ -1,22 +1,29 @@
 import { Router } from 'express';
 import { TransactionController } from '../controllers/TransactionController';
+import { authenticate, requireEmailOwner, requireTransactionParty, requireSecondFactor } from '../middleware/auth';
+import { selectNetwork } from '../middleware/network';
+import { networkRegistry } from '../services/NetworkRegistry';
 
 const router = Router();
 
 // Initialize controller with services (will be injected)
 let transactionController: TransactionController;
 
-export const initializeTransactionRoutes = (paymentService: any, reputationService: any) => {
-  transactionController = new TransactionController(paymentService, reputationService);
+export const initializeTransactionRoutes = (networks: typeof networkRegistry) => {
+  transactionController = new TransactionController(networks);
 };
 
-// Transaction management routes
-router.get('/:email', (req, res, next) => transactionController.getTransactions(req, res, next));
-router.get('/:email/:transactionId', (req, res, next) => transactionController.getTransaction(req, res, next));
-router.put('/:transactionId/status', (req, res, next) => transactionController.updateTransactionStatus(req, res, next));
-router.get('/:transactionId/timeline', (req, res, next) => transactionController.getTransactionTimeline(req, res, next));
-
 // Payment routes
-router.post('/payment/direct', (req, res, next) => transactionController.makeDirectPayment(req, res, next));
+router.post('/payment/direct', authenticate, selectNetwork, requireSecondFactor, (req, res, next) => transactionController.makeDirectPayment(req, res, next));
+
+// Queued blockchain job status
+router.get('/jobs/:jobId', authenticate, (req, res, next) => transactionController.getJobStatus(req, res, next));
+
+// Transaction management routes
+router.get('/:email', authenticate, requireEmailOwner(), (req, res, next) => transactionController.getTransactions(req, res, next));
+router.get('/:email/:transactionId', authenticate, requireEmailOwner(), (req, res, next) => transactionController.getTransaction(req, res, next));
+router.put('/:transactionId/status', authenticate, requireTransactionParty('transactionId'), (req, res, next) => transactionController.updateTransactionStatus(req, res, next));
+router.get('/:transactionId/gas', authenticate, requireTransactionParty('transactionId'), (req, res, next) => transactionController.getTransactionGas(req, res, next));
+router.get('/:transactionId/timeline', authenticate, requireTransactionParty('transactionId'), (req, res, next) => transactionController.getTransactionTimeline(req, res, next));
 
 export default router;
@@ -1,13 +1,20 @@
 import { Router } from 'express';
 import { IdentityController } from '../controllers/IdentityController';
 import { ProductController } from '../controllers/ProductController';
+import { ReviewController } from '../controllers/ReviewController';
+import { authenticate, requireEmailOwner, requirePermission } from '../middleware/auth';
+import { validateDto } from '../middleware';
+import { ReviewReplyDto, ModerateReviewDto } from '../dto/escrow.dto';
 
 const router = Router();
 
 router.post('/', IdentityController.createVendor);
 router.get('/', IdentityController.getVendors);
-router.put('/:email', IdentityController.updateVendor);
+router.put('/:email', authenticate, requireEmailOwner(), IdentityController.updateVendor);
 router.get('/:email/products', ProductController.getVendorProducts);
+router.get('/:email/reviews', ReviewController.getVendorReviews);
+router.post('/:email/reviews/:reviewId/reply', authenticate, requireEmailOwner(), validateDto(ReviewReplyDto, 'body'), ReviewController.replyToReview);
+router.post('/:email/reviews/:reviewId/moderation', authenticate, requirePermission('reviews:moderate'), validateDto(ModerateReviewDto, 'body'), ReviewController.moderateReview);
 router.get('/:email', IdentityController.getVendor);
 
 export default router;
@@ -1,10 +1,11 @@
 import { Router } from 'express';
 import { WaitlistController } from '../controllers/WaitlistController';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 router.post('/join', WaitlistController.joinWaitlist);
-router.get('/', WaitlistController.getAllWaitlist);
+router.get('/', authenticate, requirePermission('waitlist:read'), WaitlistController.getAllWaitlist);
 router.get('/:email', WaitlistController.getWaitlistEntry);
 
 export default router;
@@ -0,0 +1,132 @@
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { logger } from '../utils/logger';
+import { config } from '../config/env';
+
+export interface AccessTokenClaims {
+  sub: string;
+  sid: string;
+  email: string;
+  walletAddress: string;
+}
+
+export interface IssuedAccessToken {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+const TOKEN_ISSUER = 'synkio-backend';
+const TWO_FACTOR_AUDIENCE = 'synkio-2fa';
+
+class AuthService {
+  private readonly secret: string;
+
+  constructor() {
+    this.secret = config.auth.jwtSecret;
+
+    if (!this.secret) {
+      logger.warn('JWT_SECRET is not set, access tokens cannot be issued or verified');
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.secret.length > 0;
+  }
+
+  /**
+   * Issue a signed access token for an authenticated user
+   */
+  issueAccessToken(user: { id: string; email: string; walletAddress: string }, sessionId: string): IssuedAccessToken {
+    if (!this.secret) {
+      throw new Error('JWT_SECRET is not configured');
+    }
+
+    const claims: AccessTokenClaims = {
+      sub: user.id,
+      sid: sessionId,
+      email: user.email,
+      walletAddress: user.walletAddress
+    };
+
+    const accessToken = jwt.sign(claims, this.secret, {
+      expiresIn: config.auth.accessTokenTtl as jwt.SignOptions['expiresIn'],
+      issuer: TOKEN_ISSUER
+    });
+
+    const decoded = jwt.decode(accessToken) as JwtPayload;
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn: (decoded.exp || 0) - (decoded.iat || 0)
+    };
+  }
+
+  /**
+   * Verify an access token and return its claims
+   * Throws if the token is malformed, expired or signed with another secret
+   */
+  verifyAccessToken(token: string): AccessTokenClaims {
+    if (!this.secret) {
+      throw new Error('JWT_SECRET is not configured');
+    }
+
+    const payload = jwt.verify(token, this.secret, { issuer: TOKEN_ISSUER }) as JwtPayload;
+
+    if (!payload.sub || !payload.sid || typeof payload.email !== 'string') {
+      throw new Error('Access token is missing required claims');
+    }
+
+    return {
+      sub: payload.sub,
+      sid: payload.sid,
+      email: payload.email,
+      walletAddress: payload.walletAddress
+    };
+  }
+
+  /**
+   * Issue a short-lived token proving the password step of a two-factor sign in
+   * It carries no session, so authenticate rejects it as an access token.
+   */
+  issueTwoFactorChallenge(userId: string): { challengeToken: string; expiresIn: number } {
+    if (!this.secret) {
+      throw new Error('JWT_SECRET is not configured');
+    }
+
+    const challengeToken = jwt.sign({ sub: userId }, this.secret, {
+      expiresIn: config.auth.twoFactorChallengeTtl as jwt.SignOptions['expiresIn'],
+      issuer: TOKEN_ISSUER,
+      audience: TWO_FACTOR_AUDIENCE
+    });
+
+    const decoded = jwt.decode(challengeToken) as JwtPayload;
+
+    return {
+      challengeToken,
+      expiresIn: (decoded.exp || 0) - (decoded.iat || 0)
+    };
+  }
+
+  /**
+   * Verify a two-factor challenge token and return the user id it was issued for
+   */
+  verifyTwoFactorChallenge(token: string): string {
+    if (!this.secret) {
+      throw new Error('JWT_SECRET is not configured');
+    }
+
+    const payload = jwt.verify(token, this.secret, {
+      issuer: TOKEN_ISSUER,
+      audience: TWO_FACTOR_AUDIENCE
+    }) as JwtPayload;
+
+    if (!payload.sub) {
+      throw new Error('Challenge token is missing required claims');
+    }
+
+    return payload.sub;
+  }
+}
+
+export const authService = new AuthService();
@@ -1,20 +1,46 @@
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { NETWORKS } from '../config/networks';
+import { WalletService } from './WalletService';
+import { getProviderPool } from './ProviderPool';
+import { transactionQueueService, QueuedCall, QueuedTransaction, SignerRef } from './TransactionQueueService';
 
 export interface ProviderConfig {
   rpcUrl: string;
+  // Additional endpoints for the same chain; rpcUrl is always tried as part of the pool
+  rpcUrls?: string[];
   chainId?: number;
   name: string;
   timeout?: number;
 }
 
+/**
+ * The parts of a User needed to unlock their custodial wallet
+ */
+export interface CustodialAccount {
+  id: string;
+  email: string;
+  walletAddress: string;
+  encryptedPrivateKey: string;
+  password: string;
+}
+
+/**
+ * Extra data carried by queued jobs for their confirmation handlers
+ */
+export interface JobOptions {
+  context?: Record<string, any>;
+  requestedBy?: string;
+}
+
 export class BlockchainService {
   protected contract: ethers.Contract;
   protected wallet: ethers.Wallet;
   protected provider: ethers.Provider;
   protected providerConfig: ProviderConfig;
-  private static providerCache: Map<string, ethers.Provider> = new Map();
+  protected signerRef: SignerRef = { type: 'platform' };
+  protected jobOptions: JobOptions = {};
+  private static walletService = new WalletService();
 
   constructor(
     providerConfig: ProviderConfig, 
@@ -30,41 +56,71 @@ export class BlockchainService {
   }
 
   /**
-   * Initialize provider with caching and fallback support
+   * Resolve the shared provider pool for this chain
+   * Pools heal themselves by quarantining failing endpoints, so they are safe to share and keep.
    */
   private initializeProvider(config: ProviderConfig): ethers.Provider {
-    const cacheKey = `${config.rpcUrl}-${config.chainId || 'default'}`;
-    
-    // Check cache first
-    if (BlockchainService.providerCache.has(cacheKey)) {
-      const cachedProvider = BlockchainService.providerCache.get(cacheKey)!;
-      logger.info(`Using cached provider for ${config.name}`);
-      return cachedProvider;
+    if (!config.chainId) {
+      throw new Error(`Provider initialization failed for ${config.name}: chainId is required`);
     }
 
-    try {
-      // Create provider with proper network configuration
-      const providerOptions: any = {
-        timeout: config.timeout || 10000
-      };
+    const rpcUrls = Array.from(new Set([config.rpcUrl, ...(config.rpcUrls || [])]));
+    return getProviderPool({
+      name: config.name,
+      chainId: config.chainId,
+      rpcUrls,
+      timeout: config.timeout
+    });
+  }
 
-      // Only add network config if chainId is provided and valid
-      if (config.chainId && config.chainId > 0) {
-        providerOptions.name = config.name;
-        providerOptions.chainId = config.chainId;
-      }
+  /**
+   * Return a view of this service that signs with the given wallet
+   * The view shares provider and configuration; the platform-keyed instance is left untouched.
+   */
+  connect(signer: ethers.Wallet): this {
+    const scoped = Object.create(this) as this;
+    scoped.wallet = signer.connect(this.provider);
+    scoped.contract = this.contract.connect(scoped.wallet) as ethers.Contract;
+    return scoped;
+  }
 
-      const provider = new ethers.JsonRpcProvider(config.rpcUrl, providerOptions);
+  /**
+   * Return a view of this service that signs with a user's custodial wallet
+   */
+  asUser(account: CustodialAccount): this {
+    const signer = BlockchainService.walletService.getWallet(account.encryptedPrivateKey, account.password);
 
-      // Cache the provider
-      BlockchainService.providerCache.set(cacheKey, provider);
-      logger.info(`Created new provider for ${config.name}: ${config.rpcUrl}`);
-      
-      return provider;
-    } catch (error) {
-      logger.error(`Failed to initialize provider for ${config.name}:`, error);
-      throw new Error(`Provider initialization failed for ${config.name}`);
+    if (signer.address.toLowerCase() !== account.walletAddress.toLowerCase()) {
+      logger.error('Decrypted wallet does not match the stored address', { email: account.email });
+      throw new Error('Custodial wallet does not match the account wallet address');
     }
+
+    logger.info(`Signing as ${account.email} (${signer.address})`);
+    const scoped = this.connect(signer);
+    scoped.signerRef = { type: 'user', userId: account.id, email: account.email };
+    scoped.jobOptions = { requestedBy: account.email, ...this.jobOptions };
+    return scoped;
+  }
+
+  /**
+   * Return a view of this service whose queued jobs carry the given context
+   */
+  withJob(options: JobOptions): this {
+    const scoped = Object.create(this) as this;
+    scoped.jobOptions = { ...this.jobOptions, ...options };
+    return scoped;
+  }
+
+  getSignerAddress(): string {
+    return this.wallet.address;
+  }
+
+  getInterface(): ethers.Interface {
+    return this.contract.interface;
+  }
+
+  getContractAddress(): string {
+    return this.contract.target as string;
   }
 
   /**
@@ -72,8 +128,8 @@ export class BlockchainService {
    */
   async testConnection(): Promise<boolean> {
     try {
-      const network = await this.provider.getNetwork();
-      logger.info(`Provider connection test successful. Network: ${network.name} (${network.chainId})`);
+      const blockNumber = await this.provider.getBlockNumber();
+      logger.info(`Provider connection test successful. Network: ${this.providerConfig.name} at block ${blockNumber}`);
       return true;
     } catch (error) {
       logger.warn(`Provider connection test failed:`, error);
@@ -82,30 +138,17 @@ export class BlockchainService {
   }
 
   /**
-   * Get provider with automatic fallback
+   * Get the provider, failing fast when no endpoint in the pool answers
+   * Failover between endpoints happens inside the pool on every request.
    */
   async getProvider(): Promise<ethers.Provider> {
     const isConnected = await this.testConnection();
     
-    if (isConnected) {
-      return this.provider;
+    if (!isConnected) {
+      throw new Error(`No RPC endpoint for ${this.providerConfig.name} is reachable`);
     }
 
-    // Try to reconnect
-    logger.warn(`Provider disconnected, attempting to reconnect...`);
-    try {
-      this.provider = this.initializeProvider(this.providerConfig);
-      const reconnected = await this.testConnection();
-      
-      if (reconnected) {
-        logger.info('Provider reconnected successfully');
-        return this.provider;
-      }
-    } catch (error) {
-      logger.error('Failed to reconnect provider:', error);
-    }
-
-    throw new Error('Provider connection failed and could not be restored');
+    return this.provider;
   }
 
   /**
@@ -193,6 +236,7 @@ export class BlockchainService {
   static getProviderConfigs(): ProviderConfig[] {
     return NETWORKS.map((network) => ({
       rpcUrl: network.rpcUrl,
+      rpcUrls: network.rpcUrls,
       chainId: network.chainId,
       name: network.name,
       timeout: 10000
@@ -228,17 +272,48 @@ export class BlockchainService {
     throw new Error('No accessible providers found');
   }
 
-  protected async executeTransaction(method: string, ...args: any[]): Promise<ethers.ContractTransactionResponse> {
+  /**
+   * Encode a contract call for the transaction queue
+   * A trailing overrides object is read for `value` only; nonce and fees are assigned by the queue.
+   */
+  protected encodeCall(method: string, ...args: any[]): QueuedCall {
+    const last = args[args.length - 1];
+    const hasOverrides = last !== null && typeof last === 'object' && !Array.isArray(last) && 'value' in last;
+    const callArgs = hasOverrides ? args.slice(0, -1) : args;
+
+    return {
+      method,
+      to: this.contract.target as string,
+      data: this.contract.interface.encodeFunctionData(method, callArgs),
+      value: hasOverrides ? BigInt(last.value).toString() : undefined
+    };
+  }
+
+  /**
+   * Queue one or more calls to be signed and mined in order by the current signer
+   */
+  protected async submit(kind: string, calls: QueuedCall[]): Promise<QueuedTransaction> {
     try {
-      const tx = await (this.contract as any)[method](...args);
-      logger.info(`Transaction ${method} executed: ${tx.hash}`);
-      return tx;
+      const queued = await transactionQueueService.enqueue({
+        kind,
+        chainId: this.providerConfig.chainId,
+        signer: this.signerRef,
+        calls,
+        context: this.jobOptions.context,
+        requestedBy: this.jobOptions.requestedBy
+      });
+      logger.info(`Transaction ${kind} queued as job ${queued.jobId}`);
+      return queued;
     } catch (error: any) {
-      logger.error(`Transaction ${method} failed: ${error.message}`);
+      logger.error(`Queueing ${kind} failed: ${error.message}`);
       throw error;
     }
   }
 
+  protected async executeTransaction(method: string, ...args: any[]): Promise<QueuedTransaction> {
+    return this.submit(method, [this.encodeCall(method, ...args)]);
+  }
+
   protected async executeView(method: string, ...args: any[]): Promise<any> {
     try {
       const result = await (this.contract as any)[method](...args);
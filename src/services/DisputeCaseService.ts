@@ -0,0 +1,780 @@
+import mongoose from 'mongoose';
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { Dispute, IDispute, IDisputePayout, DisputeStatus, DisputeParty } from '../models/Dispute';
+import { Transaction, ITransaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { UserRole } from '../types';
+import { NetworkKey } from '../config/networks';
+import { networkRegistry } from './NetworkRegistry';
+import { assertTransition, statusAfterDecision } from './EscrowStateMachine';
+import { transactionQueueService } from './TransactionQueueService';
+import { transcriptService } from './TranscriptService';
+import { getWebSocketService } from './websocket';
+
+export interface OpenDisputeRequest {
+  network: NetworkKey;
+  escrowId: string;
+  // Email or wallet address of the party that filed it
+  openedBy: string;
+  reason: string;
+  evidence?: string[];
+}
+
+export interface DisputeDecision {
+  sellerShareBps: number;
+  summary: string;
+}
+
+export interface DisputeCaseStatus {
+  running: boolean;
+  lastRunAt?: Date;
+  lastError?: string;
+}
+
+/**
+ * Allowed moves between case statuses
+ * resolved only leads to appealed: executing the decision on-chain does not change the case status.
+ */
+const TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  opened: ['awaiting_response', 'under_review'],
+  awaiting_response: ['awaiting_response', 'under_review', 'resolved'],
+  under_review: ['awaiting_response', 'resolved'],
+  resolved: ['appealed'],
+  appealed: ['awaiting_response', 'under_review', 'resolved']
+};
+
+const DECIDABLE_STATUSES: DisputeStatus[] = ['awaiting_response', 'under_review', 'appealed'];
+const BPS = 10000n;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_EXECUTION_ATTEMPTS = 3;
+
+const IERC20 = new ethers.Interface([
+  'function transfer(address to, uint256 amount) external returns (bool)'
+]);
+
+const counterpartyOf = (party: DisputeParty): DisputeParty => party === 'buyer' ? 'seller' : 'buyer';
+
+/**
+ * Off-chain dispute cases: arbitrator assignment, response deadlines, the discussion thread,
+ * and a decision that is executed through DisputeService.resolveDispute once its appeal window closes.
+ * DisputeResolution pays the whole escrow to a single address, so a split is awarded to the platform wallet,
+ * which then transfers each party's share and records the transfers as the decision's payouts.
+ */
+class DisputeCaseService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRunAt?: Date;
+  private lastError?: string;
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info(`Dispute case sweep started (every ${config.blockchain.disputeSweepSeconds}s)`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): DisputeCaseStatus {
+    return {
+      running: this.running,
+      lastRunAt: this.lastRunAt,
+      lastError: this.lastError
+    };
+  }
+
+  async getCase(network: NetworkKey, escrowId: string): Promise<IDispute> {
+    const dispute = await Dispute.findOne({ network, escrowId });
+    if (!dispute) {
+      throw Object.assign(new Error('No dispute has been opened for this escrow'), { statusCode: 404 });
+    }
+    return dispute;
+  }
+
+  /**
+   * Open the case for a dispute filed on-chain; re-running for the same escrow returns the existing case
+   */
+  async open(request: OpenDisputeRequest): Promise<IDispute | null> {
+    const { network, escrowId } = request;
+    const transaction = await Transaction.findOne({ network, escrowId });
+    if (!transaction) {
+      logger.warn(`Dispute on escrow ${escrowId} (${network}) has no Transaction record; no case opened`);
+      return null;
+    }
+
+    const openedByRole = this.partyOf(transaction, request.openedBy);
+    if (!openedByRole) {
+      logger.warn(`Dispute on escrow ${escrowId} (${network}) was filed by ${request.openedBy}, who is not a party; no case opened`);
+      return null;
+    }
+    const openedBy = openedByRole === 'buyer' ? transaction.buyerEmail : transaction.sellerEmail;
+
+    const result = await Dispute.findOneAndUpdate(
+      { network, escrowId },
+      {
+        $setOnInsert: {
+          transactionId: transaction.transactionId,
+          buyerEmail: transaction.buyerEmail,
+          sellerEmail: transaction.sellerEmail,
+          openedBy,
+          openedByRole,
+          reason: request.reason,
+          evidence: request.evidence || [],
+          status: 'opened',
+          history: [{ status: 'opened', description: `Dispute opened by the ${openedByRole}: ${request.reason}`, actor: openedBy }]
+        }
+      },
+      { upsert: true, new: true, includeResultMetadata: true }
+    );
+    const dispute = result.value!;
+
+    if (result.lastErrorObject?.updatedExisting) {
+      return dispute;
+    }
+
+    await Transaction.updateOne(
+      { _id: transaction._id, 'dispute.createdAt': null },
+      { $set: { dispute: { reason: request.reason, evidence: request.evidence || [], createdAt: new Date() } } }
+    );
+
+    logger.info(`Dispute case opened for escrow ${escrowId} (${network}) by ${openedBy}`);
+
+    // The case stands without a transcript; the arbitrator sees it is missing
+    try {
+      await transcriptService.snapshot(dispute, transaction);
+    } catch (error) {
+      logger.error(`Could not capture the transcript for escrow ${escrowId} (${network}):`, error);
+    }
+
+    this.notify(dispute, 'dispute:opened');
+    return this.assignFromPool((await Dispute.findById(dispute._id)) || dispute);
+  }
+
+  /**
+   * Assign a specific arbitrator, replacing whoever held the case
+   */
+  async reassign(dispute: IDispute, arbitrator: string, actor: string): Promise<IDispute> {
+    if (dispute.status === 'resolved') {
+      throw Object.assign(new Error('A decided dispute can only be reassigned through an appeal'), { statusCode: 409 });
+    }
+
+    const user = await User.findOne({ email: arbitrator, roles: UserRole.ARBITRATOR });
+    if (!user) {
+      throw Object.assign(new Error(`${arbitrator} is not an arbitrator`), { statusCode: 400 });
+    }
+    if ([dispute.buyerEmail, dispute.sellerEmail].includes(user.email)) {
+      throw Object.assign(new Error('A party to the escrow cannot arbitrate it'), { statusCode: 400 });
+    }
+
+    return this.assign(dispute, user.email, actor);
+  }
+
+  /**
+   * Add a message to the case thread
+   * The party the arbitrator is waiting on answering moves the case back under review.
+   */
+  async postMessage(
+    dispute: IDispute,
+    author: { email: string; role: DisputeParty | 'arbitrator' },
+    body: string,
+    parentId?: string
+  ): Promise<IDispute> {
+    if (dispute.status === 'resolved') {
+      throw Object.assign(new Error('This dispute has been decided; file an appeal to reopen it'), { statusCode: 409 });
+    }
+    if (parentId && !dispute.messages.some(message => message._id.toString() === parentId)) {
+      throw Object.assign(new Error('The message being replied to does not exist'), { statusCode: 404 });
+    }
+
+    const message = {
+      _id: new mongoose.Types.ObjectId(),
+      author: author.email,
+      role: author.role,
+      body,
+      parentId: parentId ? new mongoose.Types.ObjectId(parentId) : undefined,
+      createdAt: new Date()
+    };
+
+    let updated: IDispute | null;
+    if (dispute.status === 'awaiting_response' && dispute.awaitingResponseFrom === author.role) {
+      updated = await this.move(dispute, 'under_review', {
+        actor: author.email,
+        description: `The ${author.role} responded`,
+        push: { messages: message },
+        unset: ['awaitingResponseFrom', 'responseDueAt']
+      });
+    } else {
+      updated = await Dispute.findOneAndUpdate(
+        { _id: dispute._id, status: { $ne: 'resolved' } },
+        { $push: { messages: message } },
+        { new: true }
+      );
+      if (!updated) {
+        throw Object.assign(new Error('This dispute has been decided; file an appeal to reopen it'), { statusCode: 409 });
+      }
+    }
+
+    this.notify(updated, 'dispute:message', { messageId: message._id, author: author.email, role: author.role });
+    return updated;
+  }
+
+  /**
+   * Arbitrator asks one party for a response by a deadline; an unanswered request lapses back to review
+   */
+  async requestResponse(dispute: IDispute, arbitrator: string, party: DisputeParty, note: string, hours?: number): Promise<IDispute> {
+    this.assertArbitrator(dispute, arbitrator);
+
+    const responseDueAt = new Date(Date.now() + (hours ?? config.blockchain.disputeResponseHours) * HOUR_MS);
+    const updated = await this.move(dispute, 'awaiting_response', {
+      actor: arbitrator,
+      description: `Response requested from the ${party} by ${responseDueAt.toISOString()}`,
+      set: { awaitingResponseFrom: party, responseDueAt },
+      push: {
+        messages: {
+          _id: new mongoose.Types.ObjectId(),
+          author: arbitrator,
+          role: 'arbitrator',
+          body: note,
+          createdAt: new Date()
+        }
+      }
+    });
+
+    this.notify(updated, 'dispute:response_requested', { party, responseDueAt });
+    return updated;
+  }
+
+  /**
+   * Record the arbitrator's decision
+   * A first decision waits out the appeal window before it is executed; a decision on appeal is final.
+   */
+  async decide(dispute: IDispute, arbitrator: string, decision: DisputeDecision): Promise<IDispute> {
+    this.assertArbitrator(dispute, arbitrator);
+    if (!DECIDABLE_STATUSES.includes(dispute.status)) {
+      throw Object.assign(new Error(`A ${dispute.status} dispute cannot be decided`), { statusCode: 409 });
+    }
+
+    const transaction = await Transaction.findOne({ network: dispute.network, escrowId: dispute.escrowId });
+    if (!transaction || transaction.status !== 'disputed') {
+      throw Object.assign(new Error('The escrow is not disputed on-chain yet'), { statusCode: 409 });
+    }
+
+    const shareBps = BigInt(decision.sellerShareBps);
+    const remaining = this.remainingAmount(transaction);
+    const sellerAmount = remaining * shareBps / BPS;
+    const buyerAmount = remaining - sellerAmount;
+    const split = sellerAmount > 0n && buyerAmount > 0n;
+
+    const paid: DisputeParty[] = split ? ['seller', 'buyer'] : [sellerAmount > 0n ? 'seller' : 'buyer'];
+    for (const party of paid) {
+      if (!(party === 'seller' ? transaction.sellerAddress : transaction.buyerAddress)) {
+        throw Object.assign(new Error(`The ${party}'s wallet address is not recorded for this escrow`), { statusCode: 409 });
+      }
+    }
+    assertTransition(transaction.status, statusAfterDecision(decision.sellerShareBps), 'arbitrator');
+
+    const winner = split ? undefined : paid[0];
+    const winnerAddress = split
+      ? networkRegistry.get(dispute.network).disputeService.getSignerAddress().toLowerCase()
+      : (winner === 'seller' ? transaction.sellerAddress : transaction.buyerAddress)!;
+    const payouts: IDisputePayout[] | undefined = split
+      ? [
+          { party: 'seller', address: transaction.sellerAddress!, amount: sellerAmount.toString(), status: 'pending', attempts: 0 },
+          { party: 'buyer', address: transaction.buyerAddress!, amount: buyerAmount.toString(), status: 'pending', attempts: 0 }
+        ]
+      : undefined;
+
+    const final = dispute.status === 'appealed';
+    const executeAfter = new Date(Date.now() + (final ? 0 : config.blockchain.disputeAppealHours * HOUR_MS));
+
+    const updated = await this.move(dispute, 'resolved', {
+      actor: arbitrator,
+      description: `Decided ${decision.sellerShareBps / 100}% to the seller${final ? ' on appeal' : ''}: ${decision.summary}`,
+      set: {
+        resolution: {
+          sellerShareBps: decision.sellerShareBps,
+          sellerAmount: sellerAmount.toString(),
+          buyerAmount: buyerAmount.toString(),
+          winner,
+          winnerAddress,
+          payouts,
+          summary: decision.summary,
+          decidedBy: arbitrator,
+          decidedAt: new Date(),
+          final,
+          executeAfter,
+          status: 'pending',
+          attempts: 0
+        }
+      },
+      unset: ['awaitingResponseFrom', 'responseDueAt']
+    });
+
+    this.notify(updated, 'dispute:decided', {
+      sellerShareBps: decision.sellerShareBps,
+      final,
+      executeAfter
+    });
+
+    return final ? this.execute(updated) : updated;
+  }
+
+  /**
+   * Either party may appeal a first decision once, before it is executed; a different arbitrator takes the case
+   */
+  async appeal(dispute: IDispute, party: { email: string; role: DisputeParty }, reason: string): Promise<IDispute> {
+    const { resolution } = dispute;
+    if (dispute.status !== 'resolved' || !resolution || resolution.final || dispute.appeal?.filedAt) {
+      throw Object.assign(new Error('Only a first decision can be appealed'), { statusCode: 409 });
+    }
+    if (resolution.status !== 'pending' || resolution.executeAfter.getTime() <= Date.now()) {
+      throw Object.assign(new Error('The appeal window for this decision has closed'), { statusCode: 409 });
+    }
+
+    const updated = await this.move(dispute, 'appealed', {
+      actor: party.email,
+      description: `Decision appealed by the ${party.role}: ${reason}`,
+      set: {
+        appeal: {
+          by: party.email,
+          role: party.role,
+          reason,
+          previousArbitrator: dispute.arbitrator,
+          filedAt: new Date()
+        }
+      },
+      // Cleared in the same update as the status so the sweep cannot execute the appealed decision
+      unset: ['resolution', 'arbitrator', 'assignedAt'],
+      where: { 'resolution.status': 'pending' }
+    });
+
+    this.notify(updated, 'dispute:appealed', { by: party.role });
+    return this.assignFromPool(updated);
+  }
+
+  /**
+   * resolveDispute was mined: record the outcome on the case and pay out a split; the handler records it on the Transaction
+   */
+  async markExecuted(network: string, escrowId: string, transactionHash: string): Promise<IDispute | null> {
+    const dispute = await Dispute.findOneAndUpdate(
+      { network, escrowId, status: 'resolved', 'resolution.status': { $ne: 'confirmed' } },
+      {
+        $set: {
+          'resolution.status': 'confirmed',
+          'resolution.transactionHash': transactionHash,
+          'resolution.executedAt': new Date()
+        },
+        $unset: { 'resolution.failureReason': '' },
+        $push: {
+          history: {
+            status: 'resolved',
+            previousStatus: 'resolved',
+            description: `Decision executed on-chain (${transactionHash})`,
+            actor: 'system'
+          }
+        }
+      },
+      { new: true }
+    );
+
+    if (dispute) {
+      this.notify(dispute, 'dispute:executed', { transactionHash });
+    }
+
+    // Also reached when the indexer recorded the execution first; payOut skips legs already queued
+    const executed = dispute || await Dispute.findOne({ network, escrowId, 'resolution.status': 'confirmed' });
+    return executed ? this.payOut(executed) : null;
+  }
+
+  /**
+   * A split's transfer to one party was mined
+   */
+  async markPayoutConfirmed(network: string, escrowId: string, party: DisputeParty, transactionHash: string): Promise<void> {
+    const dispute = await Dispute.findOneAndUpdate(
+      { network, escrowId, 'resolution.payouts': { $elemMatch: { party, status: { $ne: 'confirmed' } } } },
+      {
+        $set: {
+          'resolution.payouts.$.status': 'confirmed',
+          'resolution.payouts.$.transactionHash': transactionHash,
+          'resolution.payouts.$.paidAt': new Date()
+        },
+        $unset: { 'resolution.payouts.$.failureReason': '' },
+        $push: {
+          history: {
+            status: 'resolved',
+            previousStatus: 'resolved',
+            description: `The ${party}'s share was paid out (${transactionHash})`,
+            actor: 'system'
+          }
+        }
+      },
+      { new: true }
+    );
+
+    if (dispute) {
+      this.notify(dispute, 'dispute:payout', { party, transactionHash });
+    }
+  }
+
+  /**
+   * A split's transfer failed; the sweep retries it until MAX_EXECUTION_ATTEMPTS
+   */
+  async markPayoutFailed(network: string, escrowId: string, party: DisputeParty, reason: string): Promise<void> {
+    const dispute = await Dispute.findOneAndUpdate(
+      { network, escrowId, 'resolution.payouts': { $elemMatch: { party, status: 'queued' } } },
+      {
+        $inc: { 'resolution.payouts.$.attempts': 1 },
+        $set: { 'resolution.payouts.$.status': 'pending', 'resolution.payouts.$.failureReason': reason },
+        $unset: { 'resolution.payouts.$.jobId': '' }
+      },
+      { new: true }
+    );
+
+    const payout = dispute?.resolution?.payouts?.find(leg => leg.party === party);
+    if (dispute && payout && payout.attempts >= MAX_EXECUTION_ATTEMPTS) {
+      await Dispute.updateOne(
+        { _id: dispute._id, 'resolution.payouts': { $elemMatch: { party, status: 'pending' } } },
+        { $set: { 'resolution.payouts.$.status': 'failed' } }
+      );
+      logger.error(`Giving up on paying the ${party}'s share of escrow ${escrowId} on ${network}: ${reason}`);
+    } else {
+      logger.warn(`Paying the ${party}'s share of escrow ${escrowId} on ${network} failed: ${reason}`);
+    }
+  }
+
+  /**
+   * A queued resolveDispute failed; the sweep retries it until MAX_EXECUTION_ATTEMPTS
+   */
+  async markExecutionFailed(network: string, escrowId: string, reason: string): Promise<void> {
+    const dispute = await Dispute.findOneAndUpdate(
+      { network, escrowId, 'resolution.status': 'queued' },
+      {
+        $inc: { 'resolution.attempts': 1 },
+        $set: { 'resolution.status': 'pending', 'resolution.failureReason': reason },
+        $unset: { 'resolution.jobId': '' }
+      },
+      { new: true }
+    );
+
+    if (dispute && dispute.resolution!.attempts >= MAX_EXECUTION_ATTEMPTS) {
+      await Dispute.updateOne({ _id: dispute._id }, { $set: { 'resolution.status': 'failed' } });
+      logger.error(`Giving up on executing the decision for escrow ${escrowId} on ${network}: ${reason}`);
+    } else {
+      logger.warn(`Executing the decision for escrow ${escrowId} on ${network} failed: ${reason}`);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      await this.sweep();
+      this.lastError = undefined;
+    } catch (error: any) {
+      this.lastError = error.message;
+      logger.error('Dispute case sweep failed:', error);
+    }
+
+    this.lastRunAt = new Date();
+    this.schedule(config.blockchain.disputeSweepSeconds * 1000);
+  }
+
+  /**
+   * Assign arbitrators to waiting cases, lapse missed response deadlines and execute decisions past their appeal window
+   */
+  private async sweep(): Promise<void> {
+    const now = new Date();
+
+    const unassigned = await Dispute.find({ status: { $in: ['opened', 'appealed'] }, arbitrator: null });
+    for (const dispute of unassigned) {
+      await this.assignFromPool(dispute);
+    }
+
+    const overdue = await Dispute.find({ status: 'awaiting_response', responseDueAt: { $lte: now } });
+    for (const dispute of overdue) {
+      try {
+        await this.move(dispute, 'under_review', {
+          actor: 'system',
+          description: `The ${dispute.awaitingResponseFrom} did not respond by the deadline`,
+          unset: ['awaitingResponseFrom', 'responseDueAt']
+        });
+      } catch (error: any) {
+        logger.warn(`Could not lapse the response deadline on escrow ${dispute.escrowId}:`, error.message);
+      }
+    }
+
+    const executable = await Dispute.find({
+      status: 'resolved',
+      'resolution.status': 'pending',
+      'resolution.executeAfter': { $lte: now }
+    });
+    for (const dispute of executable) {
+      await this.execute(dispute);
+    }
+
+    const unpaid = await Dispute.find({
+      'resolution.status': 'confirmed',
+      'resolution.payouts.status': 'pending'
+    });
+    for (const dispute of unpaid) {
+      await this.payOut(dispute);
+    }
+  }
+
+  /**
+   * Queue resolveDispute in favour of the decision's winner (the platform wallet for a split), signed with the platform key
+   */
+  private async execute(dispute: IDispute): Promise<IDispute> {
+    const claimed = await Dispute.findOneAndUpdate(
+      { _id: dispute._id, status: 'resolved', 'resolution.status': 'pending' },
+      { $set: { 'resolution.status': 'queued' } },
+      { new: true }
+    );
+    if (!claimed) {
+      return dispute;
+    }
+
+    const resolution = claimed.resolution!;
+    try {
+      const job = await networkRegistry.get(claimed.network).disputeService
+        .withJob({
+          context: {
+            escrowId: claimed.escrowId,
+            arbitrator: resolution.decidedBy,
+            sellerShareBps: resolution.sellerShareBps,
+            summary: resolution.summary
+          },
+          requestedBy: resolution.decidedBy
+        })
+        .resolveDispute(claimed.escrowId, resolution.winnerAddress);
+
+      const queued = await Dispute.findOneAndUpdate(
+        { _id: claimed._id },
+        { $set: { 'resolution.jobId': job.jobId } },
+        { new: true }
+      );
+      logger.info(`Decision for escrow ${claimed.escrowId} (${claimed.network}) queued as job ${job.jobId}`);
+      return queued!;
+    } catch (error: any) {
+      await this.markExecutionFailed(claimed.network, claimed.escrowId, error.message);
+      return (await Dispute.findById(claimed._id))!;
+    }
+  }
+
+  /**
+   * Queue the platform's transfer of each pending share of an executed split, one job per party
+   * Each leg is claimed before it is queued, so a re-run handler or the sweep cannot pay a party twice.
+   */
+  private async payOut(dispute: IDispute): Promise<IDispute> {
+    const pending = (dispute.resolution?.payouts || []).filter(payout => payout.status === 'pending');
+    if (pending.length === 0) {
+      return dispute;
+    }
+
+    const transaction = await Transaction.findOne({ network: dispute.network, escrowId: dispute.escrowId });
+    if (!transaction) {
+      logger.error(`Escrow ${dispute.escrowId} (${dispute.network}) has no Transaction record; its split cannot be paid out`);
+      return dispute;
+    }
+    const { network } = networkRegistry.get(dispute.network);
+
+    for (const payout of pending) {
+      const claimed = await Dispute.findOneAndUpdate(
+        { _id: dispute._id, 'resolution.payouts': { $elemMatch: { party: payout.party, status: 'pending' } } },
+        { $set: { 'resolution.payouts.$.status': 'queued' } }
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      const call = transaction.tokenAddress === ethers.ZeroAddress
+        ? { method: 'transfer', to: payout.address, data: '0x', value: payout.amount }
+        : { method: 'transfer', to: transaction.tokenAddress, data: IERC20.encodeFunctionData('transfer', [payout.address, payout.amount]) };
+
+      try {
+        const job = await transactionQueueService.enqueue({
+          kind: 'disputePayout',
+          chainId: network.chainId,
+          signer: { type: 'platform' },
+          calls: [call],
+          context: { escrowId: dispute.escrowId, party: payout.party },
+          requestedBy: dispute.resolution!.decidedBy
+        });
+        await Dispute.updateOne(
+          { _id: dispute._id, 'resolution.payouts.party': payout.party },
+          { $set: { 'resolution.payouts.$.jobId': job.jobId } }
+        );
+        logger.info(`The ${payout.party}'s share of escrow ${dispute.escrowId} (${dispute.network}) queued as job ${job.jobId}`);
+      } catch (error: any) {
+        await this.markPayoutFailed(dispute.network, dispute.escrowId, payout.party, error.message);
+      }
+    }
+
+    return (await Dispute.findById(dispute._id))!;
+  }
+
+  /**
+   * Give the case to the pool arbitrator with the fewest undecided cases
+   * Parties and, on appeal, the arbitrator who made the first decision are never picked.
+   */
+  private async assignFromPool(dispute: IDispute): Promise<IDispute> {
+    const excluded = [dispute.buyerEmail, dispute.sellerEmail, dispute.appeal?.previousArbitrator].filter(Boolean);
+    const candidates = await User.find({ roles: UserRole.ARBITRATOR, email: { $nin: excluded } }).select('email');
+
+    if (candidates.length === 0) {
+      logger.warn(`No arbitrator available for the dispute on escrow ${dispute.escrowId} (${dispute.network})`);
+      return dispute;
+    }
+
+    const loads = await Dispute.aggregate<{ _id: string; count: number }>([
+      { $match: { arbitrator: { $in: candidates.map(candidate => candidate.email) }, status: { $ne: 'resolved' } } },
+      { $group: { _id: '$arbitrator', count: { $sum: 1 } } }
+    ]);
+    const loadOf = (email: string) => loads.find(load => load._id === email)?.count || 0;
+    const [arbitrator] = candidates
+      .map(candidate => candidate.email)
+      .sort((a, b) => loadOf(a) - loadOf(b));
+
+    try {
+      return await this.assign(dispute, arbitrator, 'system');
+    } catch (error: any) {
+      logger.warn(`Could not assign ${arbitrator} to the dispute on escrow ${dispute.escrowId}:`, error.message);
+      return dispute;
+    }
+  }
+
+  /**
+   * A newly opened case goes straight to the other party for their side of the story
+   */
+  private async assign(dispute: IDispute, arbitrator: string, actor: string): Promise<IDispute> {
+    const set = { arbitrator, assignedAt: new Date() };
+    let updated: IDispute | null;
+
+    if (dispute.status === 'opened') {
+      const party = counterpartyOf(dispute.openedByRole);
+      const responseDueAt = new Date(Date.now() + config.blockchain.disputeResponseHours * HOUR_MS);
+      updated = await this.move(dispute, 'awaiting_response', {
+        actor,
+        description: `Assigned to ${arbitrator}; response requested from the ${party}`,
+        set: { ...set, awaitingResponseFrom: party, responseDueAt }
+      });
+    } else {
+      updated = await Dispute.findOneAndUpdate(
+        { _id: dispute._id, status: dispute.status },
+        {
+          $set: set,
+          $push: {
+            history: {
+              status: dispute.status,
+              previousStatus: dispute.status,
+              description: `Assigned to ${arbitrator}`,
+              actor
+            }
+          }
+        },
+        { new: true }
+      );
+      if (!updated) {
+        throw Object.assign(new Error('Dispute changed concurrently; retry'), { statusCode: 409 });
+      }
+    }
+
+    logger.info(`Dispute on escrow ${dispute.escrowId} (${dispute.network}) assigned to ${arbitrator}`);
+    getWebSocketService()?.notifyUser(arbitrator, 'dispute:assigned', {
+      network: updated.network,
+      escrowId: updated.escrowId
+    });
+    this.notify(updated, 'dispute:updated');
+    return updated;
+  }
+
+  /**
+   * Compare-and-set on the case status with a history entry, like EscrowStateMachine.transition
+   */
+  private async move(
+    dispute: IDispute,
+    to: DisputeStatus,
+    options: {
+      actor: string;
+      description: string;
+      set?: Record<string, any>;
+      unset?: string[];
+      push?: Record<string, any>;
+      where?: Record<string, any>;
+    }
+  ): Promise<IDispute> {
+    const from = dispute.status;
+    if (!TRANSITIONS[from].includes(to)) {
+      throw Object.assign(new Error(`Dispute cannot move from ${from} to ${to}`), { statusCode: 409 });
+    }
+
+    const updated = await Dispute.findOneAndUpdate(
+      { _id: dispute._id, status: from, ...options.where },
+      {
+        $set: { status: to, ...options.set },
+        ...(options.unset && { $unset: Object.fromEntries(options.unset.map(path => [path, ''])) }),
+        $push: {
+          ...options.push,
+          history: { status: to, previousStatus: from, description: options.description, actor: options.actor }
+        }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      throw Object.assign(new Error('Dispute changed concurrently; retry'), { statusCode: 409 });
+    }
+
+    logger.info(`Dispute on escrow ${dispute.escrowId} (${dispute.network}) ${from} -> ${to} by ${options.actor}`);
+    return updated;
+  }
+
+  private assertArbitrator(dispute: IDispute, email: string): void {
+    if (dispute.arbitrator !== email) {
+      throw Object.assign(new Error('Only the arbitrator assigned to this dispute can do that'), { statusCode: 403 });
+    }
+  }
+
+  private partyOf(transaction: ITransaction, emailOrAddress: string): DisputeParty | null {
+    const id = emailOrAddress.toLowerCase();
+    if (id === transaction.buyerEmail || id === transaction.buyerAddress) return 'buyer';
+    if (id === transaction.sellerEmail || id === transaction.sellerAddress) return 'seller';
+    return null;
+  }
+
+  // What the contract still holds: the escrow amount less released milestones
+  private remainingAmount(transaction: ITransaction): bigint {
+    const released = (transaction.metadata?.milestones || [])
+      .filter(milestone => milestone.completed)
+      .reduce((sum, milestone) => sum + BigInt(milestone.amount), 0n);
+    return BigInt(transaction.amount) - released;
+  }
+
+  private notify(dispute: IDispute, event: string, data: Record<string, any> = {}): void {
+    const recipients = [dispute.buyerEmail, dispute.sellerEmail, dispute.arbitrator].filter(Boolean) as string[];
+    getWebSocketService()?.notifyUsers(recipients, event, {
+      network: dispute.network,
+      escrowId: dispute.escrowId,
+      status: dispute.status,
+      ...data
+    });
+  }
+}
+
+export const disputeCaseService = new DisputeCaseService();
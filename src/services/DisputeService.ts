@@ -1,37 +1,54 @@
 import { BlockchainService, ProviderConfig } from './BlockchainService';
+import { TokenService } from './TokenService';
 import { ethers } from 'ethers';
 
+/**
+ * DisputeResolution keys disputes by the escrow manager's uint256 id, left-padded to bytes32
+ * Callers pass the same decimal escrow id they use with EscrowService.
+ */
+export const toDisputeKey = (escrowId: string | number): string =>
+  ethers.zeroPadValue(ethers.toBeHex(BigInt(escrowId)), 32);
+
 export class DisputeService extends BlockchainService {
-  constructor(providerConfig: ProviderConfig, privateKey: string, disputeResolutionAddress: string) {
+  constructor(
+    providerConfig: ProviderConfig,
+    privateKey: string,
+    disputeResolutionAddress: string,
+    private tokenService: TokenService
+  ) {
     const disputeResolutionABI = [
       "function openDispute(bytes32 _escrowId, string calldata _evidence) external",
       "function addEvidence(bytes32 _escrowId, string calldata _evidence) external",
       "function resolveDispute(bytes32 _escrowId, address _winner) external",
-      "function disputes(bytes32) external view returns (bytes32 escrowId, address buyer, address seller, uint256 amount, address token, uint8 status, string buyerEvidence, string sellerEvidence)"
+      "function disputes(bytes32) external view returns (bytes32 escrowId, address buyer, address seller, uint256 amount, address token, uint8 status, string buyerEvidence, string sellerEvidence)",
+      "event DisputeOpened(bytes32 indexed escrowId, address indexed opener)",
+      "event EvidenceAdded(bytes32 indexed escrowId, address indexed submitter)",
+      "event DisputeResolved(bytes32 indexed escrowId, address indexed winner)"
     ];
     
     super(providerConfig, privateKey, disputeResolutionAddress, disputeResolutionABI);
   }
 
-  async openDispute(escrowId: string, evidence: string): Promise<any> {
-    return this.executeTransaction('openDispute', escrowId, evidence);
+  async openDispute(escrowId: string | number, evidence: string): Promise<any> {
+    return this.executeTransaction('openDispute', toDisputeKey(escrowId), evidence);
   }
 
-  async addEvidence(escrowId: string, evidence: string): Promise<any> {
-    return this.executeTransaction('addEvidence', escrowId, evidence);
+  async addEvidence(escrowId: string | number, evidence: string): Promise<any> {
+    return this.executeTransaction('addEvidence', toDisputeKey(escrowId), evidence);
   }
 
-  async resolveDispute(escrowId: string, winnerAddress: string): Promise<any> {
-    return this.executeTransaction('resolveDispute', escrowId, winnerAddress);
+  async resolveDispute(escrowId: string | number, winnerAddress: string): Promise<any> {
+    return this.executeTransaction('resolveDispute', toDisputeKey(escrowId), winnerAddress);
   }
 
-  async getDispute(escrowId: string): Promise<any> {
-    const dispute = await this.executeView('disputes', escrowId);
+  async getDispute(escrowId: string | number): Promise<any> {
+    const dispute = await this.executeView('disputes', toDisputeKey(escrowId));
     return {
-      escrowId: dispute.escrowId,
+      escrowId: BigInt(dispute.escrowId).toString(),
       buyer: dispute.buyer,
       seller: dispute.seller,
-      amount: ethers.formatEther(dispute.amount),
+      amount: this.tokenService.formatAmount(dispute.token, dispute.amount),
+      amountBaseUnits: dispute.amount.toString(),
       token: dispute.token,
       status: Number(dispute.status),
       buyerEvidence: dispute.buyerEvidence,
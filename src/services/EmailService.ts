@@ -46,16 +46,6 @@ class EmailService {
   }
 
   async sendWaitlistConfirmation(email: string, name?: string): Promise<boolean> {
-    if (!this.transporter) {
-      logger.warn('Email service not configured - SMTP settings missing', { email });
-      return false;
-    }
-
-    if (!this.fromAddress) {
-      logger.warn('Email from address not configured', { email });
-      return false;
-    }
-
     const subject = 'Welcome to Synkio';
     const displayName = name || 'there';
     const greeting = name ? `Welcome, ${displayName}! 👋` : 'Welcome! 👋';
@@ -154,6 +144,247 @@ You're receiving this because you signed up for our waitlist.`;
 </body>
 </html>`;
 
+    return this.deliver('waitlist confirmation', email, subject, text, html);
+  }
+
+  async sendEmailVerification(email: string, verificationUrl: string, name?: string): Promise<boolean> {
+    const subject = 'Verify your Synkio email';
+    const greeting = name ? `Hi ${name},` : 'Hi there,';
+    const expiresIn = `${config.auth.emailVerificationTtlHours} hours`;
+
+    const text = `${greeting}
+
+Please confirm that ${email} is your email address by opening the link below:
+
+${verificationUrl}
+
+This link expires in ${expiresIn} and can only be used once.
+
+If you didn't create a Synkio account, you can ignore this email.
+
+© 2025 Synkio. All rights reserved.`;
+
+    const html = this.renderTemplate({
+      title: subject,
+      heading: greeting,
+      paragraphs: [
+        `Please confirm that <strong>${email}</strong> is your email address.`,
+        `This link expires in ${expiresIn} and can only be used once.`
+      ],
+      action: { label: 'Verify email', url: verificationUrl },
+      footnote: "If you didn't create a Synkio account, you can ignore this email."
+    });
+
+    return this.deliver('email verification', email, subject, text, html);
+  }
+
+  async sendPasswordReset(email: string, resetUrl: string, name?: string): Promise<boolean> {
+    const subject = 'Reset your Synkio password';
+    const greeting = name ? `Hi ${name},` : 'Hi there,';
+    const expiresIn = `${config.auth.passwordResetTtlMinutes} minutes`;
+
+    const text = `${greeting}
+
+We received a request to reset the password for your Synkio account. Open the link below to choose a new one:
+
+${resetUrl}
+
+This link expires in ${expiresIn} and can only be used once. Resetting your password signs you out of every device.
+
+If you didn't request a reset, you can ignore this email - your password will stay the same.
+
+© 2025 Synkio. All rights reserved.`;
+
+    const html = this.renderTemplate({
+      title: subject,
+      heading: greeting,
+      paragraphs: [
+        'We received a request to reset the password for your Synkio account.',
+        `This link expires in ${expiresIn} and can only be used once. Resetting your password signs you out of every device.`
+      ],
+      action: { label: 'Reset password', url: resetUrl },
+      footnote: "If you didn't request a reset, you can ignore this email - your password will stay the same."
+    });
+
+    return this.deliver('password reset', email, subject, text, html);
+  }
+
+  async sendPasswordChanged(email: string, name?: string): Promise<boolean> {
+    const subject = 'Your Synkio password was changed';
+    const greeting = name ? `Hi ${name},` : 'Hi there,';
+
+    const text = `${greeting}
+
+The password for your Synkio account was just changed and all of your sessions were signed out.
+
+If this wasn't you, reset your password immediately and contact support.
+
+© 2025 Synkio. All rights reserved.`;
+
+    const html = this.renderTemplate({
+      title: subject,
+      heading: greeting,
+      paragraphs: [
+        'The password for your Synkio account was just changed and all of your sessions were signed out.'
+      ],
+      footnote: "If this wasn't you, reset your password immediately and contact support."
+    });
+
+    return this.deliver('password changed notice', email, subject, text, html);
+  }
+
+  async sendEmailChanged(oldEmail: string, newEmail: string, name?: string): Promise<boolean> {
+    const subject = 'Your Synkio email address was changed';
+    const greeting = name ? `Hi ${name},` : 'Hi there,';
+
+    const text = `${greeting}
+
+The email address on your Synkio account was changed to ${newEmail} and all of your sessions were signed out.
+
+If this wasn't you, contact support immediately.
+
+© 2025 Synkio. All rights reserved.`;
+
+    const html = this.renderTemplate({
+      title: subject,
+      heading: greeting,
+      paragraphs: [
+        `The email address on your Synkio account was changed to ${newEmail} and all of your sessions were signed out.`
+      ],
+      footnote: "If this wasn't you, contact support immediately."
+    });
+
+    return this.deliver('email changed notice', oldEmail, subject, text, html);
+  }
+
+  async sendTwoFactorDisabled(email: string, name?: string): Promise<boolean> {
+    const subject = 'Two-factor authentication was turned off';
+    const greeting = name ? `Hi ${name},` : 'Hi there,';
+
+    const text = `${greeting}
+
+Two-factor authentication was just turned off for your Synkio account.
+
+If this wasn't you, reset your password immediately and contact support.
+
+© 2025 Synkio. All rights reserved.`;
+
+    const html = this.renderTemplate({
+      title: subject,
+      heading: greeting,
+      paragraphs: [
+        'Two-factor authentication was just turned off for your Synkio account.'
+      ],
+      footnote: "If this wasn't you, reset your password immediately and contact support."
+    });
+
+    return this.deliver('two-factor disabled notice', email, subject, text, html);
+  }
+
+  async sendEscrowDeadlineReminder(email: string, reminder: { title: string; deadline: Date; outcome: string }): Promise<boolean> {
+    const subject = `Escrow deadline: ${reminder.title}`;
+    const deadline = reminder.deadline.toUTCString();
+
+    const text = `Hi there,
+
+Your escrow "${reminder.title}" reaches its deadline on ${deadline}.
+
+${reminder.outcome}
+
+© 2025 Synkio. All rights reserved.`;
+
+    const html = this.renderTemplate({
+      title: subject,
+      heading: 'Hi there,',
+      paragraphs: [
+        `Your escrow "${reminder.title}" reaches its deadline on ${deadline}.`,
+        reminder.outcome
+      ]
+    });
+
+    return this.deliver('escrow deadline reminder', email, subject, text, html);
+  }
+
+  /**
+   * Render a transactional email in the Synkio layout
+   */
+  private renderTemplate(content: {
+    title: string;
+    heading: string;
+    paragraphs: string[];
+    action?: { label: string; url: string };
+    footnote?: string;
+  }): string {
+    const paragraphs = content.paragraphs
+      .map(paragraph => `<p style="margin: 0 0 20px; font-size: 16px; line-height: 1.6; color: #DFF5FF;">${paragraph}</p>`)
+      .join('\n              ');
+
+    const action = content.action
+      ? `<p style="margin: 30px 0; text-align: center;">
+                <a href="${content.action.url}" style="display: inline-block; padding: 14px 28px; background-color: #10B981; color: #101322; font-size: 16px; font-weight: 600; text-decoration: none; border-radius: 8px;">${content.action.label}</a>
+              </p>
+              <p style="margin: 0 0 20px; font-size: 12px; line-height: 1.6; color: #DFF5FF80; word-break: break-all;">${content.action.url}</p>`
+      : '';
+
+    const footnote = content.footnote
+      ? `<p style="margin: 20px 0 0; font-size: 14px; line-height: 1.6; color: #DFF5FF80;">${content.footnote}</p>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${content.title}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background-color: #101322; color: #ffffff;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #101322; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #1B1B1E; border-radius: 12px; overflow: hidden; border: 1px solid #DFF5FF20;">
+          <tr>
+            <td style="padding: 40px 40px 30px; text-align: center; background: linear-gradient(135deg, #101322 0%, #1B1B1E 100%);">
+              <h1 style="margin: 0; font-size: 36px; font-weight: bold; color: #DFF5FF; letter-spacing: -0.5px;">
+                Synkio
+              </h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px; font-size: 24px; font-weight: 600; color: #ffffff;">
+                ${content.heading}
+              </h2>
+              ${paragraphs}
+              ${action}
+              ${footnote}
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 30px 40px; text-align: center; background-color: #101322; border-top: 1px solid #DFF5FF10;">
+              <p style="margin: 0; font-size: 14px; color: #DFF5FF60;">
+                © 2025 Synkio. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+  }
+
+  private async deliver(kind: string, email: string, subject: string, text: string, html: string): Promise<boolean> {
+    if (!this.transporter) {
+      logger.warn('Email service not configured - SMTP settings missing', { email, kind });
+      return false;
+    }
+
+    if (!this.fromAddress) {
+      logger.warn('Email from address not configured', { email, kind });
+      return false;
+    }
+
     try {
       const info = await this.transporter.sendMail({
         from: this.fromAddress,
@@ -163,7 +394,7 @@ You're receiving this because you signed up for our waitlist.`;
         html
       });
 
-      logger.info('Sent waitlist confirmation email successfully', { 
+      logger.info(`Sent ${kind} email successfully`, { 
         email, 
         messageId: info.messageId,
         response: info.response 
@@ -189,7 +420,7 @@ You're receiving this because you signed up for our waitlist.`;
           hint: 'Enable 2FA and generate an App Password at https://myaccount.google.com/apppasswords'
         });
       } else {
-        logger.error('Error sending waitlist confirmation email', { 
+        logger.error(`Error sending ${kind} email`, { 
           email, 
           error: errorMessage,
           code: errorCode,
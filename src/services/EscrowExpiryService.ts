@@ -0,0 +1,329 @@
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { Transaction, ITransaction, EscrowStatus, ExpiryPolicy } from '../models/Transaction';
+import { networkRegistry, NetworkServices } from './NetworkRegistry';
+import { escrowStateMachine } from './EscrowStateMachine';
+import { emailService } from './EmailService';
+import { getWebSocketService } from './websocket';
+
+export interface ExpirySchedulerStatus {
+  running: boolean;
+  pollSeconds: number;
+  lastRunAt?: Date;
+  lastError?: string;
+}
+
+// Escrows the seller can still be paid from or the buyer refunded from before expiry
+const ACTIVE_STATUSES: EscrowStatus[] = ['pending', 'funded', 'in_progress', 'partially_released'];
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+type ExpiryAction = 'refund' | 'release';
+
+/**
+ * Acts on escrows past their on-chain expiresAt according to each escrow's expiry policy
+ * refund cancels the escrow back to the buyer straight away; auto_release gives the buyer an
+ * inspection window to dispute, then releases whatever is left to the seller. Both parties are
+ * reminded ahead of each deadline. Scheduled calls are signed with the platform key.
+ */
+class EscrowExpiryService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRunAt?: Date;
+  private lastError?: string;
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info(`Escrow expiry scheduler started (every ${config.blockchain.escrowSchedulerPollSeconds}s)`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): ExpirySchedulerStatus {
+    return {
+      running: this.running,
+      pollSeconds: config.blockchain.escrowSchedulerPollSeconds,
+      lastRunAt: this.lastRunAt,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Policy for a new escrow, falling back to the configured defaults
+   */
+  policyFor(policy?: ExpiryPolicy, inspectionHours?: number): { policy: ExpiryPolicy; inspectionHours: number } {
+    return {
+      policy: policy || (config.blockchain.escrowDefaultExpiryPolicy === 'auto_release' ? 'auto_release' : 'refund'),
+      inspectionHours: inspectionHours ?? config.blockchain.escrowInspectionHours
+    };
+  }
+
+  /**
+   * A scheduled refund or release failed to mine; the next pass retries until MAX_ATTEMPTS
+   */
+  async recordActionFailure(network: string, escrowId: string, reason: string): Promise<void> {
+    const transaction = await Transaction.findOneAndUpdate(
+      { network, escrowId },
+      {
+        $unset: { 'expiry.actionRequestedAt': '', 'expiry.actionJobId': '' },
+        $inc: { 'expiry.attempts': 1 },
+        $set: { 'expiry.lastError': reason }
+      },
+      { new: true }
+    );
+
+    if (transaction && transaction.expiry.attempts >= MAX_ATTEMPTS) {
+      logger.error(`Giving up on scheduled action for escrow ${escrowId} on ${network} after ${MAX_ATTEMPTS} attempts: ${reason}`);
+    } else {
+      logger.warn(`Scheduled action for escrow ${escrowId} on ${network} failed: ${reason}`);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      for (const services of networkRegistry.all()) {
+        await this.runOnce(services);
+      }
+      this.lastError = undefined;
+    } catch (error: any) {
+      this.lastError = error.message;
+      logger.error('Escrow expiry pass failed:', error);
+    }
+
+    this.lastRunAt = new Date();
+    this.schedule(config.blockchain.escrowSchedulerPollSeconds * 1000);
+  }
+
+  private async runOnce(services: NetworkServices): Promise<void> {
+    await this.syncExpiryDates(services);
+    await this.sendReminders(services);
+    await this.expireOverdue(services);
+    await this.actOnExpired(services);
+  }
+
+  /**
+   * Cache expiresAt from the contract for escrows the scheduler has not seen yet
+   */
+  private async syncExpiryDates({ network, escrowService }: NetworkServices): Promise<void> {
+    const transactions = await Transaction.find({
+      network: network.key,
+      status: { $in: ACTIVE_STATUSES },
+      'expiry.expiresAt': null
+    }).limit(BATCH_SIZE);
+
+    for (const transaction of transactions) {
+      try {
+        const onChain = await escrowService.getEscrow(Number(transaction.escrowId));
+        if (onChain.expiresAt > 0) {
+          await Transaction.updateOne(
+            { _id: transaction._id },
+            { $set: { 'expiry.expiresAt': new Date(onChain.expiresAt * 1000) } }
+          );
+        }
+      } catch (error: any) {
+        logger.warn(`Could not read expiry for escrow ${transaction.escrowId} on ${network.name}:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * One reminder per configured lead time before expiry, and before an auto-release
+   * An escrow first seen inside several lead times gets a single reminder covering all of them.
+   */
+  private async sendReminders({ network }: NetworkServices): Promise<void> {
+    const leadHours = this.reminderHours();
+    if (leadHours.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const horizon = new Date(now + Math.max(...leadHours) * HOUR_MS);
+    const transactions = await Transaction.find({
+      network: network.key,
+      $or: [
+        { status: { $in: ACTIVE_STATUSES }, 'expiry.expiresAt': { $gt: new Date(now), $lte: horizon } },
+        { status: 'expired', 'expiry.policy': 'auto_release', 'expiry.releaseAt': { $gt: new Date(now), $lte: horizon } }
+      ]
+    }).limit(BATCH_SIZE);
+
+    for (const transaction of transactions) {
+      const stage = transaction.status === 'expired' ? 'release' : 'expiry';
+      const deadline = stage === 'release' ? transaction.expiry.releaseAt! : transaction.expiry.expiresAt!;
+      const due = leadHours
+        .filter(hours => deadline.getTime() - hours * HOUR_MS <= now)
+        .map(hours => `${stage}:${hours}`)
+        .filter(key => !transaction.expiry.remindersSent.includes(key));
+
+      if (due.length === 0) {
+        continue;
+      }
+
+      // Claim the reminder first so a slow email never goes out twice
+      const claimed = await Transaction.updateOne(
+        { _id: transaction._id, 'expiry.remindersSent': { $nin: due } },
+        { $addToSet: { 'expiry.remindersSent': { $each: due } } }
+      );
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+
+      await this.remind(transaction, stage, deadline);
+    }
+  }
+
+  private async remind(transaction: ITransaction, stage: 'expiry' | 'release', deadline: Date): Promise<void> {
+    const { policy, inspectionHours } = transaction.expiry;
+    const outcome = stage === 'release'
+      ? 'If the buyer does not open a dispute before then, the remaining funds are released to the seller automatically.'
+      : policy === 'auto_release'
+        ? `After that the buyer has ${inspectionHours} hours to inspect the delivery or open a dispute before the funds are released to the seller.`
+        : 'If it has not been completed by then, the escrow is cancelled and the funds are refunded to the buyer.';
+
+    getWebSocketService()?.notifyUsers([transaction.buyerEmail, transaction.sellerEmail], 'escrow:deadline_reminder', {
+      network: transaction.network,
+      escrowId: transaction.escrowId,
+      stage,
+      policy,
+      deadline
+    });
+
+    await Promise.all([transaction.buyerEmail, transaction.sellerEmail].map(email =>
+      emailService.sendEscrowDeadlineReminder(email, {
+        title: transaction.metadata?.title || `Escrow #${transaction.escrowId}`,
+        deadline,
+        outcome
+      })
+    ));
+  }
+
+  /**
+   * Move escrows past expiresAt to expired, checked against the contract; unfunded escrows are cancelled outright
+   */
+  private async expireOverdue(services: NetworkServices): Promise<void> {
+    const { network, escrowService } = services;
+    const transactions = await Transaction.find({
+      network: network.key,
+      status: { $in: ACTIVE_STATUSES },
+      'expiry.expiresAt': { $lte: new Date() },
+      'expiry.actionRequestedAt': null,
+      'expiry.attempts': { $not: { $gte: MAX_ATTEMPTS } }
+    }).limit(BATCH_SIZE);
+
+    for (const transaction of transactions) {
+      try {
+        if (transaction.status === 'pending') {
+          await this.requestAction(services, transaction, 'refund');
+          continue;
+        }
+
+        const onChain = await escrowService.getEscrow(Number(transaction.escrowId));
+        const autoRelease = transaction.expiry.policy === 'auto_release';
+        const releaseAt = new Date(Date.now() + transaction.expiry.inspectionHours * HOUR_MS);
+
+        const expired = await escrowStateMachine.transition(transaction, 'expired', {
+          actor: 'system',
+          role: 'system',
+          description: autoRelease
+            ? `Escrow expired; funds release to the seller at ${releaseAt.toISOString()} unless disputed`
+            : 'Escrow expired; refunding the buyer',
+          onChain,
+          extra: autoRelease ? { 'expiry.releaseAt': releaseAt } : {}
+        });
+
+        getWebSocketService()?.notifyUsers([expired.buyerEmail, expired.sellerEmail], 'escrow:expired', {
+          network: expired.network,
+          escrowId: expired.escrowId,
+          policy: expired.expiry.policy,
+          releaseAt: expired.expiry.releaseAt
+        });
+
+        if (!autoRelease) {
+          await this.requestAction(services, expired, 'refund');
+        }
+      } catch (error: any) {
+        // A 409 usually means the indexer has not caught up with a release or dispute yet
+        logger.warn(`Could not expire escrow ${transaction.escrowId} on ${network.name}:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Queue the refund, or the release once the inspection window has closed, for expired escrows
+   * Also picks up escrows whose earlier attempt failed.
+   */
+  private async actOnExpired(services: NetworkServices): Promise<void> {
+    const transactions = await Transaction.find({
+      network: services.network.key,
+      status: 'expired',
+      'expiry.actionRequestedAt': null,
+      'expiry.attempts': { $not: { $gte: MAX_ATTEMPTS } },
+      $or: [
+        { 'expiry.policy': { $ne: 'auto_release' } },
+        { 'expiry.releaseAt': { $lte: new Date() } }
+      ]
+    }).limit(BATCH_SIZE);
+
+    for (const transaction of transactions) {
+      await this.requestAction(services, transaction, transaction.expiry.policy === 'auto_release' ? 'release' : 'refund');
+    }
+  }
+
+  private async requestAction(services: NetworkServices, transaction: ITransaction, action: ExpiryAction): Promise<void> {
+    const claimed = await Transaction.updateOne(
+      { _id: transaction._id, 'expiry.actionRequestedAt': null },
+      { $set: { 'expiry.actionRequestedAt': new Date() } }
+    );
+    if (claimed.modifiedCount === 0) {
+      return;
+    }
+
+    const escrowId = Number(transaction.escrowId);
+    const milestones = transaction.metadata?.milestones || [];
+    // Escrows without milestones are released as milestone 0, as releaseEscrow does
+    const milestoneIndexes = milestones.length > 0
+      ? milestones.map((milestone, index) => milestone.completed ? -1 : index).filter(index => index >= 0)
+      : [0];
+
+    try {
+      const scheduled = services.escrowService.withJob({
+        context: { escrowId: transaction.escrowId, scheduled: true, ...(action === 'release' && { milestoneIndexes }) }
+      });
+      const job = action === 'release'
+        ? await scheduled.releaseMilestones(escrowId, milestoneIndexes)
+        : await scheduled.cancelEscrow(escrowId);
+
+      await Transaction.updateOne({ _id: transaction._id }, { $set: { 'expiry.actionJobId': job.jobId } });
+      logger.info(`Scheduled ${action} queued for expired escrow ${transaction.escrowId} on ${services.network.name} (job ${job.jobId})`);
+    } catch (error: any) {
+      await this.recordActionFailure(transaction.network, transaction.escrowId, error.message);
+    }
+  }
+
+  private reminderHours(): number[] {
+    return config.blockchain.escrowReminderHours
+      .split(',')
+      .map(hours => Number(hours.trim()))
+      .filter(hours => Number.isFinite(hours) && hours > 0);
+  }
+}
+
+export const escrowExpiryService = new EscrowExpiryService();
@@ -1,9 +1,19 @@
 import { BlockchainService, ProviderConfig } from './BlockchainService';
+import { TokenService } from './TokenService';
 import { logger } from '../utils/logger';
 import { ethers } from 'ethers';
 
+const IERC20 = new ethers.Interface([
+  "function approve(address spender, uint256 amount) external returns (bool)"
+]);
+
 export class EscrowService extends BlockchainService {
-  constructor(providerConfig: ProviderConfig, privateKey: string, escrowManagerAddress: string) {
+  constructor(
+    providerConfig: ProviderConfig,
+    privateKey: string,
+    escrowManagerAddress: string,
+    private tokenService: TokenService
+  ) {
     const escrowManagerABI = [
       "function createEscrow(address seller, string memory description, bytes32 metadataHash, tuple(uint256 amount, string description, bool completed, uint256 completedAt)[] _milestones, address token, uint256 amount) external payable returns (uint256)",
       "function releasePayment(uint256 escrowId, uint256 milestoneIndex) external",
@@ -13,7 +23,11 @@ export class EscrowService extends BlockchainService {
       "function getEscrow(uint256 escrowId) external view returns (tuple(uint256 id, address buyer, address seller, uint256 amount, uint256 platformFee, uint256 createdAt, uint256 expiresAt, uint8 status, string description, bytes32 metadataHash, address token))",
       "function getMilestones(uint256 escrowId) external view returns (tuple(uint256 amount, string description, bool completed, uint256 completedAt)[])",
       "function supportedTokens(address) external view returns (bool)",
-      "event EscrowCreated(uint256 indexed escrowId, address indexed buyer, address indexed seller, uint256 amount)"
+      "event EscrowCreated(uint256 indexed escrowId, address indexed buyer, address indexed seller, uint256 amount)",
+      "event EscrowFunded(uint256 indexed escrowId, uint256 amount)",
+      "event PaymentReleased(uint256 indexed escrowId, uint256 milestoneIndex, uint256 amount)",
+      "event DisputeFiled(uint256 indexed escrowId, address indexed filer, string reason)",
+      "event EscrowCancelled(uint256 indexed escrowId)"
     ];
     
     super(providerConfig, privateKey, escrowManagerAddress, escrowManagerABI);
@@ -29,11 +43,12 @@ export class EscrowService extends BlockchainService {
   ): Promise<any> {
     logger.info(`Creating escrow: buyer=${this.wallet.address}, seller=${seller}, amount=${amount}, token=${token}`);
     
-    const parsedAmount = ethers.parseEther(amount);
+    await this.assertTokenSupported(token);
+    const parsedAmount = this.tokenService.parseAmount(token, amount);
     const parsedMetadataHash = ethers.hexlify(metadataHash);
     
     const parsedMilestones = milestones.map(m => ({
-      amount: ethers.parseEther(m.amount),
+      amount: this.tokenService.parseAmount(token, m.amount),
       description: m.description,
       completed: m.completed,
       completedAt: BigInt(m.completedAt)
@@ -42,12 +57,15 @@ export class EscrowService extends BlockchainService {
     if (token === ethers.ZeroAddress) {
       return this.executeTransaction('createEscrow', seller, description, parsedMetadataHash, parsedMilestones, token, parsedAmount, { value: parsedAmount });
     } else {
-      const IERC20 = new ethers.Interface([
-        "function approve(address spender, uint256 amount) external returns (bool)"
+      // One job, two calls: createEscrow pulls the tokens, so the approval is mined first
+      return this.submit('createEscrow', [
+        {
+          method: 'approve',
+          to: token,
+          data: IERC20.encodeFunctionData('approve', [this.contract.target, parsedAmount])
+        },
+        this.encodeCall('createEscrow', seller, description, parsedMetadataHash, parsedMilestones, token, parsedAmount)
       ]);
-      const tokenContract = new ethers.Contract(token, IERC20, this.wallet);
-      await tokenContract.approve(this.contract.target, parsedAmount);
-      return this.executeTransaction('createEscrow', seller, description, parsedMetadataHash, parsedMilestones, token, parsedAmount);
     }
   }
 
@@ -56,6 +74,14 @@ export class EscrowService extends BlockchainService {
     return this.executeTransaction('releasePayment', escrowId, milestoneIndex);
   }
 
+  /**
+   * Release several milestones in one job; receipts come back in the same order as milestoneIndexes
+   */
+  async releaseMilestones(escrowId: number, milestoneIndexes: number[]): Promise<any> {
+    logger.info(`Releasing milestones: escrowId=${escrowId}, milestones=${milestoneIndexes.join(',')}`);
+    return this.submit('releasePayment', milestoneIndexes.map(index => this.encodeCall('releasePayment', escrowId, index)));
+  }
+
   async fileDispute(escrowId: number, reason: string): Promise<any> {
     logger.info(`Filing dispute: escrowId=${escrowId}, reason=${reason}`);
     return this.executeTransaction('fileDispute', escrowId, reason);
@@ -68,8 +94,21 @@ export class EscrowService extends BlockchainService {
 
   async fundEscrow(escrowId: number, amount: string): Promise<any> {
     logger.info(`Funding escrow: escrowId=${escrowId}, amount=${amount}`);
-    const parsedAmount = ethers.parseEther(amount);
-    return this.executeTransaction('fundEscrow', escrowId, { value: parsedAmount });
+    const { token } = await this.executeView('getEscrow', escrowId);
+    const parsedAmount = this.tokenService.parseAmount(token, amount);
+
+    if (token === ethers.ZeroAddress) {
+      return this.executeTransaction('fundEscrow', escrowId, { value: parsedAmount });
+    }
+
+    return this.submit('fundEscrow', [
+      {
+        method: 'approve',
+        to: token,
+        data: IERC20.encodeFunctionData('approve', [this.contract.target, parsedAmount])
+      },
+      this.encodeCall('fundEscrow', escrowId)
+    ]);
   }
 
   async getEscrow(escrowId: number): Promise<any> {
@@ -79,22 +118,29 @@ export class EscrowService extends BlockchainService {
       id: Number(escrow.id),
       buyer: escrow.buyer,
       seller: escrow.seller,
-      amount: ethers.formatEther(escrow.amount),
-      platformFee: ethers.formatEther(escrow.platformFee),
+      amount: this.tokenService.formatAmount(escrow.token, escrow.amount),
+      amountBaseUnits: escrow.amount.toString(),
+      platformFee: this.tokenService.formatAmount(escrow.token, escrow.platformFee),
       createdAt: Number(escrow.createdAt),
       expiresAt: Number(escrow.expiresAt),
       status: Number(escrow.status),
       description: escrow.description,
       metadataHash: escrow.metadataHash,
-      token: escrow.token
+      token: escrow.token,
+      // Unset for an unregistered or disabled token, whose amounts are then in base units
+      tokenSymbol: this.tokenService.getTokenInfo(escrow.token)?.symbol
     };
   }
 
   async getMilestones(escrowId: number): Promise<any> {
     logger.info(`Fetching milestones: ${escrowId}`);
-    const milestones = await this.executeView('getMilestones', escrowId);
+    const [{ token }, milestones] = await Promise.all([
+      this.executeView('getEscrow', escrowId),
+      this.executeView('getMilestones', escrowId)
+    ]);
     return milestones.map((m: any) => ({
-      amount: ethers.formatEther(m.amount),
+      amount: this.tokenService.formatAmount(token, m.amount),
+      amountBaseUnits: m.amount.toString(),
       description: m.description,
       completed: m.completed,
       completedAt: Number(m.completedAt)
@@ -105,4 +151,20 @@ export class EscrowService extends BlockchainService {
     logger.info(`Checking token support: ${tokenAddress}`);
     return await this.executeView('supportedTokens', tokenAddress);
   }
+
+  getTokenService(): TokenService {
+    return this.tokenService;
+  }
+
+  /**
+   * A token must be known locally (for its decimals) and allow-listed by the escrow contract
+   * Native ETH is always accepted by the contract.
+   */
+  async assertTokenSupported(token: string): Promise<void> {
+    this.tokenService.requireToken(token);
+
+    if (token !== ethers.ZeroAddress && !(await this.isTokenSupported(token))) {
+      throw Object.assign(new Error(`Token ${token} is not accepted by the escrow contract`), { statusCode: 400 });
+    }
+  }
 }
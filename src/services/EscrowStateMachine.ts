@@ -0,0 +1,287 @@
+import { logger } from '../utils/logger';
+import { Transaction, ITransaction, EscrowStatus } from '../models/Transaction';
+import { Dispute } from '../models/Dispute';
+import { UserRole } from '../types';
+import { hasPermission } from '../config/permissions';
+
+/**
+ * Who is asking for a transition
+ * 'system' covers the queue handlers, the event indexer and schedulers, which act on mined transactions.
+ */
+export type EscrowActorRole = 'buyer' | 'seller' | 'arbitrator' | 'system';
+
+export interface TransitionOptions {
+  actor: string;
+  role: EscrowActorRole;
+  description: string;
+  // Extra fields written in the same update as the status change
+  extra?: Record<string, any>;
+  // Required when the caller is not reporting a mined transaction; see assertOnChain
+  onChain?: OnChainEscrow;
+}
+
+export interface OnChainEscrow {
+  status: number;
+  expiresAt: number;
+}
+
+const ALL_PARTIES: EscrowActorRole[] = ['buyer', 'seller', 'system'];
+const RELEASERS: EscrowActorRole[] = ['buyer', 'arbitrator', 'system'];
+const REFUNDERS: EscrowActorRole[] = ['seller', 'arbitrator', 'system'];
+const RESOLVERS: EscrowActorRole[] = ['arbitrator', 'system'];
+
+// Payouts the contract reports as milestones are released; only the release handlers write these
+const RELEASED_STATUSES: EscrowStatus[] = ['partially_released', 'completed'];
+
+/**
+ * Allowed transitions and the roles entitled to cause each one
+ * completed, refunded and cancelled are terminal. A buyer or arbitrator causes a release by requesting it
+ * on-chain; the status itself is only written once the release is mined (see RELEASED_STATUSES).
+ */
+const TRANSITIONS: Record<EscrowStatus, Partial<Record<EscrowStatus, EscrowActorRole[]>>> = {
+  pending: {
+    funded: ['system'],
+    cancelled: ALL_PARTIES,
+    expired: ['system']
+  },
+  funded: {
+    in_progress: ['seller'],
+    partially_released: RELEASERS,
+    completed: RELEASERS,
+    disputed: ALL_PARTIES,
+    refunded: REFUNDERS,
+    expired: ['system']
+  },
+  in_progress: {
+    partially_released: RELEASERS,
+    completed: RELEASERS,
+    disputed: ALL_PARTIES,
+    refunded: REFUNDERS,
+    expired: ['system']
+  },
+  partially_released: {
+    partially_released: RELEASERS,
+    completed: RELEASERS,
+    disputed: ALL_PARTIES,
+    refunded: REFUNDERS,
+    expired: ['system']
+  },
+  disputed: {
+    funded: RESOLVERS,
+    in_progress: RESOLVERS,
+    partially_released: RESOLVERS,
+    completed: RESOLVERS,
+    refunded: RESOLVERS
+  },
+  expired: {
+    // Auto-release pays out the remaining milestones one by one
+    partially_released: ['system'],
+    completed: ['system'],
+    refunded: ['buyer', 'system'],
+    disputed: ALL_PARTIES
+  },
+  completed: {},
+  refunded: {},
+  cancelled: {}
+};
+
+// Escrows whose funds the contract still holds
+export const OPEN_ESCROW_STATUSES: EscrowStatus[] = ['pending', 'funded', 'in_progress', 'partially_released', 'disputed', 'expired'];
+
+/**
+ * EscrowManager's on-chain status enum, by index: Created, Funded, Completed, Disputed, Cancelled
+ * Expiry is not a contract status; it is read from expiresAt.
+ */
+const ON_CHAIN_STATUSES = ['created', 'funded', 'completed', 'disputed', 'cancelled'] as const;
+type OnChainStatus = typeof ON_CHAIN_STATUSES[number];
+
+// On-chain statuses each off-chain status is consistent with
+const CHAIN_STATUS_FOR: Record<EscrowStatus, OnChainStatus[]> = {
+  pending: ['created'],
+  funded: ['funded'],
+  in_progress: ['funded'],
+  partially_released: ['funded'],
+  completed: ['completed'],
+  disputed: ['disputed'],
+  refunded: ['cancelled'],
+  cancelled: ['cancelled'],
+  expired: ['created', 'funded']
+};
+
+export const canTransition = (from: EscrowStatus, to: EscrowStatus, role: EscrowActorRole): boolean =>
+  TRANSITIONS[from]?.[to]?.includes(role) ?? false;
+
+/**
+ * Throw a 409 for a move the lifecycle does not allow and a 403 for a role that may not make it
+ */
+export const assertTransition = (from: EscrowStatus, to: EscrowStatus, role: EscrowActorRole): void => {
+  const allowed = TRANSITIONS[from]?.[to];
+
+  if (!allowed) {
+    throw Object.assign(new Error(`Escrow cannot move from ${from} to ${to}`), { statusCode: 409 });
+  }
+  if (!allowed.includes(role)) {
+    throw Object.assign(new Error(`The ${role} cannot move an escrow from ${from} to ${to}`), { statusCode: 403 });
+  }
+};
+
+/**
+ * The caller's role on an escrow
+ * Holding disputes:resolve is not enough to act as arbitrator; the caller must be assigned to this escrow's dispute.
+ */
+export const escrowRoleOf = async (
+  transaction: Pick<ITransaction, 'network' | 'escrowId' | 'buyerEmail' | 'sellerEmail'>,
+  user: { email: string; roles?: UserRole[] }
+): Promise<EscrowActorRole | null> => {
+  if (transaction.buyerEmail === user.email) return 'buyer';
+  if (transaction.sellerEmail === user.email) return 'seller';
+  if (
+    hasPermission(user.roles || [], 'disputes:resolve') &&
+    await Dispute.exists({ network: transaction.network, escrowId: transaction.escrowId, arbitrator: user.email })
+  ) {
+    return 'arbitrator';
+  }
+  return null;
+};
+
+/**
+ * Reject a status the contract's own state contradicts
+ */
+export const assertOnChain = (to: EscrowStatus, onChain: OnChainEscrow): void => {
+  const chainStatus = ON_CHAIN_STATUSES[onChain.status];
+  if (!chainStatus || !CHAIN_STATUS_FOR[to].includes(chainStatus)) {
+    throw Object.assign(new Error(`Escrow is ${chainStatus || `in unknown state ${onChain.status}`} on-chain; cannot mark it ${to}`), { statusCode: 409 });
+  }
+  if (to === 'expired' && onChain.expiresAt * 1000 > Date.now()) {
+    throw Object.assign(new Error('Escrow has not expired on-chain yet'), { statusCode: 409 });
+  }
+};
+
+/**
+ * Status after a milestone release: completed once every milestone (or the whole escrow) is paid out
+ */
+export const statusAfterRelease = (transaction: Pick<ITransaction, 'metadata'>, milestoneIndex: number): EscrowStatus => {
+  const milestones = transaction.metadata?.milestones || [];
+  if (milestones.length === 0) {
+    return 'completed';
+  }
+  return milestones.every((milestone, index) => milestone.completed || index === milestoneIndex)
+    ? 'completed'
+    : 'partially_released';
+};
+
+/**
+ * Status after the contract refunds the buyer; an escrow that was never funded is simply cancelled
+ */
+export const statusAfterRefund = (from: EscrowStatus): EscrowStatus =>
+  from === 'pending' ? 'cancelled' : 'refunded';
+
+/**
+ * Status after a dispute decision is executed: refunded when the buyer gets everything, completed once the seller is paid anything
+ */
+export const statusAfterDecision = (sellerShareBps: number): EscrowStatus =>
+  sellerShareBps > 0 ? 'completed' : 'refunded';
+
+/**
+ * Applies escrow status changes with a compare-and-set on the current status,
+ * so concurrent writers (API, queue handlers, indexer) cannot skip a check.
+ */
+class EscrowStateMachine {
+  async transition(transaction: ITransaction, to: EscrowStatus, options: TransitionOptions): Promise<ITransaction> {
+    const from = transaction.status;
+    assertTransition(from, to, options.role);
+    if (RELEASED_STATUSES.includes(to) && options.role !== 'system') {
+      throw Object.assign(new Error(`An escrow is marked ${to} when the release is mined; use the release endpoints`), { statusCode: 403 });
+    }
+    if (options.onChain) {
+      assertOnChain(to, options.onChain);
+    }
+
+    const updated = await Transaction.findOneAndUpdate(
+      { _id: transaction._id, status: from },
+      {
+        status: to,
+        ...options.extra,
+        $push: {
+          timeline: {
+            status: to,
+            previousStatus: from,
+            description: options.description,
+            actor: options.actor,
+            actorRole: options.role
+          }
+        }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      throw Object.assign(new Error(`Escrow ${transaction.escrowId} changed status concurrently; retry`), { statusCode: 409 });
+    }
+
+    logger.info(`Escrow ${transaction.escrowId} (${transaction.network}) ${from} -> ${to} by ${options.actor} (${options.role})`);
+    return updated;
+  }
+
+  /**
+   * Apply a transition reported by the chain
+   * Replays, and events older than the state we already hold, are skipped rather than failing the caller.
+   */
+  async sync(filter: { network: string; escrowId: string }, to: EscrowStatus | ((from: EscrowStatus) => EscrowStatus), options: Omit<TransitionOptions, 'role'>): Promise<ITransaction | null> {
+    const transaction = await Transaction.findOne(filter);
+    if (!transaction) {
+      return null;
+    }
+
+    const target = typeof to === 'function' ? to(transaction.status) : to;
+    if (transaction.status === target && target !== 'partially_released') {
+      return null;
+    }
+    if (!canTransition(transaction.status, target, 'system')) {
+      logger.warn(`Ignoring ${transaction.status} -> ${target} for escrow ${filter.escrowId} on ${filter.network}: not an allowed transition`);
+      return null;
+    }
+
+    try {
+      return await this.transition(transaction, target, { ...options, role: 'system' });
+    } catch (error: any) {
+      if (error.statusCode === 409) {
+        logger.warn(error.message);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a mined milestone release: mark the milestone paid and move to partially released or completed
+   * A milestone already marked paid means the release was recorded before.
+   */
+  async syncRelease(
+    filter: { network: string; escrowId: string },
+    milestoneIndex: number,
+    releaseHash: string,
+    options: Omit<TransitionOptions, 'role'>
+  ): Promise<ITransaction | null> {
+    const transaction = await Transaction.findOne(filter).select('metadata.milestones');
+    const milestone = transaction?.metadata?.milestones?.[milestoneIndex];
+    if (!transaction || milestone?.completed) {
+      return null;
+    }
+
+    return this.sync(filter, statusAfterRelease(transaction, milestoneIndex), {
+      ...options,
+      extra: {
+        ...options.extra,
+        ...(milestone && {
+          [`metadata.milestones.${milestoneIndex}.status`]: 'released',
+          [`metadata.milestones.${milestoneIndex}.releaseHash`]: releaseHash,
+          [`metadata.milestones.${milestoneIndex}.completed`]: true,
+          [`metadata.milestones.${milestoneIndex}.completedAt`]: new Date()
+        })
+      }
+    });
+  }
+}
+
+export const escrowStateMachine = new EscrowStateMachine();
@@ -0,0 +1,488 @@
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { Transaction, ITransaction, EscrowStatus } from '../models/Transaction';
+import { User } from '../models/User';
+import { ChainEvent } from '../models/ChainEvent';
+import { IndexerCursor, IIndexerCursor } from '../models/IndexerCursor';
+import { Channel } from '../types';
+import { NetworkConfig } from '../config/networks';
+import { TokenService } from './TokenService';
+import { getWebSocketService } from './websocket';
+import { escrowStateMachine, statusAfterRefund } from './EscrowStateMachine';
+import { disputeCaseService } from './DisputeCaseService';
+
+/**
+ * A contract the indexer follows; any BlockchainService subclass fits
+ */
+export interface IndexedContract {
+  getContractAddress(): string;
+  getInterface(): ethers.Interface;
+}
+
+export interface IndexerStatus {
+  network: string;
+  running: boolean;
+  chainId: number;
+  confirmations: number;
+  cursor?: number;
+  head?: number;
+  lastRunAt?: Date;
+  lastError?: string;
+}
+
+interface DecodedEvent {
+  name: string;
+  contract: string;
+  args: ethers.Result;
+  log: ethers.Log;
+}
+
+/**
+ * Follows escrow, dispute and payment contract events on one network and reconciles Transaction records
+ * Only blocks older than the network's confirmation depth are read, so short reorgs never reach the database.
+ */
+export class EventIndexerService {
+  private provider: ethers.Provider | null = null;
+  private readonly chainId: number;
+  private escrow: (IndexedContract & { getEscrow(escrowId: number): Promise<any> }) | null = null;
+  private tokens: TokenService | null = null;
+  private contracts: Map<string, IndexedContract> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private head?: number;
+  private cursor?: number;
+  private lastRunAt?: Date;
+  private lastError?: string;
+
+  constructor(private readonly network: NetworkConfig) {
+    this.chainId = network.chainId;
+  }
+
+  start(options: {
+    provider: ethers.Provider;
+    escrow: IndexedContract & { getEscrow(escrowId: number): Promise<any> };
+    dispute: IndexedContract;
+    payment: IndexedContract;
+    tokens: TokenService;
+  }): void {
+    if (this.running) {
+      return;
+    }
+
+    this.provider = options.provider;
+    this.escrow = options.escrow;
+    this.tokens = options.tokens;
+    this.contracts = new Map(
+      [options.escrow, options.dispute, options.payment].map(contract => [
+        contract.getContractAddress().toLowerCase(),
+        contract
+      ])
+    );
+    this.running = true;
+
+    logger.info(`Event indexer started on ${this.network.name} (${this.network.confirmations} confirmations)`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): IndexerStatus {
+    return {
+      network: this.network.key,
+      running: this.running,
+      chainId: this.chainId,
+      confirmations: this.network.confirmations,
+      cursor: this.cursor,
+      head: this.head,
+      lastRunAt: this.lastRunAt,
+      lastError: this.lastError
+    };
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    let caughtUp = true;
+
+    try {
+      caughtUp = await this.runOnce();
+      this.lastError = undefined;
+    } catch (error: any) {
+      this.lastError = error.message;
+      logger.error(`Event indexer pass failed on ${this.network.name}:`, error);
+    }
+
+    this.lastRunAt = new Date();
+    // Keep going without a pause while backfilling a large gap
+    this.schedule(caughtUp ? config.blockchain.indexerPollSeconds * 1000 : 0);
+  }
+
+  /**
+   * Index one batch of confirmed blocks; returns true once the cursor reaches the safe head
+   */
+  private async runOnce(): Promise<boolean> {
+    const provider = this.provider!;
+    const { confirmations, indexerStartBlock } = this.network;
+
+    this.head = await provider.getBlockNumber();
+    const safeHead = this.head - confirmations;
+    if (safeHead < 0) {
+      return true;
+    }
+
+    let cursor = await IndexerCursor.findOne({ chainId: this.chainId });
+    if (!cursor) {
+      const startBlock = indexerStartBlock > 0 ? indexerStartBlock - 1 : safeHead;
+      const block = await provider.getBlock(startBlock);
+      cursor = await IndexerCursor.create({
+        chainId: this.chainId,
+        blockNumber: startBlock,
+        blockHash: block!.hash!
+      });
+      logger.info(`Event indexer cursor for ${this.network.name} initialised at block ${startBlock}`);
+    }
+
+    await this.checkForReorg(cursor);
+    this.cursor = cursor.blockNumber;
+
+    if (cursor.blockNumber >= safeHead) {
+      return true;
+    }
+
+    const fromBlock = cursor.blockNumber + 1;
+    const toBlock = Math.min(safeHead, fromBlock + config.blockchain.indexerBatchBlocks - 1);
+
+    const logs = await provider.getLogs({
+      address: Array.from(this.contracts.keys()),
+      fromBlock,
+      toBlock
+    });
+
+    const events = logs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .map(log => this.decode(log))
+      .filter((event): event is DecodedEvent => event !== null);
+
+    for (const event of events) {
+      await this.handle(event);
+    }
+
+    const block = await provider.getBlock(toBlock);
+    cursor.blockNumber = toBlock;
+    cursor.blockHash = block!.hash!;
+    await cursor.save();
+    this.cursor = toBlock;
+
+    if (events.length > 0) {
+      logger.info(`Indexed ${events.length} contract events on ${this.network.name} in blocks ${fromBlock}-${toBlock}`);
+    }
+
+    return toBlock >= safeHead;
+  }
+
+  /**
+   * A reorg deeper than the confirmation depth replaced the cursor block; step back and re-scan
+   * Events are keyed by transaction hash and log index, so anything re-included is not applied twice.
+   */
+  private async checkForReorg(cursor: IIndexerCursor): Promise<void> {
+    const block = await this.provider!.getBlock(cursor.blockNumber);
+    if (block && block.hash === cursor.blockHash) {
+      return;
+    }
+
+    const rewindTo = Math.max(0, cursor.blockNumber - this.network.confirmations * 2);
+    const rewindBlock = await this.provider!.getBlock(rewindTo);
+    logger.warn(`Reorg detected at block ${cursor.blockNumber} on chain ${this.chainId}; rewinding to ${rewindTo}`);
+
+    cursor.blockNumber = rewindTo;
+    cursor.blockHash = rewindBlock!.hash!;
+    await cursor.save();
+  }
+
+  private decode(log: ethers.Log): DecodedEvent | null {
+    const contract = this.contracts.get(log.address.toLowerCase());
+    if (!contract) {
+      return null;
+    }
+
+    try {
+      const parsed = contract.getInterface().parseLog(log);
+      if (!parsed) {
+        return null;
+      }
+      return { name: parsed.name, contract: log.address.toLowerCase(), args: parsed.args, log };
+    } catch {
+      return null;
+    }
+  }
+
+  private async handle(event: DecodedEvent): Promise<void> {
+    const { log } = event;
+    const key = `${this.chainId}:${log.transactionHash}:${log.index}`;
+
+    if (await ChainEvent.exists({ key })) {
+      return;
+    }
+
+    const escrowId = this.escrowIdOf(event);
+
+    // Apply first and record afterwards: a crash in between re-applies an idempotent update
+    // instead of silently dropping the event
+    switch (event.name) {
+      case 'EscrowCreated':
+        await this.onEscrowCreated(event, escrowId!);
+        break;
+      case 'EscrowFunded':
+        await this.updateStatus(event, escrowId!, 'funded', 'Escrow funded on-chain');
+        break;
+      case 'PaymentReleased':
+        await this.onPaymentReleased(event, escrowId!);
+        break;
+      case 'DisputeFiled':
+      case 'DisputeOpened':
+        await this.onDisputeOpened(event, escrowId!);
+        break;
+      case 'EvidenceAdded':
+        await this.addTimelineEntry(event, escrowId!, 'Dispute evidence submitted on-chain');
+        break;
+      case 'DisputeResolved':
+        await this.onDisputeResolved(event, escrowId!);
+        break;
+      case 'EscrowCancelled':
+        await this.updateStatus(event, escrowId!, statusAfterRefund, 'Escrow cancelled and refunded on-chain');
+        break;
+      case 'PaymentMade':
+        await this.onPaymentMade(event);
+        break;
+      default:
+        return;
+    }
+
+    await ChainEvent.updateOne(
+      { key },
+      {
+        $setOnInsert: {
+          key,
+          chainId: this.chainId,
+          contract: event.contract,
+          name: event.name,
+          escrowId,
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          logIndex: log.index,
+          args: this.serializeArgs(event.args)
+        }
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Escrow ids are uint256 on the escrow manager and bytes32 on the dispute contract
+   */
+  private escrowIdOf(event: DecodedEvent): string | undefined {
+    if (!('escrowId' in event.args.toObject())) {
+      return undefined;
+    }
+    return BigInt(event.args.escrowId).toString();
+  }
+
+  private async onEscrowCreated(event: DecodedEvent, escrowId: string): Promise<void> {
+    const existing = await Transaction.findOne({ network: this.network.key, escrowId });
+    if (existing) {
+      this.notifyParties(existing, 'escrow:confirmed', event);
+      return;
+    }
+
+    // Created outside our API - only recorded when both parties have accounts
+    const buyerAddress = String(event.args.buyer).toLowerCase();
+    const sellerAddress = String(event.args.seller).toLowerCase();
+    const [buyer, seller] = await Promise.all([
+      this.findUserByAddress(buyerAddress),
+      this.findUserByAddress(sellerAddress)
+    ]);
+
+    if (!buyer || !seller) {
+      logger.info(`Skipping escrow ${escrowId}: buyer or seller has no Synkio account`);
+      return;
+    }
+
+    const onChain = await this.escrow!.getEscrow(Number(escrowId));
+    const token = this.tokens!.getTokenInfo(onChain.token);
+    if (!token) {
+      logger.warn(`Escrow ${escrowId} on ${this.network.name} uses unlisted token ${onChain.token}`);
+    }
+
+    const transaction = await Transaction.create({
+      transactionId: event.log.transactionHash,
+      network: this.network.key,
+      escrowId,
+      buyerEmail: buyer.email,
+      sellerEmail: seller.email,
+      buyerAddress,
+      sellerAddress,
+      amount: event.args.amount.toString(),
+      currency: token?.symbol || 'UNKNOWN',
+      tokenAddress: onChain.token,
+      decimals: token?.decimals,
+      type: 'marketplace',
+      metadata: {
+        title: onChain.description || 'Escrow transaction',
+        description: onChain.description || 'Escrow created on-chain'
+      },
+      conversationContext: {
+        channel: Channel.WEB
+      },
+      timeline: [{
+        status: 'pending',
+        description: `Escrow created on-chain in block ${event.log.blockNumber}`,
+        actor: buyer.email,
+        actorRole: 'buyer'
+      }]
+    });
+
+    logger.info(`Escrow ${escrowId} discovered on-chain and recorded`);
+    this.notifyParties(transaction, 'escrow:created', event);
+  }
+
+  private async onDisputeOpened(event: DecodedEvent, escrowId: string): Promise<void> {
+    await this.updateStatus(event, escrowId, 'disputed', 'Dispute opened on-chain');
+
+    // Disputes filed through the API already have a case; this covers ones filed directly on-chain
+    await disputeCaseService.open({
+      network: this.network.key,
+      escrowId,
+      openedBy: String(event.name === 'DisputeFiled' ? event.args.filer : event.args.opener),
+      reason: event.name === 'DisputeFiled' ? event.args.reason : 'Dispute opened on-chain'
+    });
+  }
+
+  private async onDisputeResolved(event: DecodedEvent, escrowId: string): Promise<void> {
+    const transaction = await Transaction.findOne({ network: this.network.key, escrowId });
+    if (!transaction) {
+      return;
+    }
+
+    // A split is awarded to the platform wallet, which pays both parties, so only a buyer win is a refund
+    const winner = String(event.args.winner).toLowerCase();
+    const status: EscrowStatus = winner === transaction.buyerAddress ? 'refunded' : 'completed';
+
+    await this.updateStatus(event, escrowId, status, `Dispute resolved on-chain in favour of ${winner}`, {
+      'dispute.resolution': `Awarded to ${winner}`,
+      'dispute.resolvedAt': new Date()
+    });
+    await disputeCaseService.markExecuted(this.network.key, escrowId, event.log.transactionHash);
+  }
+
+  private async onPaymentReleased(event: DecodedEvent, escrowId: string): Promise<void> {
+    const milestoneIndex = Number(event.args.milestoneIndex);
+    const transaction = await escrowStateMachine.syncRelease({ network: this.network.key, escrowId }, milestoneIndex, event.log.transactionHash, {
+      actor: 'chain',
+      description: `Milestone ${milestoneIndex} released to seller on-chain (${event.log.transactionHash})`
+    });
+
+    if (transaction) {
+      this.notifyParties(transaction, 'escrow:status', event);
+    }
+  }
+
+  private async onPaymentMade(event: DecodedEvent): Promise<void> {
+    const [payer, payee] = await Promise.all([
+      this.findUserByAddress(String(event.args.payer).toLowerCase()),
+      this.findUserByAddress(String(event.args.payee).toLowerCase())
+    ]);
+
+    const data = {
+      network: this.network.key,
+      paymentId: event.args.paymentId,
+      amount: event.args.amount.toString(),
+      token: event.args.token,
+      transactionHash: event.log.transactionHash,
+      blockNumber: event.log.blockNumber
+    };
+
+    const wsService = getWebSocketService();
+    if (payer) wsService?.notifyUser(payer.email, 'payment:sent', data);
+    if (payee) wsService?.notifyUser(payee.email, 'payment:received', data);
+  }
+
+  private async updateStatus(
+    event: DecodedEvent,
+    escrowId: string,
+    status: EscrowStatus | ((from: EscrowStatus) => EscrowStatus),
+    description: string,
+    extra: Record<string, any> = {}
+  ): Promise<void> {
+    // The state machine skips escrows our own confirmation handlers already moved
+    const transaction = await escrowStateMachine.sync({ network: this.network.key, escrowId }, status, {
+      actor: 'chain',
+      description: `${description} (${event.log.transactionHash})`,
+      extra
+    });
+
+    if (transaction) {
+      this.notifyParties(transaction, 'escrow:status', event);
+    }
+  }
+
+  private async addTimelineEntry(event: DecodedEvent, escrowId: string, description: string): Promise<void> {
+    const transaction = await Transaction.findOneAndUpdate(
+      { network: this.network.key, escrowId },
+      {
+        $push: {
+          timeline: {
+            status: 'disputed',
+            description: `${description} (${event.log.transactionHash})`,
+            actor: 'chain',
+            actorRole: 'system'
+          }
+        }
+      },
+      { new: true }
+    );
+
+    if (transaction) {
+      this.notifyParties(transaction, 'escrow:dispute', event);
+    }
+  }
+
+  private notifyParties(transaction: ITransaction, eventName: string, event: DecodedEvent): void {
+    getWebSocketService()?.notifyUsers([transaction.buyerEmail, transaction.sellerEmail], eventName, {
+      network: this.network.key,
+      escrowId: transaction.escrowId,
+      transactionId: transaction.transactionId,
+      status: transaction.status,
+      event: event.name,
+      transactionHash: event.log.transactionHash,
+      blockNumber: event.log.blockNumber
+    });
+  }
+
+  private async findUserByAddress(address: string) {
+    return User.findOne({
+      $or: [{ walletAddress: address }, { 'externalWallets.address': address }]
+    }).select('email');
+  }
+
+  private serializeArgs(args: ethers.Result): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(args.toObject()).map(([name, value]) => [
+        name,
+        typeof value === 'bigint' ? value.toString() : value
+      ])
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { Evidence, IEvidence } from '../models/Evidence';
+import { IDispute, DisputeParty } from '../models/Dispute';
+import { CustodialAccount } from './BlockchainService';
+import { networkRegistry } from './NetworkRegistry';
+import { getEvidenceStorage } from './EvidenceStorage';
+import { getWebSocketService } from './websocket';
+
+export interface EvidenceFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Accepted evidence types with the leading bytes every such file starts with
+ * The declared content type is checked against the file itself, so a renamed executable is refused.
+ */
+const EVIDENCE_TYPES: Record<string, { extension: string; matches: (head: Buffer) => boolean }> = {
+  'image/jpeg': { extension: '.jpg', matches: head => head.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  'image/png': { extension: '.png', matches: head => head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  'image/gif': { extension: '.gif', matches: head => ['GIF87a', 'GIF89a'].includes(head.subarray(0, 6).toString('latin1')) },
+  'image/webp': { extension: '.webp', matches: head => head.subarray(0, 4).toString('latin1') === 'RIFF' && head.subarray(8, 12).toString('latin1') === 'WEBP' },
+  'application/pdf': { extension: '.pdf', matches: head => head.subarray(0, 5).toString('latin1') === '%PDF-' }
+};
+
+export const EVIDENCE_CONTENT_TYPES = Object.keys(EVIDENCE_TYPES);
+
+/**
+ * Dispute evidence files: validated, hashed, stored through the configured backend,
+ * and anchored on-chain by the uploader's wallet as "sha256:<hex>" via DisputeService.addEvidence
+ */
+class EvidenceService {
+  async upload(
+    dispute: IDispute,
+    uploader: { account: CustodialAccount; role: DisputeParty },
+    file: EvidenceFile,
+    description?: string
+  ): Promise<IEvidence> {
+    if (dispute.status === 'resolved') {
+      throw Object.assign(new Error('Evidence closes once the dispute has been decided'), { statusCode: 409 });
+    }
+
+    const type = EVIDENCE_TYPES[file.mimetype];
+    if (!type) {
+      throw Object.assign(new Error(`Evidence must be one of: ${EVIDENCE_CONTENT_TYPES.join(', ')}`), { statusCode: 415 });
+    }
+    if (file.size === 0) {
+      throw Object.assign(new Error('Evidence file is empty'), { statusCode: 400 });
+    }
+    if (file.size > config.evidence.maxBytes) {
+      throw Object.assign(new Error(`Evidence files are limited to ${config.evidence.maxBytes} bytes`), { statusCode: 413 });
+    }
+    if (!type.matches(file.buffer)) {
+      throw Object.assign(new Error(`File content is not ${file.mimetype}`), { statusCode: 415 });
+    }
+
+    const sha256 = crypto.createHash('sha256').update(file.buffer).digest('hex');
+    if (await Evidence.exists({ network: dispute.network, escrowId: dispute.escrowId, sha256 })) {
+      throw Object.assign(new Error('This file has already been submitted as evidence'), { statusCode: 409 });
+    }
+
+    const storage = getEvidenceStorage();
+    const evidenceId = crypto.randomUUID();
+    const key = `${dispute.network}/${dispute.escrowId}/${evidenceId}${type.extension}`;
+    await storage.put(key, file.buffer, file.mimetype);
+
+    let evidence: IEvidence;
+    try {
+      evidence = await Evidence.create({
+        evidenceId,
+        network: dispute.network,
+        escrowId: dispute.escrowId,
+        uploadedBy: uploader.account.email,
+        uploaderRole: uploader.role,
+        fileName: file.originalname.slice(0, 255),
+        contentType: file.mimetype,
+        size: file.size,
+        sha256,
+        description,
+        storage: { backend: storage.backend, key }
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw Object.assign(new Error('This file has already been submitted as evidence'), { statusCode: 409 });
+      }
+      throw error;
+    }
+
+    try {
+      const job = await networkRegistry.get(dispute.network).disputeService
+        .asUser(uploader.account)
+        .withJob({ context: { escrowId: dispute.escrowId, evidenceId } })
+        .addEvidence(dispute.escrowId, `sha256:${sha256}`);
+
+      evidence.anchor.jobId = job.jobId;
+      await evidence.save();
+    } catch (error: any) {
+      // The file is kept; only the on-chain anchor is missing
+      logger.error(`Could not queue the evidence anchor for ${evidenceId}:`, error);
+      await this.markAnchorFailed(evidenceId, error.message);
+      evidence.anchor.status = 'failed';
+      evidence.anchor.failureReason = error.message;
+    }
+
+    logger.info(`Evidence ${evidenceId} (${file.mimetype}, ${file.size} bytes) uploaded to escrow ${dispute.escrowId} by ${uploader.account.email}`);
+    const recipients = [dispute.buyerEmail, dispute.sellerEmail, dispute.arbitrator].filter(Boolean) as string[];
+    getWebSocketService()?.notifyUsers(recipients, 'dispute:evidence', {
+      network: dispute.network,
+      escrowId: dispute.escrowId,
+      evidenceId,
+      uploadedBy: uploader.role,
+      sha256
+    });
+
+    return evidence;
+  }
+
+  async list(dispute: IDispute): Promise<IEvidence[]> {
+    return Evidence.find({ network: dispute.network, escrowId: dispute.escrowId }).sort({ createdAt: 1 });
+  }
+
+  async open(dispute: IDispute, evidenceId: string): Promise<{ evidence: IEvidence; content: Readable }> {
+    const evidence = await Evidence.findOne({ evidenceId, network: dispute.network, escrowId: dispute.escrowId });
+    if (!evidence) {
+      throw Object.assign(new Error('Evidence not found'), { statusCode: 404 });
+    }
+
+    const storage = getEvidenceStorage();
+    if (storage.backend !== evidence.storage.backend) {
+      throw Object.assign(new Error(`Evidence is stored on ${evidence.storage.backend}, which is not the configured backend`), { statusCode: 503 });
+    }
+
+    return { evidence, content: await storage.get(evidence.storage.key) };
+  }
+
+  async markAnchored(evidenceId: string, transactionHash: string): Promise<void> {
+    await Evidence.updateOne(
+      { evidenceId },
+      {
+        $set: { 'anchor.status': 'confirmed', 'anchor.transactionHash': transactionHash, 'anchor.anchoredAt': new Date() },
+        $unset: { 'anchor.failureReason': '' }
+      }
+    );
+  }
+
+  async markAnchorFailed(evidenceId: string, reason: string): Promise<void> {
+    await Evidence.updateOne(
+      { evidenceId, 'anchor.status': { $ne: 'confirmed' } },
+      { $set: { 'anchor.status': 'failed', 'anchor.failureReason': reason } }
+    );
+  }
+
+  /**
+   * What clients see; the storage key stays server-side
+   */
+  toResponse(evidence: IEvidence) {
+    return {
+      evidenceId: evidence.evidenceId,
+      escrowId: evidence.escrowId,
+      uploadedBy: evidence.uploadedBy,
+      uploaderRole: evidence.uploaderRole,
+      fileName: evidence.fileName,
+      contentType: evidence.contentType,
+      size: evidence.size,
+      sha256: evidence.sha256,
+      description: evidence.description,
+      anchor: evidence.anchor,
+      createdAt: evidence.createdAt
+    };
+  }
+}
+
+export const evidenceService = new EvidenceService();
@@ -0,0 +1,109 @@
+import { promises as fs, createReadStream } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+export type StorageBackend = 'local' | 's3';
+
+/**
+ * Where evidence files live; keys are generated by EvidenceService and never come from the client
+ */
+export interface EvidenceStorage {
+  readonly backend: StorageBackend;
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+}
+
+export class LocalEvidenceStorage implements EvidenceStorage {
+  readonly backend = 'local';
+  private readonly root: string;
+
+  constructor(directory: string) {
+    this.root = path.resolve(directory);
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const file = this.pathOf(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // wx: keys are unique, so an existing file means something went wrong rather than a retry to overwrite
+    await fs.writeFile(file, content, { flag: 'wx' });
+  }
+
+  async get(key: string): Promise<Readable> {
+    const file = this.pathOf(key);
+    await fs.access(file).catch(() => {
+      throw Object.assign(new Error('Evidence file is missing from storage'), { statusCode: 404 });
+    });
+    return createReadStream(file);
+  }
+
+  private pathOf(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid evidence storage key: ${key}`);
+    }
+    return file;
+  }
+}
+
+export class S3EvidenceStorage implements EvidenceStorage {
+  readonly backend = 's3';
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string) {
+    const { s3Region, s3Endpoint, s3AccessKeyId, s3SecretAccessKey, s3ForcePathStyle } = config.evidence;
+
+    this.client = new S3Client({
+      region: s3Region,
+      endpoint: s3Endpoint || undefined,
+      forcePathStyle: s3ForcePathStyle,
+      // Without explicit keys the SDK's default chain applies (instance roles, AWS_* variables)
+      credentials: s3AccessKeyId && s3SecretAccessKey
+        ? { accessKeyId: s3AccessKeyId, secretAccessKey: s3SecretAccessKey }
+        : undefined
+    });
+  }
+
+  async put(key: string, content: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: content,
+      ContentType: contentType
+    }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.Body as Readable;
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey') {
+        throw Object.assign(new Error('Evidence file is missing from storage'), { statusCode: 404 });
+      }
+      throw error;
+    }
+  }
+}
+
+let storage: EvidenceStorage | null = null;
+
+/**
+ * The configured backend (EVIDENCE_STORAGE), created on first use
+ */
+export function getEvidenceStorage(): EvidenceStorage {
+  if (!storage) {
+    if (config.evidence.storage === 's3') {
+      if (!config.evidence.s3Bucket) {
+        throw new Error('EVIDENCE_S3_BUCKET is required when EVIDENCE_STORAGE=s3');
+      }
+      storage = new S3EvidenceStorage(config.evidence.s3Bucket);
+    } else {
+      storage = new LocalEvidenceStorage(config.evidence.localDir);
+    }
+    logger.info(`Evidence storage: ${storage.backend}`);
+  }
+  return storage;
+}
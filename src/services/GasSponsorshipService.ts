@@ -0,0 +1,164 @@
+import { ethers } from 'ethers';
+import mongoose from 'mongoose';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { NetworkKey } from '../config/networks';
+import { GasSponsorship, IGasSponsorship } from '../models/GasSponsorship';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Top-ups that count against a user's budget
+const SPENT_STATUSES = ['pending', 'confirmed'];
+
+export interface SponsorshipRequest {
+  userId: string;
+  email: string;
+  network: NetworkKey;
+  jobId: string;
+  callIndex: number;
+  kind: string;
+  method: string;
+  escrowId?: string;
+  treasury: string;
+  recipient: string;
+  amount: bigint;
+}
+
+export interface SponsorshipBudget {
+  enabled: boolean;
+  dailyBudget: string;
+  usedToday: string;
+  remaining: string;
+}
+
+/**
+ * Budgets and accounting for gas the platform treasury pays on users' behalf
+ * The transaction queue decides when a top-up is needed and sends it; this service
+ * decides whether the user may have it and keeps the record.
+ */
+class GasSponsorshipService {
+  isEnabled(): boolean {
+    return config.blockchain.gasSponsorshipEnabled;
+  }
+
+  /**
+   * Claim a top-up against the user's rolling 24h budget
+   * Returns the existing record when the job is retried, so each call is only sponsored once.
+   */
+  async reserve(request: SponsorshipRequest): Promise<IGasSponsorship> {
+    const existing = await GasSponsorship.findOne({ jobId: request.jobId, callIndex: request.callIndex });
+    if (existing?.status === 'failed') {
+      // The top-up was never broadcast; let the retried job send it again
+      existing.status = 'pending';
+      existing.topUpHash = undefined;
+      existing.failureReason = undefined;
+      await existing.save();
+    }
+    if (existing) {
+      return existing;
+    }
+
+    const record = await GasSponsorship.create({
+      ...request,
+      amount: request.amount.toString()
+    });
+
+    // Summed after our own record exists, so concurrent jobs cannot both slip under the budget
+    const used = await this.usedSince(request.userId, new Date(Date.now() - DAY_MS));
+    if (used > this.dailyBudget()) {
+      record.status = 'rejected';
+      record.failureReason = 'Daily gas sponsorship budget exhausted';
+      await record.save();
+      logger.warn(`Gas sponsorship refused for ${request.email}: budget exhausted`, { jobId: request.jobId });
+    }
+
+    return record;
+  }
+
+  /**
+   * Top-ups reserved or sent to a wallet but not yet mined, other than the given call's own
+   * Not in the wallet's balance yet, but already on their way to it.
+   */
+  async inFlightTo(network: NetworkKey, recipient: string, exclude: { jobId: string; callIndex: number }): Promise<bigint> {
+    const records = await GasSponsorship.find({
+      network,
+      recipient: recipient.toLowerCase(),
+      status: 'pending',
+      $nor: [{ jobId: exclude.jobId, callIndex: exclude.callIndex }]
+    }).select('amount').lean();
+
+    return records.reduce((sum, record) => sum + BigInt(record.amount), 0n);
+  }
+
+  async markSent(record: IGasSponsorship, topUpHash: string): Promise<void> {
+    record.topUpHash = topUpHash;
+    await record.save();
+  }
+
+  async markConfirmed(record: IGasSponsorship): Promise<void> {
+    record.status = 'confirmed';
+    await record.save();
+  }
+
+  async markFailed(record: IGasSponsorship, reason: string): Promise<void> {
+    record.status = 'failed';
+    record.failureReason = reason;
+    await record.save();
+  }
+
+  /**
+   * Attach the mined call and what it actually cost to its top-up, if it had one
+   */
+  async recordCallGas(jobId: string, callIndex: number, receipt: ethers.TransactionReceipt): Promise<void> {
+    await GasSponsorship.updateOne(
+      { jobId, callIndex, status: 'confirmed' },
+      { callHash: receipt.hash, gasCost: (receipt.gasUsed * receipt.gasPrice).toString() }
+    );
+  }
+
+  /**
+   * Escrow ids are only known once createEscrow is mined
+   */
+  async linkEscrow(network: NetworkKey, callHashes: string[], escrowId: string): Promise<void> {
+    await GasSponsorship.updateMany({ callHash: { $in: callHashes } }, { network, escrowId });
+  }
+
+  async getForEscrow(network: NetworkKey, escrowId: string): Promise<{ total: string; gasCost: string; sponsorships: IGasSponsorship[] }> {
+    const sponsorships = await GasSponsorship.find({ network, escrowId, status: 'confirmed' }).sort({ createdAt: 1 });
+
+    return {
+      total: sponsorships.reduce((sum, record) => sum + BigInt(record.amount), 0n).toString(),
+      gasCost: sponsorships.reduce((sum, record) => sum + BigInt(record.gasCost || '0'), 0n).toString(),
+      sponsorships
+    };
+  }
+
+  async getBudget(userId: string): Promise<SponsorshipBudget> {
+    const budget = this.dailyBudget();
+    const used = await this.usedSince(userId, new Date(Date.now() - DAY_MS));
+    const remaining = budget > used ? budget - used : 0n;
+
+    return {
+      enabled: this.isEnabled(),
+      dailyBudget: ethers.formatEther(budget),
+      usedToday: ethers.formatEther(used),
+      remaining: ethers.formatEther(remaining)
+    };
+  }
+
+  private async usedSince(userId: string, since: Date): Promise<bigint> {
+    const records = await GasSponsorship.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      status: { $in: SPENT_STATUSES },
+      createdAt: { $gte: since }
+    }).select('amount').lean();
+
+    return records.reduce((sum, record) => sum + BigInt(record.amount), 0n);
+  }
+
+  private dailyBudget(): bigint {
+    return ethers.parseEther(config.blockchain.gasSponsorUserDailyBudgetEth);
+  }
+}
+
+export const gasSponsorshipService = new GasSponsorshipService();
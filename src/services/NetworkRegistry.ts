@@ -0,0 +1,123 @@
+import { logger } from '../utils/logger';
+import {
+  NETWORKS,
+  NetworkConfig,
+  NetworkKey,
+  DEFAULT_NETWORK_KEY,
+  getNetworkByChainId,
+  isNetworkEnabled
+} from '../config/networks';
+import { ProviderConfig } from './BlockchainService';
+import { EscrowService } from './EscrowService';
+import { PaymentService } from './PaymentService';
+import { ReputationService } from './ReputationService';
+import { DisputeService } from './DisputeService';
+import { EventIndexerService } from './EventIndexerService';
+import { TokenService } from './TokenService';
+import { ProviderPool, getProviderPool } from './ProviderPool';
+
+export interface NetworkServices {
+  network: NetworkConfig;
+  provider: ProviderPool;
+  escrowService: EscrowService;
+  paymentService: PaymentService;
+  reputationService: ReputationService;
+  disputeService: DisputeService;
+  tokenService: TokenService;
+  indexer: EventIndexerService;
+}
+
+/**
+ * Contract services for every enabled network, built once at startup
+ */
+class NetworkRegistry {
+  private readonly services: Map<NetworkKey, NetworkServices> = new Map();
+
+  init(privateKey: string): void {
+    if (this.services.size > 0) {
+      return;
+    }
+
+    for (const network of NETWORKS) {
+      if (!isNetworkEnabled(network)) {
+        logger.warn(`Network ${network.name} has no contract addresses configured; skipping`);
+        continue;
+      }
+
+      const providerConfig: ProviderConfig = {
+        rpcUrl: network.rpcUrl,
+        rpcUrls: network.rpcUrls,
+        chainId: network.chainId,
+        name: network.name
+      };
+
+      try {
+        // Same pool the contract services resolve, so health is shared across them
+        const provider = getProviderPool({
+          name: network.name,
+          chainId: network.chainId,
+          rpcUrls: network.rpcUrls
+        });
+        const tokenService = new TokenService(network, provider);
+
+        this.services.set(network.key, {
+          network,
+          provider,
+          escrowService: new EscrowService(providerConfig, privateKey, network.contracts.ESCROW_MANAGER, tokenService),
+          paymentService: new PaymentService(providerConfig, privateKey, network.contracts.PAYMENT_PROCESSOR, tokenService),
+          reputationService: new ReputationService(providerConfig, privateKey, network.contracts.REPUTATION_REGISTRY),
+          disputeService: new DisputeService(providerConfig, privateKey, network.contracts.DISPUTE_RESOLUTION, tokenService),
+          tokenService,
+          indexer: new EventIndexerService(network)
+        });
+        logger.info(`Blockchain services initialized for ${network.name}`);
+      } catch (error) {
+        logger.error(`Failed to initialize blockchain services for ${network.name}:`, error);
+      }
+    }
+
+    if (!this.services.has(DEFAULT_NETWORK_KEY)) {
+      throw new Error(`Default network ${DEFAULT_NETWORK_KEY} is not available`);
+    }
+  }
+
+  /**
+   * Load each network's persisted token registry, cross-checked against its escrow contract
+   * A network whose registry fails to load keeps serving its configured tokens.
+   */
+  async loadTokens(): Promise<void> {
+    await Promise.all(this.all().map(async ({ network, tokenService, escrowService }) => {
+      try {
+        await tokenService.load(token => escrowService.isTokenSupported(token));
+      } catch (error) {
+        logger.error(`Failed to load token registry for ${network.name}:`, error);
+      }
+    }));
+  }
+
+  /**
+   * Services for a network; throws a 400 for networks that are unknown or not deployed
+   */
+  get(key: NetworkKey = DEFAULT_NETWORK_KEY): NetworkServices {
+    const services = this.services.get(key);
+    if (!services) {
+      throw Object.assign(new Error(`Network ${key} is not available`), { statusCode: 400 });
+    }
+    return services;
+  }
+
+  getByChainId(chainId: number): NetworkServices | undefined {
+    const network = getNetworkByChainId(chainId);
+    return network ? this.services.get(network.key) : undefined;
+  }
+
+  has(key: NetworkKey): boolean {
+    return this.services.has(key);
+  }
+
+  all(): NetworkServices[] {
+    return Array.from(this.services.values());
+  }
+}
+
+export const networkRegistry = new NetworkRegistry();
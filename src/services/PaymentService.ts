@@ -1,22 +1,41 @@
 import { BlockchainService, ProviderConfig } from './BlockchainService';
+import { TokenService } from './TokenService';
 import { ethers } from 'ethers';
 
+const IERC20 = new ethers.Interface([
+  "function approve(address spender, uint256 amount) external returns (bool)"
+]);
+
 export class PaymentService extends BlockchainService {
-  constructor(providerConfig: ProviderConfig, privateKey: string, paymentProcessorAddress: string) {
+  constructor(
+    providerConfig: ProviderConfig,
+    privateKey: string,
+    paymentProcessorAddress: string,
+    private tokenService: TokenService
+  ) {
     const paymentProcessorABI = [
-      "function makePayment(address _payee, uint256 _amount, address _token) external payable returns (bytes32)"
+      "function makePayment(address _payee, uint256 _amount, address _token) external payable returns (bytes32)",
+      "event PaymentMade(bytes32 indexed paymentId, address indexed payer, address indexed payee, uint256 amount, address token)"
     ];
     
     super(providerConfig, privateKey, paymentProcessorAddress, paymentProcessorABI);
   }
 
   async makePayment(payee: string, amount: string, tokenAddress: string): Promise<any> {
-    const parsedAmount = ethers.parseEther(amount);
+    const parsedAmount = this.tokenService.parseAmount(tokenAddress, amount);
     
     if (tokenAddress === ethers.ZeroAddress) {
       return this.executeTransaction('makePayment', payee, parsedAmount, tokenAddress, { value: parsedAmount });
     } else {
-      return this.executeTransaction('makePayment', payee, parsedAmount, tokenAddress);
+      // The processor pulls the tokens, so the approval is mined first in the same job
+      return this.submit('makePayment', [
+        {
+          method: 'approve',
+          to: tokenAddress,
+          data: IERC20.encodeFunctionData('approve', [this.contract.target, parsedAmount])
+        },
+        this.encodeCall('makePayment', payee, parsedAmount, tokenAddress)
+      ]);
     }
   }
 }
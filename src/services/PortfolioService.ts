@@ -0,0 +1,197 @@
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { Transaction } from '../models/Transaction';
+import { networkRegistry, NetworkServices } from './NetworkRegistry';
+import { TokenInfo } from './TokenService';
+import { OPEN_ESCROW_STATUSES } from './EscrowStateMachine';
+
+export interface TokenBalance {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  // Null when the balance has never been read successfully; never a fabricated zero
+  balance: string | null;
+  balanceBaseUnits: string | null;
+  fetchedAt: Date | null;
+  // Served from cache because the RPC call just failed
+  stale: boolean;
+  unavailable: boolean;
+}
+
+export interface LockedFunds {
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  // Still held by escrows the user is funding
+  asBuyer: string;
+  // Held by escrows that will pay out to the user
+  asSeller: string;
+  escrowCount: number;
+}
+
+export interface NetworkPortfolio {
+  key: string;
+  name: string;
+  chainId: number;
+  testnet: boolean;
+  tokens: TokenBalance[];
+  locked: LockedFunds[];
+}
+
+interface CachedBalance {
+  value: bigint;
+  fetchedAt: number;
+}
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+// A failed read falls back to a cached value for at most this long
+const MAX_STALE_MS = 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 10000;
+
+/**
+ * Wallet balances for every registered token on every network, plus funds locked in escrow
+ * Balances are cached briefly per chain, token and owner to keep the RPC pools from
+ * being hammered by dashboards that poll.
+ */
+class PortfolioService {
+  private readonly cache: Map<string, CachedBalance> = new Map();
+
+  async getPortfolio(email: string, walletAddress: string): Promise<NetworkPortfolio[]> {
+    return Promise.all(networkRegistry.all().map(services => this.getNetworkPortfolio(services, email, walletAddress)));
+  }
+
+  private async getNetworkPortfolio(services: NetworkServices, email: string, walletAddress: string): Promise<NetworkPortfolio> {
+    const { network, tokenService } = services;
+    const tokens = await tokenService.getSupportedTokens();
+
+    const [balances, locked] = await Promise.all([
+      Promise.all(tokens.map(token => this.getBalance(services, token, walletAddress))),
+      this.getLockedFunds(network.key, email)
+    ]);
+
+    return {
+      key: network.key,
+      name: network.name,
+      chainId: network.chainId,
+      testnet: network.testnet,
+      tokens: balances,
+      locked
+    };
+  }
+
+  private async getBalance(services: NetworkServices, token: TokenInfo, owner: string): Promise<TokenBalance> {
+    const key = `${services.network.chainId}:${token.address}:${owner.toLowerCase()}`;
+    const cached = this.cache.get(key);
+    const now = Date.now();
+
+    let entry: CachedBalance | undefined;
+    let stale = false;
+
+    if (cached && now - cached.fetchedAt < config.blockchain.portfolioCacheSeconds * 1000) {
+      entry = cached;
+    } else {
+      try {
+        entry = { value: await this.readBalance(services, token, owner), fetchedAt: now };
+        this.remember(key, entry);
+      } catch (error: any) {
+        logger.warn(`Balance lookup failed for ${token.symbol} on ${services.network.name}`, {
+          owner,
+          error: error.shortMessage || error.message
+        });
+
+        if (cached && now - cached.fetchedAt < MAX_STALE_MS) {
+          entry = cached;
+          stale = true;
+        } else {
+          this.cache.delete(key);
+        }
+      }
+    }
+
+    return {
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      balance: entry ? ethers.formatUnits(entry.value, token.decimals) : null,
+      balanceBaseUnits: entry ? entry.value.toString() : null,
+      fetchedAt: entry ? new Date(entry.fetchedAt) : null,
+      stale,
+      unavailable: !entry
+    };
+  }
+
+  private remember(key: string, entry: CachedBalance): void {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      const cutoff = Date.now() - MAX_STALE_MS;
+      this.cache.forEach((cached, cachedKey) => {
+        if (cached.fetchedAt < cutoff) {
+          this.cache.delete(cachedKey);
+        }
+      });
+    }
+    this.cache.set(key, entry);
+  }
+
+  private async readBalance({ provider }: NetworkServices, token: TokenInfo, owner: string): Promise<bigint> {
+    if (token.address === ethers.ZeroAddress) {
+      return provider.getBalance(owner);
+    }
+
+    const contract = new ethers.Contract(token.address, ERC20_BALANCE_ABI, provider);
+    return contract.balanceOf(owner);
+  }
+
+  /**
+   * Escrowed amounts still held by the contract, from the user's open Transactions
+   * Milestones already released are subtracted from the escrow total.
+   */
+  private async getLockedFunds(network: string, email: string): Promise<LockedFunds[]> {
+    const transactions = await Transaction.find({
+      network,
+      status: { $in: OPEN_ESCROW_STATUSES },
+      $or: [{ buyerEmail: email }, { sellerEmail: email }]
+    }).select('buyerEmail amount currency tokenAddress decimals metadata.milestones').lean();
+
+    const byToken: Map<string, { symbol: string; decimals: number; asBuyer: bigint; asSeller: bigint; escrowCount: number }> = new Map();
+
+    for (const transaction of transactions) {
+      const released = (transaction.metadata?.milestones || [])
+        .filter(milestone => milestone.completed && milestone.amount)
+        .reduce((sum, milestone) => sum + BigInt(milestone.amount), 0n);
+      const remaining = BigInt(transaction.amount) - released;
+      if (remaining <= 0n) {
+        continue;
+      }
+
+      const totals = byToken.get(transaction.tokenAddress) || {
+        symbol: transaction.currency,
+        decimals: transaction.decimals,
+        asBuyer: 0n,
+        asSeller: 0n,
+        escrowCount: 0
+      };
+      if (transaction.buyerEmail === email) {
+        totals.asBuyer += remaining;
+      } else {
+        totals.asSeller += remaining;
+      }
+      totals.escrowCount++;
+      byToken.set(transaction.tokenAddress, totals);
+    }
+
+    return Array.from(byToken.entries()).map(([tokenAddress, totals]) => ({
+      tokenAddress,
+      symbol: totals.symbol,
+      decimals: totals.decimals,
+      asBuyer: ethers.formatUnits(totals.asBuyer, totals.decimals),
+      asSeller: ethers.formatUnits(totals.asSeller, totals.decimals),
+      escrowCount: totals.escrowCount
+    }));
+  }
+}
+
+export const portfolioService = new PortfolioService();
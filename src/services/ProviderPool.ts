@@ -0,0 +1,270 @@
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+export interface ProviderPoolConfig {
+  name: string;
+  chainId: number;
+  rpcUrls: string[];
+  timeout?: number;
+}
+
+export interface EndpointStatus {
+  url: string;
+  healthy: boolean;
+  quarantinedUntil?: Date;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+}
+
+export interface ProviderPoolStatus {
+  name: string;
+  chainId: number;
+  healthyEndpoints: number;
+  endpoints: EndpointStatus[];
+}
+
+interface Endpoint {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  latencyMs: number | null;
+  outcomes: boolean[];
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  quarantines: number;
+  quarantinedUntil: number;
+  lastError?: string;
+}
+
+// Error codes meaning the endpoint itself misbehaved; anything else is a real answer from the chain
+const ENDPOINT_ERROR_CODES = new Set(['SERVER_ERROR', 'TIMEOUT', 'NETWORK_ERROR', 'UNKNOWN_ERROR', 'BAD_DATA']);
+// A node answering this for a signed payload already has that exact transaction
+const ALREADY_KNOWN = /already known|known transaction|already imported/i;
+const OUTCOME_WINDOW = 50;
+const LATENCY_SMOOTHING = 0.3;
+const MAX_QUARANTINE_MS = 5 * 60 * 1000;
+
+/**
+ * An ethers provider backed by several RPC endpoints for one chain
+ * Each request goes to the healthiest endpoint and fails over to the next on endpoint errors;
+ * endpoints that keep failing are quarantined with exponential backoff.
+ * A broadcast that timed out may still have been relayed, so it is not sent to another endpoint.
+ */
+export class ProviderPool extends ethers.AbstractProvider {
+  private readonly endpoints: Endpoint[];
+  private readonly chainNetwork: ethers.Network;
+
+  constructor(private readonly poolConfig: ProviderPoolConfig) {
+    const network = ethers.Network.from(poolConfig.chainId);
+    super(network);
+    this.chainNetwork = network;
+
+    if (poolConfig.rpcUrls.length === 0) {
+      throw new Error(`No RPC URLs configured for ${poolConfig.name}`);
+    }
+
+    this.endpoints = poolConfig.rpcUrls.map(url => {
+      const request = new ethers.FetchRequest(url);
+      request.timeout = poolConfig.timeout || config.blockchain.rpcTimeoutMs;
+
+      return {
+        url,
+        provider: new ethers.JsonRpcProvider(request, network, { staticNetwork: network }),
+        latencyMs: null,
+        outcomes: [],
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        quarantines: 0,
+        quarantinedUntil: 0
+      };
+    });
+
+    logger.info(`Provider pool for ${poolConfig.name} created with ${this.endpoints.length} endpoint(s)`);
+  }
+
+  async _detectNetwork(): Promise<ethers.Network> {
+    return this.chainNetwork;
+  }
+
+  async _perform<T = any>(req: ethers.PerformActionRequest): Promise<T> {
+    let lastError: any;
+
+    for (const endpoint of this.ranked()) {
+      const startedAt = Date.now();
+
+      try {
+        const result = await endpoint.provider._perform(req);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error: any) {
+        if (req.method === 'broadcastTransaction' && this.isAlreadyKnown(error)) {
+          // Taken by an earlier endpoint or attempt; the hash is the payload's own
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          return ethers.keccak256(req.signedTransaction) as T;
+        }
+
+        if (!this.isEndpointError(error)) {
+          // Reverts, nonce and funds errors are the chain's answer; another endpoint would say the same
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+
+        this.recordFailure(endpoint, error);
+        lastError = error;
+        if (req.method === 'broadcastTransaction' && error.code === 'TIMEOUT') {
+          // The node may have relayed it; another endpoint would only see it as a duplicate or a used nonce
+          throw error;
+        }
+        logger.warn(`RPC ${req.method} failed on ${this.redact(endpoint.url)} (${this.poolConfig.name}), trying next endpoint`, {
+          code: error.code,
+          message: error.shortMessage || error.message
+        });
+      }
+    }
+
+    throw lastError;
+  }
+
+  getStatus(): ProviderPoolStatus {
+    const now = Date.now();
+    const endpoints = this.endpoints.map(endpoint => ({
+      url: this.redact(endpoint.url),
+      healthy: endpoint.quarantinedUntil <= now,
+      quarantinedUntil: endpoint.quarantinedUntil > now ? new Date(endpoint.quarantinedUntil) : undefined,
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Number(this.errorRate(endpoint).toFixed(3)),
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      lastError: endpoint.lastError
+    }));
+
+    return {
+      name: this.poolConfig.name,
+      chainId: this.poolConfig.chainId,
+      healthyEndpoints: endpoints.filter(endpoint => endpoint.healthy).length,
+      endpoints
+    };
+  }
+
+  destroy(): void {
+    this.endpoints.forEach(endpoint => endpoint.provider.destroy());
+    super.destroy();
+  }
+
+  /**
+   * Healthy endpoints by score, then quarantined ones as a last resort rather than failing outright
+   */
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const byScore = (a: Endpoint, b: Endpoint) => this.score(a) - this.score(b);
+
+    const healthy = this.endpoints.filter(endpoint => endpoint.quarantinedUntil <= now).sort(byScore);
+    const quarantined = this.endpoints
+      .filter(endpoint => endpoint.quarantinedUntil > now)
+      .sort((a, b) => a.quarantinedUntil - b.quarantinedUntil);
+
+    return [...healthy, ...quarantined];
+  }
+
+  /**
+   * Lower is better: smoothed latency, inflated by the recent error rate
+   * Untried endpoints score 0 so every URL gets measured; ones that never answered count as timing out.
+   */
+  private score(endpoint: Endpoint): number {
+    if (endpoint.requests === 0) {
+      return 0;
+    }
+    const latencyMs = endpoint.latencyMs ?? config.blockchain.rpcTimeoutMs;
+    return latencyMs * (1 + 4 * this.errorRate(endpoint));
+  }
+
+  private errorRate(endpoint: Endpoint): number {
+    if (endpoint.outcomes.length === 0) {
+      return 0;
+    }
+    return endpoint.outcomes.filter(ok => !ok).length / endpoint.outcomes.length;
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.requests++;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    this.pushOutcome(endpoint, true);
+
+    if (endpoint.quarantines > 0) {
+      logger.info(`RPC endpoint ${this.redact(endpoint.url)} (${this.poolConfig.name}) recovered`);
+    }
+    endpoint.consecutiveFailures = 0;
+    endpoint.quarantines = 0;
+  }
+
+  private recordFailure(endpoint: Endpoint, error: any): void {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error.shortMessage || error.message;
+    this.pushOutcome(endpoint, false);
+
+    if (endpoint.consecutiveFailures >= config.blockchain.rpcFailureThreshold) {
+      endpoint.quarantines++;
+      const backoffMs = Math.min(
+        config.blockchain.rpcQuarantineSeconds * 1000 * 2 ** (endpoint.quarantines - 1),
+        MAX_QUARANTINE_MS
+      );
+      endpoint.quarantinedUntil = Date.now() + backoffMs;
+      endpoint.consecutiveFailures = 0;
+      logger.warn(`RPC endpoint ${this.redact(endpoint.url)} (${this.poolConfig.name}) quarantined for ${Math.round(backoffMs / 1000)}s`);
+    }
+  }
+
+  private pushOutcome(endpoint: Endpoint, ok: boolean): void {
+    endpoint.outcomes.push(ok);
+    if (endpoint.outcomes.length > OUTCOME_WINDOW) {
+      endpoint.outcomes.shift();
+    }
+  }
+
+  private isEndpointError(error: any): boolean {
+    return !error?.code || ENDPOINT_ERROR_CODES.has(error.code);
+  }
+
+  // JsonRpcProvider does not map this one, so it arrives as UNKNOWN_ERROR with the node's message inside
+  private isAlreadyKnown(error: any): boolean {
+    return ALREADY_KNOWN.test(error?.error?.message || '') || ALREADY_KNOWN.test(error?.message || '');
+  }
+
+  /**
+   * Hosted RPC URLs often carry an API key in the path or query
+   */
+  private redact(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return parsed.pathname.length > 1 || parsed.search ? `${parsed.origin}/…` : parsed.origin;
+    } catch {
+      return 'invalid-url';
+    }
+  }
+}
+
+const pools: Map<string, ProviderPool> = new Map();
+
+/**
+ * One shared pool per chain and URL set, so every service on a network sees the same endpoint health
+ */
+export function getProviderPool(poolConfig: ProviderPoolConfig): ProviderPool {
+  const key = `${poolConfig.chainId}:${poolConfig.rpcUrls.join(',')}`;
+  let pool = pools.get(key);
+
+  if (!pool) {
+    pool = new ProviderPool(poolConfig);
+    pools.set(key, pool);
+  }
+
+  return pool;
+}
@@ -0,0 +1,388 @@
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { User, IUser } from '../models/User';
+import { Transaction, ITransaction, EscrowStatus } from '../models/Transaction';
+import { Dispute, IDispute, DisputeParty } from '../models/Dispute';
+import { Review } from '../models/Review';
+import { ReputationHistory, IReputationHistory, IReputationFactor } from '../models/ReputationHistory';
+import { networkRegistry } from './NetworkRegistry';
+import { getWebSocketService } from './websocket';
+
+export interface ReputationEngineStatus {
+  running: boolean;
+  sweepSeconds: number;
+  lastRunAt?: Date;
+  lastError?: string;
+}
+
+export interface ReputationBreakdown {
+  score: number;
+  factors: IReputationFactor[];
+  stats: {
+    totalTransactions: number;
+    completedTransactions: number;
+    disputes: number;
+    // Released to the seller in the native currency (ETH); token amounts cannot be added to it
+    totalVolume: number;
+    averageRating: number | null;
+    reviewCount: number;
+  };
+}
+
+/**
+ * Points per escrow outcome or review before the recency weighting
+ * A lost dispute costs as much as three clean deals earn, so outcomes of disputes dominate the score.
+ */
+const POINTS = {
+  completed: 20,
+  partially_released: 10,
+  // Only the seller is marked down for an escrow refunded without a dispute
+  refunded: -10,
+  // Scaled by the share of the escrow the arbitrator decided against the user
+  dispute_lost: -60,
+  // Against the party the dispute was filed against, until it is decided
+  dispute_open: -10,
+  // Per star above or below a neutral 3-star review from a counterparty
+  review: 8
+};
+
+type FactorKind = keyof typeof POINTS;
+
+const FACTOR_LABELS: Record<FactorKind, string> = {
+  completed: 'escrow(s) completed',
+  partially_released: 'escrow(s) partially released',
+  refunded: 'escrow(s) refunded to the buyer',
+  dispute_lost: 'dispute(s) decided against the user',
+  dispute_open: 'open dispute(s) filed against the user',
+  review: 'review(s) received'
+};
+
+// Escrows that were never funded say nothing about either party
+const UNCOUNTED_STATUSES: EscrowStatus[] = ['pending', 'cancelled'];
+const NEUTRAL_RATING = 3;
+const NEUTRAL_SCORE = 500;
+const MAX_SCORE = 1000;
+// Net points at which a score sits halfway between neutral and either end of the scale
+const SATURATION_POINTS = 200;
+const BATCH_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const formatPoints = (points: number): string => `${points >= 0 ? '+' : ''}${points.toFixed(1)}`;
+
+/**
+ * Derives User.reputation from escrow history and pushes changed scores on-chain
+ * Every escrow outcome and review earns or costs points, halved every REPUTATION_HALF_LIFE_DAYS, and the net
+ * is mapped onto 0-1000 around the neutral 500. Users whose escrows, disputes or reviews changed are recalculated
+ * each sweep, everyone else once per REPUTATION_REFRESH_HOURS so old activity keeps decaying.
+ * Scores are written to the registry on the default network with the platform key.
+ */
+class ReputationEngine {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRunAt?: Date;
+  private lastError?: string;
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info(`Reputation engine started (every ${config.blockchain.reputationSweepSeconds}s)`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): ReputationEngineStatus {
+    return {
+      running: this.running,
+      sweepSeconds: config.blockchain.reputationSweepSeconds,
+      lastRunAt: this.lastRunAt,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Recalculate one user straight away; returns the history entry, or null when the score did not move
+   */
+  async recalculate(email: string, requestedBy?: string): Promise<IReputationHistory | null> {
+    const user = await User.findOne({ email });
+    if (!user) {
+      throw Object.assign(new Error('User not found'), { statusCode: 404 });
+    }
+    return this.refresh(user, requestedBy ? { trigger: 'manual', requestedBy } : { trigger: 'scheduled' });
+  }
+
+  async compute(email: string, now = new Date()): Promise<ReputationBreakdown> {
+    const [transactions, disputes, reviews] = await Promise.all([
+      Transaction.find({
+        $or: [{ buyerEmail: email }, { sellerEmail: email }],
+        status: { $nin: UNCOUNTED_STATUSES }
+      }),
+      Dispute.find({ $or: [{ buyerEmail: email }, { sellerEmail: email }] }),
+      Review.find({ subjectEmail: email, 'moderation.status': 'published' }).select('rating createdAt')
+    ]);
+    const cases = new Map(disputes.map(dispute => [`${dispute.network}:${dispute.escrowId}`, dispute]));
+
+    const factors = new Map<FactorKind, IReputationFactor>();
+    const add = (kind: FactorKind, weight: number, scale = 1) => {
+      const factor = factors.get(kind) || { kind, count: 0, points: 0 };
+      factor.count += 1;
+      factor.points += POINTS[kind] * weight * scale;
+      factors.set(kind, factor);
+    };
+
+    const stats = { totalTransactions: transactions.length, completedTransactions: 0, disputes: 0, totalVolume: 0 };
+
+    for (const transaction of transactions) {
+      const role: DisputeParty = transaction.sellerEmail === email ? 'seller' : 'buyer';
+      const weight = this.recencyWeight(this.outcomeAt(transaction), now);
+      const dispute = cases.get(`${transaction.network}:${transaction.escrowId}`);
+
+      if (transaction.status === 'completed') {
+        stats.completedTransactions += 1;
+      }
+      if (transaction.tokenAddress === ethers.ZeroAddress) {
+        stats.totalVolume += Number(ethers.formatUnits(this.releasedAmount(transaction, dispute), transaction.decimals));
+      }
+
+      if (dispute || transaction.dispute?.createdAt) {
+        stats.disputes += 1;
+      }
+
+      // A disputed escrow is judged by the decision, not by how the funds ended up moving
+      if (dispute) {
+        if (dispute.resolution?.status === 'confirmed') {
+          const sellerShare = dispute.resolution.sellerShareBps / 10000;
+          const lostShare = role === 'seller' ? 1 - sellerShare : sellerShare;
+          if (lostShare > 0) {
+            add('dispute_lost', weight, lostShare);
+          }
+        } else if (dispute.openedByRole !== role) {
+          add('dispute_open', weight);
+        }
+      } else if (transaction.status === 'completed') {
+        add('completed', weight);
+      } else if (transaction.status === 'partially_released') {
+        add('partially_released', weight);
+      } else if (transaction.status === 'refunded' && role === 'seller') {
+        add('refunded', weight);
+      }
+    }
+
+    for (const review of reviews) {
+      add('review', this.recencyWeight(review.createdAt, now), review.rating - NEUTRAL_RATING);
+    }
+    const ratingTotal = reviews.reduce((sum, review) => sum + review.rating, 0);
+
+    const rounded = Array.from(factors.values()).map(factor => ({ ...factor, points: Math.round(factor.points * 100) / 100 }));
+    const net = rounded.reduce((sum, factor) => sum + factor.points, 0);
+
+    return {
+      score: Math.round(NEUTRAL_SCORE + (MAX_SCORE - NEUTRAL_SCORE) * net / (Math.abs(net) + SATURATION_POINTS)),
+      factors: rounded,
+      stats: {
+        ...stats,
+        totalVolume: Math.round(stats.totalVolume * 1e6) / 1e6,
+        averageRating: reviews.length > 0 ? Math.round((ratingTotal / reviews.length) * 100) / 100 : null,
+        reviewCount: reviews.length
+      }
+    };
+  }
+
+  async history(email: string, limit = 20): Promise<IReputationHistory[]> {
+    return ReputationHistory.find({ userEmail: email }).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  async markPushed(historyId: string, transactionHash: string): Promise<void> {
+    await ReputationHistory.updateOne(
+      { _id: historyId },
+      {
+        $set: { 'onChain.status': 'confirmed', 'onChain.transactionHash': transactionHash },
+        $unset: { 'onChain.failureReason': '' }
+      }
+    );
+  }
+
+  /**
+   * The next score change pushes the full score again, so a failed push is not retried on its own
+   */
+  async markPushFailed(historyId: string, reason: string): Promise<void> {
+    await ReputationHistory.updateOne(
+      { _id: historyId, 'onChain.status': { $ne: 'confirmed' } },
+      { $set: { 'onChain.status': 'failed', 'onChain.failureReason': reason } }
+    );
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    const startedAt = new Date();
+
+    try {
+      await this.runOnce(startedAt);
+      this.lastError = undefined;
+    } catch (error: any) {
+      this.lastError = error.message;
+      logger.error('Reputation pass failed:', error);
+    }
+
+    this.lastRunAt = startedAt;
+    this.schedule(config.blockchain.reputationSweepSeconds * 1000);
+  }
+
+  private async runOnce(now: Date): Promise<void> {
+    const staleBefore = new Date(now.getTime() - config.blockchain.reputationRefreshHours * HOUR_MS);
+    const since = this.lastRunAt || staleBefore;
+
+    const touched = await Promise.all([
+      Transaction.distinct('buyerEmail', { updatedAt: { $gte: since } }),
+      Transaction.distinct('sellerEmail', { updatedAt: { $gte: since } }),
+      Dispute.distinct('buyerEmail', { updatedAt: { $gte: since } }),
+      Dispute.distinct('sellerEmail', { updatedAt: { $gte: since } }),
+      Review.distinct('subjectEmail', { updatedAt: { $gte: since } })
+    ]);
+
+    const [changed, stale] = await Promise.all([
+      User.find({ email: { $in: Array.from(new Set(touched.flat())) } }),
+      User.find({ 'reputation.lastUpdated': { $lt: staleBefore } }).sort({ 'reputation.lastUpdated': 1 }).limit(BATCH_SIZE)
+    ]);
+
+    const users = new Map([...changed, ...stale].map(user => [user.email, user]));
+    for (const user of users.values()) {
+      try {
+        await this.refresh(user, { trigger: 'scheduled' });
+      } catch (error) {
+        logger.error(`Could not recalculate the reputation of ${user.email}:`, error);
+      }
+    }
+  }
+
+  private async refresh(
+    user: IUser,
+    trigger: { trigger: 'scheduled' } | { trigger: 'manual'; requestedBy: string }
+  ): Promise<IReputationHistory | null> {
+    const { score, factors, stats } = await this.compute(user.email);
+    const previousScore = user.reputation?.score ?? NEUTRAL_SCORE;
+
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { reputation: { score, ...stats, lastUpdated: new Date() } } }
+    );
+
+    if (score === previousScore) {
+      return null;
+    }
+
+    const previous = await ReputationHistory.findOne({ userEmail: user.email }).sort({ createdAt: -1 });
+    const change = await ReputationHistory.create({
+      userEmail: user.email,
+      walletAddress: user.walletAddress,
+      previousScore,
+      score,
+      reasons: this.explain(previous?.factors || [], factors),
+      factors,
+      stats,
+      ...trigger
+    });
+
+    logger.info(`Reputation of ${user.email} moved from ${previousScore} to ${score}: ${change.reasons.join('; ')}`);
+    getWebSocketService()?.notifyUser(user.email, 'reputation:updated', {
+      previousScore,
+      score,
+      reasons: change.reasons
+    });
+
+    await this.push(change);
+    return change;
+  }
+
+  private async push(change: IReputationHistory): Promise<void> {
+    if (!change.walletAddress) {
+      return;
+    }
+
+    try {
+      const job = await networkRegistry.get().reputationService
+        .withJob({ context: { historyId: change._id!.toString() }, requestedBy: change.requestedBy })
+        .updateReputation(change.walletAddress, change.score);
+
+      change.onChain = { status: 'queued', jobId: job.jobId };
+    } catch (error: any) {
+      logger.error(`Could not queue the reputation update for ${change.userEmail}:`, error);
+      change.onChain = { status: 'failed', failureReason: error.message };
+    }
+    await change.save();
+  }
+
+  /**
+   * One line per kind of activity that was added or decided since the last change,
+   * plus the drift from older activity losing weight
+   */
+  private explain(previous: IReputationFactor[], current: IReputationFactor[]): string[] {
+    const reasons: string[] = [];
+    let decay = 0;
+
+    for (const kind of Object.keys(POINTS) as FactorKind[]) {
+      const before = previous.find(factor => factor.kind === kind) || { count: 0, points: 0 };
+      const after = current.find(factor => factor.kind === kind) || { count: 0, points: 0 };
+      const points = after.points - before.points;
+
+      if (after.count !== before.count) {
+        const count = after.count - before.count;
+        reasons.push(`${count > 0 ? '+' : ''}${count} ${FACTOR_LABELS[kind]} (${formatPoints(points)} points)`);
+      } else {
+        decay += points;
+      }
+    }
+
+    if (Math.abs(decay) >= 0.1) {
+      reasons.push(`Older activity carries less weight (${formatPoints(decay)} points)`);
+    }
+    return reasons.length > 0 ? reasons : ['Recalculated from escrow history'];
+  }
+
+  private recencyWeight(at: Date, now: Date): number {
+    const ageDays = Math.max(0, now.getTime() - at.getTime()) / DAY_MS;
+    return Math.pow(0.5, ageDays / config.blockchain.reputationHalfLifeDays);
+  }
+
+  private outcomeAt(transaction: ITransaction): Date {
+    const last = transaction.timeline[transaction.timeline.length - 1];
+    return transaction.dispute?.resolvedAt || last?.timestamp || transaction.updatedAt;
+  }
+
+  // A decided dispute paid the seller their share of what was left on top of the milestones already released
+  private releasedAmount(transaction: ITransaction, dispute?: IDispute): bigint {
+    const milestones = () => (transaction.metadata.milestones || [])
+      .filter(milestone => milestone.status === 'released' || milestone.completed)
+      .reduce((sum, milestone) => sum + BigInt(milestone.amount), 0n);
+
+    if (dispute?.resolution?.status === 'confirmed') {
+      return milestones() + BigInt(dispute.resolution.sellerAmount);
+    }
+    if (transaction.status === 'completed') {
+      return BigInt(transaction.amount);
+    }
+    if (transaction.status !== 'partially_released') {
+      return 0n;
+    }
+    return milestones();
+  }
+}
+
+export const reputationEngine = new ReputationEngine();
@@ -1,4 +1,5 @@
 import { BlockchainService, ProviderConfig } from './BlockchainService';
+import { QueuedTransaction } from './TransactionQueueService';
 
 export class ReputationService extends BlockchainService {
   constructor(providerConfig: ProviderConfig, privateKey: string, reputationRegistryAddress: string) {
@@ -10,7 +11,10 @@ export class ReputationService extends BlockchainService {
     super(providerConfig, privateKey, reputationRegistryAddress, reputationRegistryABI);
   }
 
-  async updateReputation(userAddress: string, newReputation: number): Promise<any> {
+  /**
+   * Only ReputationEngine calls this; scores are derived from escrow history, never written by hand
+   */
+  async updateReputation(userAddress: string, newReputation: number): Promise<QueuedTransaction> {
     return this.executeTransaction('updateReputation', userAddress, newReputation);
   }
 
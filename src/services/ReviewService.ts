@@ -0,0 +1,194 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { sanitizeString, sanitizeUrl } from '../utils/sanitize';
+import { Review, IReview, ReviewStatus } from '../models/Review';
+import { ITransaction } from '../models/Transaction';
+import { DisputeParty } from '../models/Dispute';
+import { getWebSocketService } from './websocket';
+
+export interface ReviewInput {
+  rating: number;
+  text?: string;
+  photos?: string[];
+}
+
+export interface RatingSummary {
+  // null until there is at least one published review
+  averageRating: number | null;
+  count: number;
+  // Published reviews per star, 1 to 5
+  distribution: Record<number, number>;
+}
+
+export interface ReviewPage {
+  reviews: IReview[];
+  total: number;
+}
+
+const PUBLISHED = { 'moderation.status': 'published' };
+
+/**
+ * Ratings the parties of a completed escrow leave each other
+ * Buyers review the vendor (and the product, when the escrow paid for one), sellers review the buyer.
+ * Only published reviews are listed and count towards ratings and reputation.
+ */
+class ReviewService {
+  async create(
+    transaction: ITransaction,
+    reviewer: { email: string; role: DisputeParty },
+    input: ReviewInput
+  ): Promise<IReview> {
+    if (transaction.status !== 'completed') {
+      throw Object.assign(new Error('Reviews open once the escrow has been completed'), { statusCode: 409 });
+    }
+
+    let review: IReview;
+    try {
+      review = await Review.create({
+        reviewId: randomUUID(),
+        network: transaction.network,
+        escrowId: transaction.escrowId,
+        transactionId: transaction.transactionId,
+        productId: reviewer.role === 'buyer' ? transaction.productId : undefined,
+        reviewerEmail: reviewer.email,
+        reviewerRole: reviewer.role,
+        subjectEmail: reviewer.role === 'buyer' ? transaction.sellerEmail : transaction.buyerEmail,
+        rating: input.rating,
+        text: input.text ? sanitizeString(input.text) : undefined,
+        photos: (input.photos || []).map(photo => sanitizeUrl(photo)).filter(Boolean)
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw Object.assign(new Error(`The ${reviewer.role} has already reviewed this escrow`), { statusCode: 409 });
+      }
+      throw error;
+    }
+
+    logger.info(`Review ${review.reviewId} (${review.rating}/5) left by the ${reviewer.role} of escrow ${transaction.escrowId}`);
+    getWebSocketService()?.notifyUser(review.subjectEmail, 'review:received', {
+      network: review.network,
+      escrowId: review.escrowId,
+      reviewId: review.reviewId,
+      rating: review.rating
+    });
+
+    return review;
+  }
+
+  async forEscrow(network: string, escrowId: string): Promise<IReview[]> {
+    return Review.find({ network, escrowId }).sort({ createdAt: 1 });
+  }
+
+  async forSubject(email: string, page: number, limit: number): Promise<ReviewPage> {
+    return this.page({ subjectEmail: email, ...PUBLISHED }, page, limit);
+  }
+
+  async forProduct(productId: string, page: number, limit: number): Promise<ReviewPage> {
+    return this.page({ productId, ...PUBLISHED }, page, limit);
+  }
+
+  async summaryForSubject(email: string): Promise<RatingSummary> {
+    return this.summarise({ subjectEmail: email, ...PUBLISHED });
+  }
+
+  async summaryForProduct(productId: string): Promise<RatingSummary> {
+    return this.summarise({ productId, ...PUBLISHED });
+  }
+
+  /**
+   * The vendor's public answer to a buyer's review; replying again replaces it
+   */
+  async reply(reviewId: string, vendorEmail: string, text: string): Promise<IReview> {
+    const review = await Review.findOne({ reviewId, subjectEmail: vendorEmail, reviewerRole: 'buyer' });
+    if (!review) {
+      throw Object.assign(new Error('Review not found'), { statusCode: 404 });
+    }
+    if (review.moderation.status === 'removed') {
+      throw Object.assign(new Error('This review has been removed'), { statusCode: 409 });
+    }
+
+    review.reply = { text: sanitizeString(text), repliedAt: new Date() };
+    await review.save();
+
+    getWebSocketService()?.notifyUser(review.reviewerEmail, 'review:replied', {
+      network: review.network,
+      escrowId: review.escrowId,
+      reviewId
+    });
+    return review;
+  }
+
+  async moderate(reviewId: string, subjectEmail: string, status: ReviewStatus, actor: string, reason?: string): Promise<IReview> {
+    const review = await Review.findOneAndUpdate(
+      { reviewId, subjectEmail },
+      {
+        $set: {
+          'moderation.status': status,
+          'moderation.moderatedBy': actor,
+          'moderation.moderatedAt': new Date(),
+          ...(reason && { 'moderation.reason': sanitizeString(reason) })
+        },
+        ...(!reason && { $unset: { 'moderation.reason': '' } })
+      },
+      { new: true }
+    );
+    if (!review) {
+      throw Object.assign(new Error('Review not found'), { statusCode: 404 });
+    }
+
+    logger.info(`Review ${reviewId} ${status} by ${actor}${reason ? `: ${reason}` : ''}`);
+    return review;
+  }
+
+  /**
+   * What clients see; reviewer emails are only shown to the parties of the escrow
+   */
+  toResponse(review: IReview, includeParties = false) {
+    return {
+      reviewId: review.reviewId,
+      network: review.network,
+      escrowId: review.escrowId,
+      productId: review.productId,
+      reviewerRole: review.reviewerRole,
+      ...(includeParties && { reviewerEmail: review.reviewerEmail, subjectEmail: review.subjectEmail }),
+      rating: review.rating,
+      text: review.text,
+      photos: review.photos,
+      reply: review.reply?.text ? review.reply : undefined,
+      moderation: includeParties ? review.moderation : undefined,
+      createdAt: review.createdAt
+    };
+  }
+
+  private async page(filter: Record<string, any>, page: number, limit: number): Promise<ReviewPage> {
+    const [reviews, total] = await Promise.all([
+      Review.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      Review.countDocuments(filter)
+    ]);
+    return { reviews, total };
+  }
+
+  private async summarise(filter: Record<string, any>): Promise<RatingSummary> {
+    const groups = await Review.aggregate<{ _id: number; count: number }>([
+      { $match: filter },
+      { $group: { _id: '$rating', count: { $sum: 1 } } }
+    ]);
+
+    const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let count = 0;
+    let total = 0;
+    for (const group of groups) {
+      distribution[group._id] = group.count;
+      count += group.count;
+      total += group._id * group.count;
+    }
+
+    return {
+      averageRating: count > 0 ? Math.round((total / count) * 100) / 100 : null,
+      count,
+      distribution
+    };
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -1,4 +1,6 @@
 import { logger } from '../utils/logger';
+import { Transaction } from '../models/Transaction';
+import { reviewService } from './ReviewService';
 import { Chain } from '../types';
 import { DDxyzService } from '../libs/DDxyzService';
 import { BlockRaderService } from '../libs/BlockRaderService';
@@ -24,9 +26,11 @@ export interface VendorSafetyProfile {
   lastChecked: Date;
   reputation: {
     totalTransactions: number;
-    successRate: number;
+    // null until the vendor has settled an escrow
+    successRate: number | null;
     disputeRate: number;
-    averageRating: number;
+    // null until the vendor has been rated
+    averageRating: number | null;
   };
 }
 
@@ -379,12 +383,13 @@ export class SafetyService {
             highRiskCount++;
           }
 
-          if (currentSafety.reputation.successRate < 0.8) {
+          const { successRate } = currentSafety.reputation;
+          if (successRate !== null && successRate < 0.8) {
             alerts.push({
               vendorId,
               alertType: 'reputation_drop',
               severity: 'medium',
-              message: `Vendor success rate dropped to ${(currentSafety.reputation.successRate * 100).toFixed(1)}%`,
+              message: `Vendor success rate dropped to ${(successRate * 100).toFixed(1)}%`,
               actionRequired: 'Monitor closely and review recent transactions'
             });
           }
@@ -474,12 +479,25 @@ export class SafetyService {
     };
   }
 
-  private async getExistingVendorReputation(vendorId: string) {
+  /**
+   * The vendor's record as a seller; success is measured over settled escrows so open deals do not drag it down
+   * A vendor without escrows has no track record rather than a perfect one.
+   */
+  private async getExistingVendorReputation(vendorId: string): Promise<VendorSafetyProfile['reputation']> {
+    const sellerEmail = vendorId.toLowerCase();
+    const [totalTransactions, completed, refunded, disputes, rating] = await Promise.all([
+      Transaction.countDocuments({ sellerEmail, status: { $nin: ['pending', 'cancelled'] } }),
+      Transaction.countDocuments({ sellerEmail, status: 'completed' }),
+      Transaction.countDocuments({ sellerEmail, status: 'refunded' }),
+      Transaction.countDocuments({ sellerEmail, 'dispute.createdAt': { $exists: true } }),
+      reviewService.summaryForSubject(sellerEmail)
+    ]);
+
     return {
-      totalTransactions: 0,
-      successRate: 1.0,
-      disputeRate: 0.0,
-      averageRating: 5.0
+      totalTransactions,
+      successRate: completed + refunded > 0 ? completed / (completed + refunded) : null,
+      disputeRate: totalTransactions > 0 ? disputes / totalTransactions : 0,
+      averageRating: rating.averageRating
     };
   }
 
@@ -496,11 +514,11 @@ export class SafetyService {
 
   private determineVerificationStatus(
     safetyResult: SafetyResult, 
-    reputation: any
+    reputation: VendorSafetyProfile['reputation']
   ): VendorSafetyProfile['verificationStatus'] {
     if (safetyResult.riskLevel === 'critical') return 'flagged';
     if (safetyResult.riskLevel === 'high') return 'pending';
-    if (safetyResult.riskLevel === 'low' && reputation.successRate > 0.95) return 'verified';
+    if (safetyResult.riskLevel === 'low' && reputation.successRate !== null && reputation.successRate > 0.95) return 'verified';
     return 'unverified';
   }
 
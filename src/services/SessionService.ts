@@ -0,0 +1,203 @@
+import * as crypto from 'crypto';
+import { Types } from 'mongoose';
+import { Session, ISession } from '../models/Session';
+import { User, IUser } from '../models/User';
+import { logger } from '../utils/logger';
+import { config } from '../config/env';
+import { Channel } from '../types';
+import { authService, IssuedAccessToken } from './AuthService';
+
+export interface SessionContext {
+  channel?: Channel;
+  device?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface IssuedSession extends IssuedAccessToken {
+  sessionId: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export type RevokeReason = NonNullable<ISession['revokedReason']>;
+
+// Avoid a write on every request just to bump lastSeenAt
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+class SessionService {
+  /**
+   * Start a new session for a user and issue its first token pair
+   */
+  async createSession(user: IUser, context: SessionContext): Promise<IssuedSession> {
+    const sessionId = crypto.randomUUID();
+    const secret = this.generateSecret();
+    const expiresAt = this.refreshExpiry();
+
+    await Session.create({
+      sessionId,
+      userId: user._id,
+      email: user.email,
+      refreshTokenHash: this.hashSecret(secret),
+      channel: context.channel || Channel.WEB,
+      device: context.device,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      lastSeenAt: new Date(),
+      expiresAt
+    });
+
+    logger.info('Session created', { email: user.email, sessionId, channel: context.channel || Channel.WEB });
+
+    return {
+      ...authService.issueAccessToken({ id: user.id, email: user.email, walletAddress: user.walletAddress }, sessionId),
+      sessionId,
+      refreshToken: `${sessionId}.${secret}`,
+      refreshTokenExpiresAt: expiresAt
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * The presented token is rotated out in a single compare-and-set on its hash, so of two requests
+   * presenting the same token only one gets a new pair; presenting it again revokes the session.
+   */
+  async refreshSession(refreshToken: string, context: SessionContext): Promise<{ user: IUser; session: IssuedSession }> {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+    const nextSecret = this.generateSecret();
+    const expiresAt = this.refreshExpiry();
+
+    const session = await Session.findOneAndUpdate(
+      {
+        sessionId,
+        refreshTokenHash: this.hashSecret(secret),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      },
+      {
+        $set: {
+          refreshTokenHash: this.hashSecret(nextSecret),
+          lastSeenAt: new Date(),
+          expiresAt,
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+          ...(context.userAgent && { userAgent: context.userAgent })
+        },
+        $inc: { rotationCounter: 1 }
+      },
+      { new: true }
+    );
+
+    if (!session) {
+      const current = await Session.findOne({ sessionId });
+      if (!current || current.revokedAt) {
+        throw new Error('Session is no longer active');
+      }
+
+      if (current.expiresAt.getTime() <= Date.now()) {
+        await this.markRevoked(current, 'expired');
+        throw new Error('Session is no longer active');
+      }
+
+      // The session is live but the token is not its current one: an older refresh token was replayed,
+      // or raced another request with the same token, so assume it leaked and kill the session
+      await this.markRevoked(current, 'token_reuse');
+      logger.warn('Refresh token reuse detected, session revoked', { email: current.email, sessionId });
+      throw new Error('Session is no longer active');
+    }
+
+    const user = await User.findById(session.userId);
+    if (!user) {
+      await this.markRevoked(session, 'signout');
+      throw new Error('Session is no longer active');
+    }
+
+    return {
+      user,
+      session: {
+        ...authService.issueAccessToken({ id: user.id, email: user.email, walletAddress: user.walletAddress }, sessionId),
+        sessionId,
+        refreshToken: `${sessionId}.${nextSecret}`,
+        refreshTokenExpiresAt: expiresAt
+      }
+    };
+  }
+
+  /**
+   * Check that an access token's session is still active and record activity
+   */
+  async validateSession(sessionId: string, userId: string): Promise<ISession | null> {
+    const session = await Session.findOne({ sessionId, userId });
+
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+      await Session.updateOne({ _id: session._id }, { lastSeenAt: new Date() });
+    }
+
+    return session;
+  }
+
+  async listActiveSessions(userId: Types.ObjectId | string): Promise<ISession[]> {
+    return Session.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastSeenAt: -1 });
+  }
+
+  async revokeSession(userId: Types.ObjectId | string, sessionId: string, reason: RevokeReason): Promise<boolean> {
+    const result = await Session.updateOne(
+      { userId, sessionId, revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  async revokeAllSessions(userId: Types.ObjectId | string, reason: RevokeReason, exceptSessionId?: string): Promise<number> {
+    const query: any = { userId, revokedAt: { $exists: false } };
+    if (exceptSessionId) {
+      query.sessionId = { $ne: exceptSessionId };
+    }
+
+    const result = await Session.updateMany(query, { revokedAt: new Date(), revokedReason: reason });
+
+    logger.info('Revoked user sessions', { userId: userId.toString(), reason, count: result.modifiedCount });
+    return result.modifiedCount;
+  }
+
+  private async markRevoked(session: ISession, reason: RevokeReason): Promise<void> {
+    await Session.updateOne(
+      { _id: session._id, revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+  }
+
+  private parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } {
+    const separator = typeof refreshToken === 'string' ? refreshToken.indexOf('.') : -1;
+    if (separator <= 0 || separator === refreshToken.length - 1) {
+      throw new Error('Malformed refresh token');
+    }
+
+    return {
+      sessionId: refreshToken.substring(0, separator),
+      secret: refreshToken.substring(separator + 1)
+    };
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private refreshExpiry(): Date {
+    return new Date(Date.now() + config.auth.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,204 @@
+import * as crypto from 'crypto';
+import { ethers } from 'ethers';
+import { WalletNonce, WalletNoncePurpose } from '../models/WalletNonce';
+import { User, IUser, IExternalWallet } from '../models/User';
+import { NETWORKS } from '../config/networks';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { buildSiweMessage, parseSiweMessage } from '../utils/siwe';
+
+export interface SiweChallenge {
+  message: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+export interface VerifiedWallet {
+  address: string;
+  chainId: number;
+}
+
+const STATEMENTS: Record<WalletNoncePurpose, string> = {
+  login: 'Sign in to Synkio with your wallet.',
+  link: 'Link this wallet to your Synkio account.'
+};
+
+class SiweService {
+  /**
+   * Issue a one-time EIP-4361 message for the wallet to sign
+   * Link challenges are bound to the requesting user.
+   */
+  async createChallenge(
+    address: string,
+    purpose: WalletNoncePurpose,
+    options: { userId?: string; chainId?: number } = {}
+  ): Promise<SiweChallenge> {
+    if (!address || !ethers.isAddress(address)) {
+      throw new Error('Invalid wallet address');
+    }
+
+    const chainId = options.chainId ?? NETWORKS[0].chainId;
+    if (!this.isSupportedChain(chainId)) {
+      throw new Error(`Unsupported chain id: ${chainId}`);
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + config.auth.siweNonceTtlMinutes * 60 * 1000);
+
+    await WalletNonce.create({
+      nonce,
+      address,
+      purpose,
+      userId: options.userId,
+      chainId,
+      expiresAt
+    });
+
+    const message = buildSiweMessage({
+      domain: config.auth.siweDomain,
+      address,
+      statement: STATEMENTS[purpose],
+      uri: config.auth.siweUri,
+      version: '1',
+      chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString()
+    });
+
+    return { message, nonce, expiresAt };
+  }
+
+  /**
+   * Check a signed SIWE message and burn its nonce
+   * Throws when the message, nonce or signature does not check out.
+   */
+  async verify(
+    message: string,
+    signature: string,
+    purpose: WalletNoncePurpose,
+    userId?: string
+  ): Promise<VerifiedWallet> {
+    if (!signature || typeof signature !== 'string') {
+      throw new Error('Signature is required');
+    }
+
+    const fields = parseSiweMessage(message);
+
+    if (fields.domain !== config.auth.siweDomain) {
+      throw new Error('SIWE message domain mismatch');
+    }
+    if (fields.uri !== config.auth.siweUri) {
+      throw new Error('SIWE message URI mismatch');
+    }
+    if (fields.version !== '1') {
+      throw new Error('Unsupported SIWE message version');
+    }
+    if (!this.isSupportedChain(fields.chainId)) {
+      throw new Error(`Unsupported chain id: ${fields.chainId}`);
+    }
+
+    const now = Date.now();
+    if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+      throw new Error('SIWE message has expired');
+    }
+    if (fields.notBefore && Date.parse(fields.notBefore) > now) {
+      throw new Error('SIWE message is not valid yet');
+    }
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyMessage(message, signature);
+    } catch {
+      throw new Error('Invalid signature');
+    }
+    if (recovered !== fields.address) {
+      throw new Error('Signature does not match the wallet address');
+    }
+
+    // Burn the nonce only after the signature checks out, so a bad attempt cannot lock the user out
+    const nonce = await WalletNonce.findOneAndUpdate(
+      {
+        nonce: fields.nonce,
+        address: fields.address.toLowerCase(),
+        purpose,
+        chainId: fields.chainId,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+        ...(userId && { userId })
+      },
+      { usedAt: new Date() },
+      { new: true }
+    );
+
+    if (!nonce) {
+      throw new Error('Unknown, expired or already used nonce');
+    }
+
+    return { address: fields.address, chainId: fields.chainId };
+  }
+
+  /**
+   * Verify a link signature and attach the wallet to the user
+   */
+  async linkWallet(
+    user: IUser,
+    message: string,
+    signature: string,
+    options: { label?: string; setAsPayout?: boolean } = {}
+  ): Promise<IExternalWallet> {
+    const verified = await this.verify(message, signature, 'link', user.id);
+    const address = verified.address.toLowerCase();
+
+    if (address === user.walletAddress) {
+      throw new Error('This is already your Synkio wallet');
+    }
+
+    const owner = await User.findOne({
+      _id: { $ne: user._id },
+      $or: [{ 'externalWallets.address': address }, { walletAddress: address }]
+    }).select('_id');
+    if (owner) {
+      throw new Error('Wallet is already linked to another account');
+    }
+
+    const now = new Date();
+    let wallet = user.externalWallets.find(w => w.address === address);
+    if (wallet) {
+      wallet.verifiedAt = now;
+      wallet.chainId = verified.chainId;
+      if (options.label) wallet.label = options.label;
+    } else {
+      user.externalWallets.push({
+        address,
+        chainId: verified.chainId,
+        label: options.label,
+        verifiedAt: now
+      });
+      wallet = user.externalWallets[user.externalWallets.length - 1];
+    }
+
+    if (options.setAsPayout) {
+      user.payoutWalletAddress = address;
+    }
+
+    await user.save();
+    logger.info('Linked external wallet', { email: user.email, address, payout: !!options.setAsPayout });
+
+    return wallet;
+  }
+
+  /**
+   * Find the account an external wallet signs in to
+   */
+  async findUserByWallet(address: string): Promise<IUser | null> {
+    return User.findOne({ 'externalWallets.address': address.toLowerCase() });
+  }
+
+  private isSupportedChain(chainId: number): boolean {
+    return NETWORKS.some(network => network.chainId === chainId);
+  }
+}
+
+export const siweService = new SiweService();
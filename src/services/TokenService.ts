@@ -1,34 +1,132 @@
 import { logger } from '../utils/logger';
 import { ethers } from 'ethers';
+import { NetworkConfig } from '../config/networks';
+import { Token, IToken } from '../models/Token';
 
-export interface ProviderConfig {
-  rpcUrl: string;
-  chainId?: number;
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
   name: string;
-  timeout?: number;
+  escrowSupported?: boolean;
+  source?: 'config' | 'admin';
 }
 
+/**
+ * Asks the escrow contract whether it accepts a token (EscrowService.isTokenSupported)
+ */
+export type EscrowSupportCheck = (tokenAddress: string) => Promise<boolean>;
+
+const ERC20_METADATA_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
+
+/**
+ * Token registry for one network and the money layer built on it
+ * Tokens are persisted per network and cached in memory keyed by lowercase address;
+ * every on-chain amount is parsed and formatted here with the token's own decimals.
+ */
 export class TokenService {
-  private static readonly BASE_SEPOLIA_TOKENS: Record<string, { symbol: string; decimals: number; name: string }> = {
-    '0x0000000000000000000000000000000000000000': {
-      symbol: 'ETH',
-      decimals: 18,
-      name: 'Ethereum'
-    },
-    '0x036CbD53842c5426634e7929541eC2318f3dCF7e': {
-      symbol: 'USDC',
-      decimals: 6,
-      name: 'USD Coin'
-    },
-    '0x4200000000000000000000000000000000000006': {
-      symbol: 'WETH',
-      decimals: 18,
-      name: 'Wrapped Ethereum'
+  private readonly tokens: Map<string, TokenInfo>;
+
+  constructor(private network: NetworkConfig, private provider: ethers.Provider) {
+    // Config tokens are usable before the registry has been loaded from the database
+    this.tokens = new Map(network.tokens.map(token => [token.address.toLowerCase(), { ...token, source: 'config' }]));
+    logger.info(`TokenService initialized for ${network.name}`);
+  }
+
+  /**
+   * Seed the configured tokens into the registry, then load every enabled token into memory
+   * Tokens never checked against the escrow contract are verified here.
+   */
+  async load(isEscrowSupported: EscrowSupportCheck): Promise<void> {
+    await Promise.all(this.network.tokens.map(token => Token.updateOne(
+      { network: this.network.key, address: token.address.toLowerCase() },
+      {
+        $setOnInsert: {
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          source: 'config'
+        }
+      },
+      { upsert: true }
+    )));
+
+    const records = await Token.find({ network: this.network.key });
+
+    for (const record of records.filter(record => record.enabled && !record.verifiedAt)) {
+      try {
+        record.escrowSupported = await this.checkEscrowSupport(record.address, isEscrowSupported);
+        record.verifiedAt = new Date();
+        await record.save();
+      } catch (error) {
+        logger.warn(`Could not verify escrow support for ${record.symbol} on ${this.network.name}:`, error);
+      }
     }
-  };
 
-  constructor(private providerConfig: ProviderConfig) {
-    logger.info(`TokenService initialized for ${providerConfig.name}`);
+    this.tokens.clear();
+    records.filter(record => record.enabled).forEach(record => this.cache(record));
+    logger.info(`Loaded ${this.tokens.size} token(s) for ${this.network.name}`);
+  }
+
+  /**
+   * Register an ERC-20 by address, reading its metadata from the contract itself
+   * Re-adding a disabled token enables it again with fresh metadata.
+   */
+  async addToken(tokenAddress: string, addedBy: string, isEscrowSupported: EscrowSupportCheck): Promise<TokenInfo> {
+    if (!ethers.isAddress(tokenAddress) || tokenAddress === ethers.ZeroAddress) {
+      throw Object.assign(new Error('A valid ERC-20 contract address is required'), { statusCode: 400 });
+    }
+
+    const address = tokenAddress.toLowerCase();
+    if (this.tokens.has(address)) {
+      throw Object.assign(new Error(`Token ${tokenAddress} is already registered on ${this.network.name}`), { statusCode: 409 });
+    }
+
+    const metadata = await this.fetchMetadata(address);
+    const escrowSupported = await this.checkEscrowSupport(address, isEscrowSupported);
+
+    const record = await Token.findOneAndUpdate(
+      { network: this.network.key, address },
+      {
+        $set: {
+          ...metadata,
+          escrowSupported,
+          verifiedAt: new Date(),
+          enabled: true,
+          addedBy
+        },
+        $setOnInsert: { source: 'admin' }
+      },
+      { upsert: true, new: true }
+    );
+
+    logger.info(`Token ${metadata.symbol} (${address}) added on ${this.network.name} by ${addedBy}`);
+    return this.cache(record);
+  }
+
+  /**
+   * Stop accepting a token for new escrows and payments; existing records keep their decimals
+   */
+  async disableToken(tokenAddress: string): Promise<void> {
+    const address = tokenAddress.toLowerCase();
+    if (address === ethers.ZeroAddress) {
+      throw Object.assign(new Error('The native currency cannot be disabled'), { statusCode: 400 });
+    }
+
+    const record = await Token.findOneAndUpdate(
+      { network: this.network.key, address, enabled: true },
+      { $set: { enabled: false } }
+    );
+    if (!record) {
+      throw Object.assign(new Error(`Token ${tokenAddress} is not registered on ${this.network.name}`), { statusCode: 404 });
+    }
+
+    this.tokens.delete(address);
+    logger.info(`Token ${record.symbol} (${address}) disabled on ${this.network.name}`);
   }
 
   async validateToken(tokenAddress: string): Promise<boolean> {
@@ -45,16 +143,24 @@ export class TokenService {
     }
   }
 
-  getTokenInfo(tokenAddress: string): { symbol: string; decimals: number; name: string } | null {
+  getTokenInfo(tokenAddress: string): TokenInfo | null {
     const normalizedAddress = tokenAddress.toLowerCase();
-    return TokenService.BASE_SEPOLIA_TOKENS[normalizedAddress] || null;
+    return this.tokens.get(normalizedAddress) || null;
+  }
+
+  /**
+   * Like getTokenInfo, but an unknown token is a client error rather than a silent 18-decimal guess
+   */
+  requireToken(tokenAddress: string): TokenInfo {
+    const info = this.getTokenInfo(tokenAddress);
+    if (!info) {
+      throw Object.assign(new Error(`Token ${tokenAddress} is not supported on ${this.network.name}`), { statusCode: 400 });
+    }
+    return info;
   }
 
-  async getSupportedTokens(): Promise<Array<{ address: string; symbol: string; decimals: number; name: string }>> {
-    return Object.entries(TokenService.BASE_SEPOLIA_TOKENS).map(([address, info]) => ({
-      address,
-      ...info
-    }));
+  async getSupportedTokens(): Promise<TokenInfo[]> {
+    return Array.from(this.tokens.values());
   }
 
   async getTokenSymbol(tokenAddress: string): Promise<string> {
@@ -63,8 +169,69 @@ export class TokenService {
   }
 
   async getTokenDecimals(tokenAddress: string): Promise<number> {
+    return this.requireToken(tokenAddress).decimals;
+  }
+
+  /**
+   * Convert a human amount ("12.5") into base units, rejecting more precision than the token has
+   */
+  parseAmount(tokenAddress: string, amount: string): bigint {
+    const { symbol, decimals } = this.requireToken(tokenAddress);
+
+    let parsed: bigint;
+    try {
+      parsed = ethers.parseUnits(String(amount), decimals);
+    } catch {
+      throw Object.assign(new Error(`Invalid ${symbol} amount: ${amount} (max ${decimals} decimals)`), { statusCode: 400 });
+    }
+
+    if (parsed <= 0n) {
+      throw Object.assign(new Error(`${symbol} amount must be greater than zero`), { statusCode: 400 });
+    }
+
+    return parsed;
+  }
+
+  /**
+   * For reading chain data back, so it never throws: a token that is not (or no longer) registered
+   * comes back in base units, and callers show it alongside the missing symbol
+   */
+  formatAmount(tokenAddress: string, baseUnits: bigint | string): string {
     const info = this.getTokenInfo(tokenAddress);
-    return info?.decimals || 18;
+    return info ? ethers.formatUnits(BigInt(baseUnits), info.decimals) : BigInt(baseUnits).toString();
   }
-}
 
+  private async fetchMetadata(address: string): Promise<Pick<TokenInfo, 'symbol' | 'name' | 'decimals'>> {
+    const contract = new ethers.Contract(address, ERC20_METADATA_ABI, this.provider);
+
+    try {
+      const [name, symbol, decimals] = await Promise.all([
+        contract.name(),
+        contract.symbol(),
+        contract.decimals()
+      ]);
+      return { name, symbol, decimals: Number(decimals) };
+    } catch (error) {
+      logger.warn(`ERC-20 metadata lookup failed for ${address} on ${this.network.name}:`, error);
+      throw Object.assign(new Error(`${address} does not look like an ERC-20 contract on ${this.network.name}`), { statusCode: 400 });
+    }
+  }
+
+  private async checkEscrowSupport(address: string, isEscrowSupported: EscrowSupportCheck): Promise<boolean> {
+    // The escrow contract always accepts the native currency
+    return address === ethers.ZeroAddress ? true : isEscrowSupported(address);
+  }
+
+  private cache(record: IToken): TokenInfo {
+    const info: TokenInfo = {
+      address: record.address,
+      symbol: record.symbol,
+      name: record.name,
+      decimals: record.decimals,
+      escrowSupported: record.escrowSupported,
+      source: record.source
+    };
+    this.tokens.set(record.address, info);
+    return info;
+  }
+}
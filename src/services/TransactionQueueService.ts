@@ -0,0 +1,712 @@
+import Bull, { Job, Queue } from 'bull';
+import * as crypto from 'crypto';
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { User } from '../models/User';
+import { WalletService } from './WalletService';
+import { getWebSocketService } from './websocket';
+import { gasSponsorshipService } from './GasSponsorshipService';
+import { getNetworkByChainId } from '../config/networks';
+
+/**
+ * Who signs a queued transaction
+ * User signers are resolved from User.encryptedPrivateKey inside the worker, so keys never sit in Redis.
+ */
+export type SignerRef =
+  | { type: 'platform' }
+  | { type: 'user'; userId: string; email: string };
+
+export interface QueuedCall {
+  method: string;
+  to: string;
+  data: string;
+  value?: string;
+}
+
+interface SubmittedCall {
+  nonce: number;
+  gasLimit: string;
+  fees: FeeFields;
+  // Every signed version of the call, recorded before it is sent
+  hashes: string[];
+  // The latest signed payload, re-sent as-is when the job is retried
+  raw?: string;
+  submittedAt: number;
+  receipt?: {
+    hash: string;
+    blockNumber: number;
+    status: number;
+    gasUsed: string;
+  };
+}
+
+interface FeeFields {
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+}
+
+export interface TransactionJobData {
+  kind: string;
+  chainId: number;
+  signer: SignerRef;
+  calls: QueuedCall[];
+  context?: Record<string, any>;
+  requestedBy?: string;
+  progress?: SubmittedCall[];
+}
+
+export interface TransactionJobResult {
+  hashes: string[];
+  result?: any;
+}
+
+export interface QueuedTransaction {
+  jobId: string;
+  kind: string;
+  status: 'queued';
+}
+
+export interface TransactionJobStatus {
+  jobId: string;
+  kind: string;
+  state: string;
+  chainId: number;
+  requestedBy?: string;
+  attemptsMade: number;
+  calls: Array<{
+    method: string;
+    nonce?: number;
+    hashes: string[];
+    confirmed: boolean;
+    blockNumber?: number;
+  }>;
+  result?: any;
+  failedReason?: string;
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Runs after every call in a job is mined; its return value becomes the job result
+ * Handlers must be idempotent - a handler failure retries the job, but mined calls are never resent.
+ */
+export type ConfirmationHandler = (
+  receipts: ethers.TransactionReceipt[],
+  data: TransactionJobData
+) => Promise<any>;
+
+/**
+ * Runs once a job has failed for good (retries exhausted or discarded)
+ */
+export type FailureHandler = (data: TransactionJobData, error: Error) => Promise<void>;
+
+const QUEUE_NAME = 'blockchain-transactions';
+const LOCK_TTL_MS = 60 * 1000;
+const LOCK_WAIT_MS = 2 * 60 * 1000;
+const RECEIPT_POLL_MS = 4000;
+const GAS_LIMIT_BUFFER_PERCENT = 120n;
+const REPLACEMENT_BUMP_PERCENT = 125n;
+// Headroom on a gas top-up for fee bumps between the estimate and the send
+const SPONSOR_TOP_UP_PERCENT = 150n;
+// Send errors where the node certainly did not accept the transaction
+const REFUSED_SEND_CODES = ['NONCE_EXPIRED', 'INSUFFICIENT_FUNDS', 'REPLACEMENT_UNDERPRICED'];
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+export const jobStatusPath = (jobId: string): string => `/api/transactions/jobs/${jobId}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class TransactionQueueService {
+  private queue: Queue<TransactionJobData> | null = null;
+  private readonly providers: Map<number, ethers.Provider> = new Map();
+  private defaultChainId = 0;
+  private platformPrivateKey = '';
+  private readonly handlers: Map<string, ConfirmationHandler> = new Map();
+  private readonly failureHandlers: Map<string, FailureHandler> = new Map();
+  private readonly walletService = new WalletService();
+
+  /**
+   * Connect to Redis and start processing jobs in this process
+   * One queue serves every network; each job is signed and broadcast on its own chain's provider.
+   */
+  start(options: {
+    networks: Array<{ chainId: number; provider: ethers.Provider }>;
+    defaultChainId: number;
+    platformPrivateKey: string;
+  }): void {
+    if (this.queue) {
+      return;
+    }
+
+    options.networks.forEach(network => this.providers.set(network.chainId, network.provider));
+    this.defaultChainId = options.defaultChainId;
+    this.platformPrivateKey = options.platformPrivateKey;
+
+    this.queue = new Bull<TransactionJobData>(QUEUE_NAME, config.redis.url, {
+      defaultJobOptions: {
+        attempts: config.blockchain.txMaxAttempts,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: { age: 7 * 24 * 60 * 60 },
+        removeOnFail: { age: 30 * 24 * 60 * 60 }
+      }
+    });
+
+    this.queue.process(config.blockchain.txConcurrency, job => this.process(job));
+
+    this.queue.on('completed', (job: Job<TransactionJobData>, result: TransactionJobResult) => {
+      logger.info(`Transaction job ${job.id} (${job.data.kind}) confirmed`, { hashes: result.hashes });
+      this.notify(job, 'transaction:confirmed', { hashes: result.hashes, result: result.result });
+    });
+
+    this.queue.on('failed', (job: Job<TransactionJobData>, error: Error) => {
+      const exhausted = job.attemptsMade >= (job.opts.attempts || 1) || job.finishedOn !== undefined;
+      logger.error(`Transaction job ${job.id} (${job.data.kind}) failed: ${error.message}`, {
+        attemptsMade: job.attemptsMade,
+        willRetry: !exhausted
+      });
+      if (exhausted) {
+        this.notify(job, 'transaction:failed', { error: error.message });
+        this.failureHandlers.get(job.data.kind)?.(job.data, error).catch(handlerError => {
+          logger.error(`Failure handler for job ${job.id} (${job.data.kind}) threw:`, handlerError);
+        });
+      }
+    });
+
+    this.queue.on('error', (error: Error) => {
+      logger.error('Transaction queue error:', error);
+    });
+
+    logger.info(`Transaction queue started for chains ${Array.from(this.providers.keys()).join(', ')} (concurrency ${config.blockchain.txConcurrency})`);
+  }
+
+  isRunning(): boolean {
+    return this.queue !== null;
+  }
+
+  registerHandler(kind: string, handler: ConfirmationHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  registerFailureHandler(kind: string, handler: FailureHandler): void {
+    this.failureHandlers.set(kind, handler);
+  }
+
+  async enqueue(data: Omit<TransactionJobData, 'chainId' | 'progress'> & { chainId?: number }): Promise<QueuedTransaction> {
+    const queue = this.requireQueue();
+    const jobId = crypto.randomUUID();
+    const chainId = data.chainId ?? this.defaultChainId;
+    this.requireProvider(chainId);
+
+    await queue.add({ ...data, chainId }, { jobId });
+    logger.info(`Queued transaction job ${jobId} (${data.kind})`, {
+      signer: data.signer.type === 'user' ? data.signer.email : 'platform',
+      calls: data.calls.map(call => call.method)
+    });
+
+    return { jobId, kind: data.kind, status: 'queued' };
+  }
+
+  async getStatus(jobId: string): Promise<TransactionJobStatus | null> {
+    const job = await this.requireQueue().getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const state = await job.getState();
+    const progress = job.data.progress || [];
+
+    return {
+      jobId,
+      kind: job.data.kind,
+      state,
+      chainId: job.data.chainId,
+      requestedBy: job.data.requestedBy,
+      attemptsMade: job.attemptsMade,
+      calls: job.data.calls.map((call, index) => ({
+        method: call.method,
+        nonce: progress[index]?.nonce,
+        hashes: progress[index]?.hashes || [],
+        confirmed: !!progress[index]?.receipt,
+        blockNumber: progress[index]?.receipt?.blockNumber
+      })),
+      result: (job.returnvalue as TransactionJobResult | undefined)?.result,
+      failedReason: job.failedReason,
+      createdAt: new Date(job.timestamp),
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : undefined
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.queue?.close();
+    this.queue = null;
+  }
+
+  private async process(job: Job<TransactionJobData>): Promise<TransactionJobResult> {
+    const data = job.data;
+    const provider = this.requireProvider(data.chainId);
+    const signer = await this.resolveSigner(data.signer, provider);
+    data.progress = data.progress || [];
+
+    const receipts: ethers.TransactionReceipt[] = [];
+
+    for (let index = 0; index < data.calls.length; index++) {
+      const known = data.progress[index]?.receipt;
+      if (known) {
+        const receipt = await provider.getTransactionReceipt(known.hash);
+        if (receipt) {
+          receipts.push(receipt);
+          continue;
+        }
+      }
+
+      if (!data.progress[index]) {
+        if (data.signer.type === 'user' && gasSponsorshipService.isEnabled()) {
+          await this.sponsorGas(job, signer, index);
+        }
+        await this.broadcast(job, signer, index);
+      } else {
+        await this.rebroadcast(job, index);
+      }
+
+      const receipt = await this.waitForConfirmation(job, signer, index);
+      if (receipt.status !== 1) {
+        await job.discard();
+        throw new Error(`${data.calls[index].method} reverted in ${receipt.hash}`);
+      }
+
+      data.progress[index].receipt = {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        status: receipt.status,
+        gasUsed: receipt.gasUsed.toString()
+      };
+      await job.update(data);
+      receipts.push(receipt);
+
+      if (data.signer.type === 'user') {
+        await gasSponsorshipService.recordCallGas(String(job.id), index, receipt);
+      }
+    }
+
+    const handler = this.handlers.get(data.kind);
+    const result = handler ? await handler(receipts, data) : undefined;
+
+    return { hashes: receipts.map(receipt => receipt.hash), result };
+  }
+
+  /**
+   * Assign the next local nonce and send the call while holding the signer lock
+   * The call is signed and its nonce and hash saved on the job before it is sent, so a send whose
+   * response is lost is retried under the same hash instead of being signed again with the next nonce.
+   */
+  private async broadcast(job: Job<TransactionJobData>, signer: ethers.Wallet, index: number): Promise<void> {
+    const data = job.data;
+    const call = data.calls[index];
+    const provider = this.requireProvider(data.chainId);
+
+    await this.withSignerLock(data.chainId, signer.address, async () => {
+      const nonce = await this.nextNonce(provider, data.chainId, signer.address);
+
+      let gasLimit: bigint;
+      try {
+        const estimate = await provider.estimateGas({ from: signer.address, to: call.to, data: call.data, value: BigInt(call.value || '0') });
+        gasLimit = estimate * GAS_LIMIT_BUFFER_PERCENT / 100n;
+      } catch (error: any) {
+        if (error.code === 'CALL_EXCEPTION') {
+          // The call would revert; resending will not change that
+          await job.discard();
+        }
+        throw error;
+      }
+
+      const fees = await this.currentFees(provider, job.attemptsMade);
+      const raw = await signer.signTransaction({
+        to: call.to,
+        data: call.data,
+        value: BigInt(call.value || '0'),
+        nonce,
+        gasLimit,
+        chainId: data.chainId,
+        ...this.toFeeOverrides(fees)
+      });
+      const hash = ethers.keccak256(raw);
+
+      data.progress![index] = {
+        nonce,
+        gasLimit: gasLimit.toString(),
+        fees,
+        hashes: [hash],
+        raw,
+        submittedAt: Date.now()
+      };
+      await job.update(data);
+      await this.requireQueue().client.set(this.nonceKey(data.chainId, signer.address), String(nonce + 1));
+
+      try {
+        await provider.broadcastTransaction(raw);
+        logger.info(`Broadcast ${call.method} for job ${job.id}: ${hash} (nonce ${nonce})`);
+      } catch (error: any) {
+        if (!REFUSED_SEND_CODES.includes(error.code)) {
+          // The node may have taken it; the retry re-sends the saved payload and waits on its hash
+          logger.warn(`Broadcast of ${call.method} for job ${job.id} unconfirmed (${hash}): ${error.shortMessage || error.message}`);
+          throw error;
+        }
+
+        // Refused outright, so the nonce is still free: forget the call and fall back to the chain's nonce
+        data.progress!.splice(index);
+        await job.update(data);
+        await this.requireQueue().client.del(this.nonceKey(data.chainId, signer.address));
+        if (error.code === 'INSUFFICIENT_FUNDS') {
+          await job.discard();
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Re-send the saved payload of a call a previous attempt signed
+   * The node either already has it, has mined it, or takes it now; waitForConfirmation handles all three.
+   */
+  private async rebroadcast(job: Job<TransactionJobData>, index: number): Promise<void> {
+    const submitted = job.data.progress![index];
+    if (!submitted.raw || submitted.receipt) {
+      return;
+    }
+
+    try {
+      await this.requireProvider(job.data.chainId).broadcastTransaction(submitted.raw);
+      logger.info(`Re-sent ${job.data.calls[index].method} for job ${job.id}: ${submitted.hashes[submitted.hashes.length - 1]}`);
+    } catch (error: any) {
+      logger.info(`Re-send for job ${job.id} not accepted (${error.code || error.message}); waiting on the saved hashes`);
+    }
+  }
+
+  /**
+   * Top up a user's custodial wallet from the treasury when it cannot pay for the next call
+   * Only gas is sponsored; a call whose value the user cannot cover fails as before.
+   * The shortfall is worked out and reserved under the user's signer lock, counting top-ups already on their
+   * way to the wallet, so concurrent jobs for one user do not each fund the same gap.
+   */
+  private async sponsorGas(job: Job<TransactionJobData>, signer: ethers.Wallet, index: number): Promise<void> {
+    const data = job.data;
+    const call = data.calls[index];
+    const provider = this.requireProvider(data.chainId);
+    const value = BigInt(call.value || '0');
+
+    let gasLimit: bigint;
+    try {
+      gasLimit = await provider.estimateGas({ from: signer.address, to: call.to, data: call.data, value }) * GAS_LIMIT_BUFFER_PERCENT / 100n;
+    } catch {
+      // broadcast repeats the estimate and handles the failure
+      return;
+    }
+
+    const fees = await this.currentFees(provider, job.attemptsMade);
+    const maxGasPrice = BigInt(fees.maxFeePerGas || fees.gasPrice || '0');
+    const gasCost = gasLimit * maxGasPrice;
+
+    const ref = data.signer as Extract<SignerRef, { type: 'user' }>;
+    const network = getNetworkByChainId(data.chainId)!.key;
+    const treasury = new ethers.Wallet(config.blockchain.gasTreasuryPrivateKey || this.platformPrivateKey, provider);
+
+    const record = await this.withSignerLock(data.chainId, signer.address, async () => {
+      const balance = await provider.getBalance(signer.address);
+      // The treasury never pays towards the value itself; broadcast rejects the call for insufficient funds
+      if (balance < value) {
+        return null;
+      }
+      const incoming = await gasSponsorshipService.inFlightTo(network, signer.address, { jobId: String(job.id), callIndex: index });
+      const available = balance + incoming - value;
+      if (available >= gasCost) {
+        return null;
+      }
+
+      return gasSponsorshipService.reserve({
+        userId: ref.userId,
+        email: ref.email,
+        network,
+        jobId: String(job.id),
+        callIndex: index,
+        kind: data.kind,
+        method: call.method,
+        escrowId: data.context?.escrowId,
+        treasury: treasury.address,
+        recipient: signer.address,
+        amount: (gasCost - available) * SPONSOR_TOP_UP_PERCENT / 100n
+      });
+    });
+    if (!record) {
+      return;
+    }
+
+    if (record.status === 'rejected') {
+      await job.discard();
+      throw new Error(`Insufficient ETH for gas and ${record.failureReason?.toLowerCase()}`);
+    }
+
+    if (record.status === 'pending' && !record.topUpHash) {
+      await this.withSignerLock(data.chainId, treasury.address, async () => {
+        const nonce = await this.nextNonce(provider, data.chainId, treasury.address);
+
+        try {
+          const tx = await treasury.sendTransaction({
+            to: signer.address,
+            value: BigInt(record.amount),
+            nonce,
+            chainId: data.chainId,
+            ...this.toFeeOverrides(await this.currentFees(provider, 0))
+          });
+          await this.requireQueue().client.set(this.nonceKey(data.chainId, treasury.address), String(nonce + 1));
+          await gasSponsorshipService.markSent(record, tx.hash);
+          logger.info(`Sponsored ${ethers.formatEther(record.amount)} ETH of gas for job ${job.id}: ${tx.hash}`);
+        } catch (error: any) {
+          if (error.code === 'NONCE_EXPIRED') {
+            await this.requireQueue().client.del(this.nonceKey(data.chainId, treasury.address));
+          }
+          await gasSponsorshipService.markFailed(record, error.shortMessage || error.message);
+          throw error;
+        }
+      });
+    }
+
+    if (record.status === 'pending') {
+      const receipt = await this.pollReceipt(provider, [record.topUpHash!], config.blockchain.txStuckAfterSeconds * 1000);
+      if (!receipt || receipt.status !== 1) {
+        throw new Error(`Gas top-up ${record.topUpHash} for job ${job.id} not confirmed`);
+      }
+      await gasSponsorshipService.markConfirmed(record);
+    }
+  }
+
+  /**
+   * Wait for any of the call's hashes to be mined, replacing it with higher fees when it gets stuck
+   */
+  private async waitForConfirmation(
+    job: Job<TransactionJobData>,
+    signer: ethers.Wallet,
+    index: number
+  ): Promise<ethers.TransactionReceipt> {
+    const provider = this.requireProvider(job.data.chainId);
+    const stuckAfterMs = config.blockchain.txStuckAfterSeconds * 1000;
+
+    while (true) {
+      const submitted = job.data.progress![index];
+      const receipt = await this.pollReceipt(provider, submitted.hashes, stuckAfterMs);
+      if (receipt) {
+        return receipt;
+      }
+
+      const minedNonce = await provider.getTransactionCount(signer.address, 'latest');
+      if (minedNonce > submitted.nonce) {
+        const late = await this.pollReceipt(provider, submitted.hashes, RECEIPT_POLL_MS * 3);
+        if (late) {
+          return late;
+        }
+        await job.discard();
+        throw new Error(`Nonce ${submitted.nonce} was used by a transaction outside this job`);
+      }
+
+      if (submitted.hashes.length > config.blockchain.txMaxReplacements) {
+        throw new Error(`${job.data.calls[index].method} still pending after ${submitted.hashes.length - 1} replacements`);
+      }
+
+      await this.replace(job, signer, index);
+    }
+  }
+
+  /**
+   * Resend the call with the same nonce and bumped fees
+   */
+  private async replace(job: Job<TransactionJobData>, signer: ethers.Wallet, index: number): Promise<void> {
+    const data = job.data;
+    const call = data.calls[index];
+    const submitted = data.progress![index];
+
+    const current = await this.currentFees(this.requireProvider(data.chainId), 0);
+    const bump = (previous?: string, latest?: string): string | undefined => {
+      if (!previous && !latest) return undefined;
+      const bumped = BigInt(previous || '0') * REPLACEMENT_BUMP_PERCENT / 100n;
+      const fresh = BigInt(latest || '0');
+      return (bumped > fresh ? bumped : fresh).toString();
+    };
+
+    const fees: FeeFields = submitted.fees.gasPrice
+      ? { gasPrice: bump(submitted.fees.gasPrice, current.gasPrice) }
+      : {
+          maxFeePerGas: bump(submitted.fees.maxFeePerGas, current.maxFeePerGas),
+          maxPriorityFeePerGas: bump(submitted.fees.maxPriorityFeePerGas, current.maxPriorityFeePerGas)
+        };
+
+    const raw = await signer.signTransaction({
+      to: call.to,
+      data: call.data,
+      value: BigInt(call.value || '0'),
+      nonce: submitted.nonce,
+      gasLimit: BigInt(submitted.gasLimit),
+      chainId: data.chainId,
+      ...this.toFeeOverrides(fees)
+    });
+    const hash = ethers.keccak256(raw);
+
+    // Saved first, like broadcast, so a replacement that is mined after a lost response is still recognised
+    const previousRaw = submitted.raw;
+    submitted.fees = fees;
+    submitted.hashes.push(hash);
+    submitted.raw = raw;
+    submitted.submittedAt = Date.now();
+    await job.update(data);
+
+    try {
+      await this.requireProvider(data.chainId).broadcastTransaction(raw);
+      logger.warn(`Replaced stuck ${call.method} for job ${job.id}: ${hash} (nonce ${submitted.nonce})`);
+    } catch (error: any) {
+      // Mined in the meantime, or the node wants an even higher bump; the next poll sorts it out
+      if (error.code === 'NONCE_EXPIRED' || error.code === 'REPLACEMENT_UNDERPRICED') {
+        submitted.raw = previousRaw;
+        await job.update(data);
+        logger.warn(`Replacement for job ${job.id} not accepted: ${error.code}`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async pollReceipt(
+    provider: ethers.Provider,
+    hashes: string[],
+    timeoutMs: number
+  ): Promise<ethers.TransactionReceipt | null> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      for (const hash of hashes) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (receipt) {
+          return receipt;
+        }
+      }
+      if (Date.now() >= deadline) {
+        return null;
+      }
+      await sleep(RECEIPT_POLL_MS);
+    }
+  }
+
+  /**
+   * Local nonce, corrected upwards when the chain has seen more transactions than we sent
+   */
+  private async nextNonce(provider: ethers.Provider, chainId: number, address: string): Promise<number> {
+    const [local, pending] = await Promise.all([
+      this.requireQueue().client.get(this.nonceKey(chainId, address)),
+      provider.getTransactionCount(address, 'pending')
+    ]);
+
+    return Math.max(pending, local ? Number(local) : 0);
+  }
+
+  /**
+   * Fee fields for a fresh send, bumped by 12.5% per failed attempt
+   */
+  private async currentFees(provider: ethers.Provider, attemptsMade: number): Promise<FeeFields> {
+    const feeData = await provider.getFeeData();
+    const multiplier = 1000n + BigInt(attemptsMade) * 125n;
+    const scale = (value: bigint | null) => value === null ? undefined : (value * multiplier / 1000n).toString();
+
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return {
+        maxFeePerGas: scale(feeData.maxFeePerGas),
+        maxPriorityFeePerGas: scale(feeData.maxPriorityFeePerGas)
+      };
+    }
+
+    return { gasPrice: scale(feeData.gasPrice) };
+  }
+
+  private toFeeOverrides(fees: FeeFields): Partial<ethers.TransactionRequest> {
+    return fees.gasPrice
+      ? { gasPrice: BigInt(fees.gasPrice) }
+      : {
+          maxFeePerGas: fees.maxFeePerGas ? BigInt(fees.maxFeePerGas) : undefined,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas ? BigInt(fees.maxPriorityFeePerGas) : undefined
+        };
+  }
+
+  private async withSignerLock<T>(chainId: number, address: string, fn: () => Promise<T>): Promise<T> {
+    const client = this.requireQueue().client;
+    const key = `txq:lock:${chainId}:${address.toLowerCase()}`;
+    const token = crypto.randomUUID();
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    while (!(await client.set(key, token, 'PX', LOCK_TTL_MS, 'NX'))) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for signer lock on ${address}`);
+      }
+      await sleep(250);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+    }
+  }
+
+  private nonceKey(chainId: number, address: string): string {
+    return `txq:nonce:${chainId}:${address.toLowerCase()}`;
+  }
+
+  private async resolveSigner(ref: SignerRef, provider: ethers.Provider): Promise<ethers.Wallet> {
+    if (ref.type === 'platform') {
+      return new ethers.Wallet(this.platformPrivateKey, provider);
+    }
+
+    const user = await User.findById(ref.userId).select('email walletAddress encryptedPrivateKey password');
+    if (!user) {
+      throw new Error(`Signer account ${ref.email} no longer exists`);
+    }
+
+    const wallet = this.walletService.getWallet(user.encryptedPrivateKey, user.password);
+    if (wallet.address.toLowerCase() !== user.walletAddress.toLowerCase()) {
+      throw new Error(`Custodial wallet for ${ref.email} does not match the account wallet address`);
+    }
+
+    return wallet.connect(provider);
+  }
+
+  private notify(job: Job<TransactionJobData>, event: string, payload: Record<string, any>): void {
+    if (!job.data.requestedBy) {
+      return;
+    }
+
+    getWebSocketService()?.notifyUser(job.data.requestedBy, event, {
+      jobId: job.id,
+      kind: job.data.kind,
+      ...payload
+    });
+  }
+
+  private requireQueue(): Queue<TransactionJobData> {
+    if (!this.queue) {
+      throw new Error('Transaction queue has not been started');
+    }
+    return this.queue;
+  }
+
+  private requireProvider(chainId: number): ethers.Provider {
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new Error(`Transaction queue has no provider for chain ${chainId}`);
+    }
+    return provider;
+  }
+}
+
+export const transactionQueueService = new TransactionQueueService();
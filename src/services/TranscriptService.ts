@@ -0,0 +1,151 @@
+import * as crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { Transcript, ITranscript, ITranscriptEntry } from '../models/Transcript';
+import { Conversation } from '../models/Conversation';
+import { Dispute, IDispute } from '../models/Dispute';
+import { ITransaction } from '../models/Transaction';
+
+// Chain seed for an empty transcript and the "previous hash" of the first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+type UnhashedEntry = Omit<ITranscriptEntry, 'index' | 'hash'>;
+
+/**
+ * Hash of one transcript entry, chained to the entry before it
+ * The entry is serialised as a fixed-order JSON array so the hash does not depend on key order.
+ */
+export const hashEntry = (previousHash: string, entry: Omit<ITranscriptEntry, 'hash'>): string =>
+  crypto.createHash('sha256')
+    .update(previousHash)
+    .update(JSON.stringify([
+      entry.index,
+      entry.source,
+      entry.sender,
+      entry.role,
+      new Date(entry.timestamp).toISOString(),
+      entry.content
+    ]))
+    .digest('hex');
+
+/**
+ * Tamper-evident snapshots of what buyer and seller said before a dispute
+ * Messages from the deal's Conversation and the Transaction's own message history are merged
+ * in time order and hash-chained; the root hash is written to the dispute.
+ */
+class TranscriptService {
+  /**
+   * Snapshot the messages sent up to the moment the dispute was opened; a second call returns the first snapshot
+   */
+  async snapshot(dispute: IDispute, transaction: ITransaction): Promise<ITranscript> {
+    const existing = await Transcript.findOne({ network: dispute.network, escrowId: dispute.escrowId });
+    if (existing) {
+      return existing;
+    }
+
+    const cutoff = dispute.createdAt;
+    const conversationId = transaction.conversationContext?.conversationId;
+    const messages: UnhashedEntry[] = [];
+
+    if (conversationId) {
+      const conversation = await Conversation.findOne({ conversationId });
+      if (conversation) {
+        messages.push(...conversation.messages
+          .filter(message => message.timestamp <= cutoff)
+          .map(message => ({
+            source: 'conversation' as const,
+            sender: message.role === 'user' ? conversation.userEmail : message.role,
+            role: message.role,
+            content: message.content,
+            timestamp: message.timestamp
+          })));
+      } else {
+        logger.warn(`Conversation ${conversationId} linked to escrow ${dispute.escrowId} was not found`);
+      }
+    }
+
+    messages.push(...(transaction.conversationContext?.messageHistory || [])
+      .filter(message => message.timestamp <= cutoff)
+      .map(message => ({
+        source: 'transaction' as const,
+        sender: message.sender,
+        role: message.type,
+        content: message.message,
+        timestamp: message.timestamp
+      })));
+
+    const entries = this.chain(messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+    const rootHash = entries.length > 0 ? entries[entries.length - 1].hash : GENESIS_HASH;
+
+    let transcript: ITranscript;
+    try {
+      transcript = await Transcript.create({
+        network: dispute.network,
+        escrowId: dispute.escrowId,
+        conversationId,
+        entries,
+        rootHash,
+        capturedAt: new Date()
+      });
+    } catch (error: any) {
+      // Another writer snapshotted the same dispute first
+      if (error.code === 11000) {
+        return (await Transcript.findOne({ network: dispute.network, escrowId: dispute.escrowId }))!;
+      }
+      throw error;
+    }
+
+    await Dispute.updateOne(
+      { _id: dispute._id, 'transcript.rootHash': null },
+      {
+        $set: {
+          transcript: {
+            rootHash,
+            messageCount: entries.length,
+            conversationId,
+            capturedAt: transcript.capturedAt
+          }
+        }
+      }
+    );
+
+    logger.info(`Transcript of ${entries.length} message(s) captured for the dispute on escrow ${dispute.escrowId} (${rootHash})`);
+    return transcript;
+  }
+
+  async get(dispute: IDispute): Promise<ITranscript> {
+    const transcript = await Transcript.findOne({ network: dispute.network, escrowId: dispute.escrowId });
+    if (!transcript) {
+      throw Object.assign(new Error('No transcript was captured for this dispute'), { statusCode: 404 });
+    }
+    return transcript;
+  }
+
+  /**
+   * Recompute the chain and compare it with the root hash recorded on the dispute
+   */
+  verify(dispute: IDispute, transcript: ITranscript): { valid: boolean; brokenAt?: number } {
+    let previousHash = GENESIS_HASH;
+
+    for (const entry of transcript.entries) {
+      const hash = hashEntry(previousHash, entry);
+      if (hash !== entry.hash) {
+        return { valid: false, brokenAt: entry.index };
+      }
+      previousHash = hash;
+    }
+
+    return { valid: previousHash === dispute.transcript?.rootHash && previousHash === transcript.rootHash };
+  }
+
+  private chain(messages: UnhashedEntry[]): ITranscriptEntry[] {
+    let previousHash = GENESIS_HASH;
+
+    return messages.map((message, index) => {
+      const hash = hashEntry(previousHash, { ...message, index });
+      previousHash = hash;
+      return { ...message, index, hash };
+    });
+  }
+}
+
+export const transcriptService = new TranscriptService();
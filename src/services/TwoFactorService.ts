@@ -0,0 +1,203 @@
+import * as crypto from 'crypto';
+import { User, IUser } from '../models/User';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+export type SecondFactorMethod = 'totp' | 'backup_code';
+
+export interface SecondFactorResult {
+  valid: boolean;
+  method?: SecondFactorMethod;
+  locked?: boolean;
+}
+
+const BACKUP_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const SECRET_ALGORITHM = 'aes-256-gcm';
+
+class TwoFactorService {
+  private readonly secretKey: Buffer | null;
+
+  constructor() {
+    this.secretKey = config.auth.encryptionKey
+      ? crypto.scryptSync(config.auth.encryptionKey, 'synkio-totp-secret', 32)
+      : null;
+
+    if (!this.secretKey) {
+      logger.warn('ENCRYPTION_KEY is not set, two-factor enrollment is unavailable');
+    }
+  }
+
+  /**
+   * Start enrollment by storing a pending secret
+   * The secret only becomes active once a code generated from it is confirmed.
+   */
+  async beginEnrollment(user: IUser): Promise<{ secret: string; otpauthUri: string }> {
+    if (user.twoFactor?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    user.set('twoFactor.pendingSecret', this.encryptSecret(secret));
+    await user.save();
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(config.auth.totpIssuer, user.email, secret)
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * Returns the plaintext backup codes, which are only ever shown once.
+   */
+  async confirmEnrollment(user: IUser, code: string): Promise<string[]> {
+    const pending = user.twoFactor?.pendingSecret;
+    if (!pending) {
+      throw new Error('No two-factor enrollment in progress');
+    }
+
+    const secret = this.decryptSecret(pending);
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    user.set('twoFactor', {
+      enabled: true,
+      secret: pending,
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      failedAttempts: 0,
+      backupCodes: backupCodes.map(backupCode => ({ hash: this.hashBackupCode(backupCode) }))
+    });
+    await user.save();
+
+    logger.info('Two-factor authentication enabled', { email: user.email });
+    return backupCodes;
+  }
+
+  async disable(user: IUser): Promise<void> {
+    user.set('twoFactor', { enabled: false, failedAttempts: 0, backupCodes: [] });
+    await user.save();
+    logger.info('Two-factor authentication disabled', { email: user.email });
+  }
+
+  async regenerateBackupCodes(user: IUser): Promise<string[]> {
+    const backupCodes = this.generateBackupCodes();
+    user.set('twoFactor.backupCodes', backupCodes.map(backupCode => ({ hash: this.hashBackupCode(backupCode) })));
+    await user.save();
+    return backupCodes;
+  }
+
+  /**
+   * Check a TOTP or backup code for a user with two-factor enabled
+   * TOTP steps and backup codes are consumed atomically so neither can be replayed,
+   * and repeated failures lock the second factor for a while.
+   */
+  async verify(user: IUser, code: string): Promise<SecondFactorResult> {
+    const twoFactor = user.twoFactor;
+    if (!twoFactor?.enabled || !twoFactor.secret) {
+      return { valid: false };
+    }
+
+    if (twoFactor.lockedUntil && twoFactor.lockedUntil > new Date()) {
+      return { valid: false, locked: true };
+    }
+
+    const normalized = typeof code === 'string' ? code.trim() : '';
+    let method: SecondFactorMethod | undefined;
+
+    const step = /^\d{6}$/.test(normalized) ? verifyTotp(this.decryptSecret(twoFactor.secret), normalized) : null;
+    if (step !== null) {
+      const result = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [
+            { 'twoFactor.lastUsedStep': { $lt: step } },
+            { 'twoFactor.lastUsedStep': { $exists: false } }
+          ]
+        },
+        { 'twoFactor.lastUsedStep': step, 'twoFactor.failedAttempts': 0 }
+      );
+      if (result.modifiedCount === 1) {
+        method = 'totp';
+      }
+    } else if (normalized) {
+      const result = await User.updateOne(
+        {
+          _id: user._id,
+          'twoFactor.backupCodes': { $elemMatch: { hash: this.hashBackupCode(normalized), usedAt: { $exists: false } } }
+        },
+        { $set: { 'twoFactor.backupCodes.$.usedAt': new Date(), 'twoFactor.failedAttempts': 0 } }
+      );
+      if (result.modifiedCount === 1) {
+        method = 'backup_code';
+        logger.info('Backup code used', { email: user.email });
+      }
+    }
+
+    if (method) {
+      return { valid: true, method };
+    }
+
+    const failedAttempts = (twoFactor.failedAttempts || 0) + 1;
+    const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+    await User.updateOne(
+      { _id: user._id },
+      locked
+        ? { 'twoFactor.failedAttempts': 0, 'twoFactor.lockedUntil': new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000) }
+        : { 'twoFactor.failedAttempts': failedAttempts }
+    );
+
+    if (locked) {
+      logger.warn('Two-factor locked after repeated failures', { email: user.email });
+    }
+
+    return { valid: false, locked };
+  }
+
+  remainingBackupCodes(user: IUser): number {
+    return (user.twoFactor?.backupCodes || []).filter(backupCode => !backupCode.usedAt).length;
+  }
+
+  private generateBackupCodes(): string[] {
+    return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+    });
+  }
+
+  private hashBackupCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+  }
+
+  private encryptSecret(secret: string): string {
+    if (!this.secretKey) {
+      throw new Error('ENCRYPTION_KEY is not configured');
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(SECRET_ALGORITHM, this.secretKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+  }
+
+  private decryptSecret(encrypted: string): string {
+    if (!this.secretKey) {
+      throw new Error('ENCRYPTION_KEY is not configured');
+    }
+
+    const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv(SECRET_ALGORITHM, this.secretKey, iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
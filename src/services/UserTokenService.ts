@@ -0,0 +1,66 @@
+import * as crypto from 'crypto';
+import { UserToken, IUserToken, UserTokenPurpose } from '../models/UserToken';
+import { IUser } from '../models/User';
+import { logger } from '../utils/logger';
+import { config } from '../config/env';
+
+class UserTokenService {
+  /**
+   * Issue a single-use token for the given purpose
+   * Any earlier unused token for the same purpose is invalidated.
+   */
+  async issue(user: IUser, purpose: UserTokenPurpose): Promise<{ token: string; expiresAt: Date }> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.ttlMs(purpose));
+
+    await UserToken.updateMany(
+      { userId: user._id, purpose, usedAt: { $exists: false } },
+      { usedAt: new Date() }
+    );
+
+    await UserToken.create({
+      userId: user._id,
+      email: user.email,
+      purpose,
+      tokenHash: this.hash(token),
+      expiresAt
+    });
+
+    logger.info('Issued user token', { email: user.email, purpose, expiresAt });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Atomically mark a token as used and return it
+   * Returns null for unknown, expired or already-used tokens.
+   */
+  async consume(token: string, purpose: UserTokenPurpose): Promise<IUserToken | null> {
+    if (!token || typeof token !== 'string') {
+      return null;
+    }
+
+    return UserToken.findOneAndUpdate(
+      {
+        tokenHash: this.hash(token),
+        purpose,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      },
+      { usedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  private ttlMs(purpose: UserTokenPurpose): number {
+    return purpose === 'email_verification'
+      ? config.auth.emailVerificationTtlHours * 60 * 60 * 1000
+      : config.auth.passwordResetTtlMinutes * 60 * 1000;
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export const userTokenService = new UserTokenService();
@@ -1,15 +1,61 @@
 import { ethers } from 'ethers';
 import * as crypto from 'crypto';
 import { logger } from '../utils/logger';
+import { config } from '../config/env';
+
+interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * Versioned private key envelope, stored as "v2." + base64url(JSON)
+ * kid names the master key from the keyring that wrapped it.
+ */
+interface KeyEnvelope {
+  v: number;
+  alg: 'aes-256-gcm';
+  kdf: ScryptParams & { name: 'scrypt' };
+  kid: string;
+  salt: string;
+  iv: string;
+  tag: string;
+  ct: string;
+}
+
+const ENVELOPE_PREFIX = 'v2.';
+const ENVELOPE_VERSION = 2;
+const ENVELOPE_ALGORITHM = 'aes-256-gcm';
+const LEGACY_ALGORITHM = 'aes-256-cbc';
+const SCRYPT_PARAMS: ScryptParams = { N: 16384, r: 8, p: 1 };
 
 export class WalletService {
   private encryptionKey: string;
+  private currentKeyId: string;
+  private keyring: Map<string, string>;
 
   constructor() {
-    this.encryptionKey = process.env.ENCRYPTION_KEY || 'default-key-change-in-production';
+    this.encryptionKey = config.auth.encryptionKey || 'default-key-change-in-production';
     if (this.encryptionKey === 'default-key-change-in-production') {
       logger.warn('Using default encryption key. Change ENCRYPTION_KEY in production!');
     }
+
+    this.currentKeyId = config.auth.encryptionKeyId;
+    this.keyring = new Map([[this.currentKeyId, this.encryptionKey]]);
+
+    // Previous master keys stay readable until the rotation job has re-wrapped every record
+    for (const entry of config.auth.previousEncryptionKeys.split(',').map(item => item.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        logger.warn('Ignoring malformed ENCRYPTION_PREVIOUS_KEYS entry, expected "keyId:key"');
+        continue;
+      }
+      const keyId = entry.substring(0, separator);
+      if (!this.keyring.has(keyId)) {
+        this.keyring.set(keyId, entry.substring(separator + 1));
+      }
+    }
   }
 
   /**
@@ -41,6 +87,7 @@ export class WalletService {
   /**
    * Decrypt private key for wallet operations
    * Requires password hash for decryption (two-factor encryption)
+   * Reads both the versioned envelope and the legacy "iv:encrypted" format.
    */
   decryptPrivateKey(encryptedPrivateKey: string, passwordHash: string): string {
     try {
@@ -56,68 +103,30 @@ export class WalletService {
         logger.warn('Using default encryption key - this may cause decryption failures if key was changed');
       }
 
-      const algorithm = 'aes-256-cbc';
-      
-      const parts = encryptedPrivateKey.split(':');
-      if (parts.length !== 2) {
-        logger.error(`Invalid encrypted key format. Expected format: "iv:encrypted", got: ${encryptedPrivateKey.substring(0, 20)}...`);
-        throw new Error('Invalid encrypted private key format - expected "iv:encrypted" format');
-      }
-
-      if (parts[0].length !== 32 || !/^[0-9a-f]+$/i.test(parts[0])) {
-        logger.error(`Invalid IV format. IV must be 32 hex characters, got: ${parts[0].length} chars`);
-        throw new Error('Invalid IV format in encrypted private key');
-      }
-
-      if (parts[1].length === 0 || !/^[0-9a-f]+$/i.test(parts[1])) {
-        logger.error(`Invalid encrypted data format. Encrypted data must be hex string, got: ${parts[1].length} chars`);
-        throw new Error('Invalid encrypted data format in private key');
-      }
-
-      const iv = Buffer.from(parts[0], 'hex');
-      if (iv.length !== 16) {
-        throw new Error(`Invalid IV length: expected 16 bytes, got ${iv.length}`);
-      }
-
-      const encrypted = Buffer.from(parts[1], 'hex');
-      if (encrypted.length === 0) {
-        throw new Error('Encrypted data is empty');
-      }
-      
-      const combinedKey = crypto.createHash('sha256')
-        .update(this.encryptionKey + passwordHash)
-        .digest('hex');
-      
-      const key = crypto.scryptSync(combinedKey, 'salt', 32);
-      
-      const decipher = crypto.createDecipheriv(algorithm, key, iv);
-      
-      let decrypted = decipher.update(encrypted, undefined, 'utf8');
-      decrypted += decipher.final('utf8');
+      const decrypted = encryptedPrivateKey.startsWith(ENVELOPE_PREFIX)
+        ? this.decryptEnvelope(this.parseEnvelope(encryptedPrivateKey), passwordHash)
+        : this.decryptLegacy(encryptedPrivateKey, passwordHash);
 
       if (!decrypted || decrypted.length === 0) {
         throw new Error('Decryption resulted in empty private key');
       }
 
-      if (!decrypted.startsWith('0x') || decrypted.length !== 66) {
-        logger.warn(`Decrypted key format may be invalid. Expected 66-char hex string starting with 0x, got: ${decrypted.length} chars`);
-      }
-
       return decrypted;
     } catch (error: any) {
-      if (error.code === 'ERR_OSSL_BAD_DECRYPT') {
+      if (error.code === 'ERR_OSSL_BAD_DECRYPT' || error.message?.includes('unable to authenticate data')) {
         logger.error('Decryption failed - possible causes:', {
           error: error.message,
           hasEncryptionKey: !!this.encryptionKey,
           encryptionKeyLength: this.encryptionKey?.length || 0,
+          knownKeyIds: Array.from(this.keyring.keys()),
           passwordHashLength: passwordHash?.length || 0,
-          encryptedKeyFormat: encryptedPrivateKey?.split(':').length || 0,
+          envelope: this.describeEnvelope(encryptedPrivateKey),
           encryptedKeyLength: encryptedPrivateKey?.length || 0
         });
         throw new Error('Failed to decrypt private key - ENCRYPTION_KEY may have changed or password hash mismatch');
       }
       
-      if (error.message.includes('Invalid') || error.message.includes('format')) {
+      if (error.message.includes('Invalid') || error.message.includes('format') || error.message.includes('Unknown encryption key')) {
         logger.error('Invalid encrypted key format:', {
           error: error.message,
           keyPreview: encryptedPrivateKey?.substring(0, 50) || 'null'
@@ -134,35 +143,188 @@ export class WalletService {
     }
   }
 
+  /**
+   * Re-encrypt a private key for a new password hash
+   * Must run whenever the user's password hash changes, otherwise the wallet becomes undecryptable
+   */
+  reencryptPrivateKey(encryptedPrivateKey: string, oldPasswordHash: string, newPasswordHash: string): string {
+    const privateKey = this.decryptPrivateKey(encryptedPrivateKey, oldPasswordHash);
+    return this.encryptPrivateKey(privateKey, newPasswordHash);
+  }
+
+  /**
+   * Re-wrap a private key under the current master key and KDF parameters
+   * The password hash is unchanged; used by the ENCRYPTION_KEY rotation job
+   */
+  rewrapPrivateKey(encryptedPrivateKey: string, passwordHash: string): string {
+    return this.reencryptPrivateKey(encryptedPrivateKey, passwordHash, passwordHash);
+  }
+
+  /**
+   * Whether a stored key was written with a legacy format, an old master key or old KDF parameters
+   */
+  needsRewrap(encryptedPrivateKey: string): boolean {
+    if (!encryptedPrivateKey?.startsWith(ENVELOPE_PREFIX)) {
+      return true;
+    }
+
+    const envelope = this.parseEnvelope(encryptedPrivateKey);
+    return envelope.kid !== this.currentKeyId ||
+      envelope.alg !== ENVELOPE_ALGORITHM ||
+      envelope.kdf.N !== SCRYPT_PARAMS.N ||
+      envelope.kdf.r !== SCRYPT_PARAMS.r ||
+      envelope.kdf.p !== SCRYPT_PARAMS.p;
+  }
+
+  /**
+   * Summarize a stored key without decrypting it
+   */
+  describeEnvelope(encryptedPrivateKey: string): { version: number; keyId: string | null; algorithm: string } {
+    if (!encryptedPrivateKey?.startsWith(ENVELOPE_PREFIX)) {
+      return { version: 1, keyId: null, algorithm: LEGACY_ALGORITHM };
+    }
+
+    try {
+      const envelope = this.parseEnvelope(encryptedPrivateKey);
+      return { version: envelope.v, keyId: envelope.kid, algorithm: envelope.alg };
+    } catch {
+      return { version: 0, keyId: null, algorithm: 'unknown' };
+    }
+  }
+
+  getCurrentKeyId(): string {
+    return this.currentKeyId;
+  }
+
   /**
    * Encrypt private key for secure storage
    * Uses password hash as additional encryption factor
+   * Always writes a v2 envelope under the current master key.
    */
   private encryptPrivateKey(privateKey: string, passwordHash: string): string {
     try {
-      const algorithm = 'aes-256-cbc';
-      
-      // Combine master key and password hash for enhanced security
-      const combinedKey = crypto.createHash('sha256')
-        .update(this.encryptionKey + passwordHash)
-        .digest('hex');
-      
-      const key = crypto.scryptSync(combinedKey, 'salt', 32);
-      const iv = crypto.randomBytes(16);
+      const salt = crypto.randomBytes(16);
+      const iv = crypto.randomBytes(12);
+      const key = this.deriveKey(this.encryptionKey, passwordHash, salt, SCRYPT_PARAMS);
+
+      const cipher = crypto.createCipheriv(ENVELOPE_ALGORITHM, key, iv);
+      cipher.setAAD(this.envelopeAad(ENVELOPE_VERSION, this.currentKeyId));
 
-      const cipher = crypto.createCipheriv(algorithm, key, iv);
+      const ciphertext = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
 
-      let encrypted = cipher.update(privateKey, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
+      const envelope: KeyEnvelope = {
+        v: ENVELOPE_VERSION,
+        alg: ENVELOPE_ALGORITHM,
+        kdf: { name: 'scrypt', ...SCRYPT_PARAMS },
+        kid: this.currentKeyId,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        ct: ciphertext.toString('base64')
+      };
 
-      // Combine IV and encrypted data
-      return `${iv.toString('hex')}:${encrypted}`;
+      return `${ENVELOPE_PREFIX}${Buffer.from(JSON.stringify(envelope)).toString('base64url')}`;
     } catch (error) {
       logger.error('Error encrypting private key:', error);
       throw new Error('Failed to encrypt private key');
     }
   }
 
+  private decryptEnvelope(envelope: KeyEnvelope, passwordHash: string): string {
+    const masterKey = this.keyring.get(envelope.kid);
+    if (!masterKey) {
+      throw new Error(`Unknown encryption key id "${envelope.kid}" - add it to ENCRYPTION_PREVIOUS_KEYS`);
+    }
+
+    const key = this.deriveKey(masterKey, passwordHash, Buffer.from(envelope.salt, 'base64'), envelope.kdf);
+    const decipher = crypto.createDecipheriv(envelope.alg, key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAAD(this.envelopeAad(envelope.v, envelope.kid));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.ct, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+
+  /**
+   * Decrypt the original AES-CBC format with its fixed scrypt salt
+   * It carries no key id, so every master key in the keyring is tried.
+   */
+  private decryptLegacy(encryptedPrivateKey: string, passwordHash: string): string {
+    const parts = encryptedPrivateKey.split(':');
+    if (parts.length !== 2) {
+      logger.error(`Invalid encrypted key format. Expected format: "iv:encrypted", got: ${encryptedPrivateKey.substring(0, 20)}...`);
+      throw new Error('Invalid encrypted private key format - expected "iv:encrypted" format');
+    }
+
+    if (parts[0].length !== 32 || !/^[0-9a-f]+$/i.test(parts[0])) {
+      logger.error(`Invalid IV format. IV must be 32 hex characters, got: ${parts[0].length} chars`);
+      throw new Error('Invalid IV format in encrypted private key');
+    }
+
+    if (parts[1].length === 0 || !/^[0-9a-f]+$/i.test(parts[1])) {
+      logger.error(`Invalid encrypted data format. Encrypted data must be hex string, got: ${parts[1].length} chars`);
+      throw new Error('Invalid encrypted data format in private key');
+    }
+
+    const iv = Buffer.from(parts[0], 'hex');
+    const encrypted = Buffer.from(parts[1], 'hex');
+
+    let lastError: any = null;
+    for (const masterKey of this.keyring.values()) {
+      try {
+        const combinedKey = crypto.createHash('sha256')
+          .update(masterKey + passwordHash)
+          .digest('hex');
+
+        const key = crypto.scryptSync(combinedKey, 'salt', 32);
+        const decipher = crypto.createDecipheriv(LEGACY_ALGORITHM, key, iv);
+
+        let decrypted = decipher.update(encrypted, undefined, 'utf8');
+        decrypted += decipher.final('utf8');
+
+        // CBC padding occasionally validates under the wrong key, so check the payload too
+        if (/^0x[0-9a-fA-F]{64}$/.test(decrypted)) {
+          return decrypted;
+        }
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw lastError || Object.assign(new Error('bad decrypt'), { code: 'ERR_OSSL_BAD_DECRYPT' });
+  }
+
+  private parseEnvelope(encryptedPrivateKey: string): KeyEnvelope {
+    let envelope: KeyEnvelope;
+    try {
+      envelope = JSON.parse(Buffer.from(encryptedPrivateKey.substring(ENVELOPE_PREFIX.length), 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid encrypted private key envelope format');
+    }
+
+    if (envelope.v !== ENVELOPE_VERSION || envelope.alg !== ENVELOPE_ALGORITHM || envelope.kdf?.name !== 'scrypt' ||
+        !envelope.kid || !envelope.salt || !envelope.iv || !envelope.tag || !envelope.ct) {
+      throw new Error('Invalid encrypted private key envelope format');
+    }
+
+    return envelope;
+  }
+
+  private deriveKey(masterKey: string, passwordHash: string, salt: Buffer, params: ScryptParams): Buffer {
+    return crypto.scryptSync(`${masterKey}:${passwordHash}`, salt, 32, {
+      N: params.N,
+      r: params.r,
+      p: params.p,
+      maxmem: 128 * params.N * params.r * 2
+    });
+  }
+
+  private envelopeAad(version: number, keyId: string): Buffer {
+    return Buffer.from(`synkio-wallet-key:v${version}:${keyId}`, 'utf8');
+  }
+
   /**
    * Get wallet instance from encrypted private key
    * Requires password hash for decryption
@@ -195,8 +357,8 @@ export class WalletService {
   }
 
   /**
-   * Get wallet balance with fallback handling
-   * Requires password hash for decryption
+   * Get native wallet balance
+   * Requires password hash for decryption; an unreachable provider is a 503, never a zero balance
    */
   async getWalletBalance(encryptedPrivateKey: string, passwordHash: string, provider?: ethers.Provider): Promise<string> {
     try {
@@ -214,16 +376,15 @@ export class WalletService {
           const balance = await provider.getBalance(wallet.address);
           return ethers.formatEther(balance);
         } catch (providerError: any) {
-          logger.warn('Provider failed to get balance, using fallback:', {
+          logger.warn('Provider failed to get balance:', {
             address: wallet.address,
             error: providerError.message
           });
         }
       }
-      
-      logger.warn(`Using fallback balance (0.0) for wallet ${wallet.address}`);
-      return '0.0';
-      
+
+      throw Object.assign(new Error('Balance unavailable: no RPC provider answered'), { statusCode: 503 });
+
     } catch (error: any) {
       logger.error('Error getting wallet balance:', {
         error: error.message,
@@ -232,7 +393,7 @@ export class WalletService {
         hasPasswordHash: !!passwordHash
       });
       
-      if (error.message.includes('ENCRYPTION_KEY') || error.message.includes('password hash')) {
+      if (error.statusCode || error.message.includes('ENCRYPTION_KEY') || error.message.includes('password hash')) {
         throw error;
       }
       
@@ -0,0 +1,235 @@
+import * as crypto from 'crypto';
+import { ethers } from 'ethers';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { IUser } from '../models/User';
+import { Withdrawal, IWithdrawal } from '../models/Withdrawal';
+import { NetworkKey } from '../config/networks';
+import { networkRegistry } from './NetworkRegistry';
+import { SafetyService } from './SafetyService';
+import { transactionQueueService, QueuedTransaction } from './TransactionQueueService';
+import { gasSponsorshipService } from './GasSponsorshipService';
+
+const IERC20 = new ethers.Interface([
+  'function transfer(address to, uint256 amount) external returns (bool)',
+  'function balanceOf(address owner) view returns (uint256)'
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Withdrawals that count against the daily limit and the spendable balance
+const ACTIVE_STATUSES = ['queued', 'confirmed'];
+const BLOCKED_RISK_LEVELS = ['high', 'critical'];
+
+export interface WithdrawalRequest {
+  network: NetworkKey;
+  to: string;
+  amount: string;
+  tokenAddress: string;
+}
+
+/**
+ * Moves funds out of a user's custodial wallet
+ * Every request gets a ledger entry, including ones rejected by limits or the safety check,
+ * and the transfer itself is signed and broadcast by the transaction queue.
+ */
+class WithdrawalService {
+  private readonly safetyService = new SafetyService();
+  private limits: Map<string, string> | null = null;
+
+  async requestWithdrawal(user: IUser, request: WithdrawalRequest): Promise<{ withdrawal: IWithdrawal; job: QueuedTransaction }> {
+    const { network, provider, tokenService } = networkRegistry.get(request.network);
+    const token = tokenService.requireToken(request.tokenAddress);
+    const amount = tokenService.parseAmount(token.address, request.amount);
+    const from = user.walletAddress.toLowerCase();
+
+    if (!ethers.isAddress(request.to) || request.to === ethers.ZeroAddress) {
+      throw Object.assign(new Error('A valid destination address is required'), { statusCode: 400 });
+    }
+    const to = request.to.toLowerCase();
+    if (to === from) {
+      throw Object.assign(new Error('Destination is the wallet being withdrawn from'), { statusCode: 400 });
+    }
+
+    const limit = this.dailyLimit(token.symbol, token.decimals);
+
+    const call = token.address === ethers.ZeroAddress
+      ? { method: 'transfer', to, data: '0x', value: amount.toString() }
+      : { method: 'transfer', to: token.address, data: IERC20.encodeFunctionData('transfer', [to, amount]) };
+
+    const withdrawal = await Withdrawal.create({
+      withdrawalId: crypto.randomUUID(),
+      userId: user._id,
+      email: user.email,
+      network: network.key,
+      from,
+      to,
+      tokenAddress: token.address,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      amount: amount.toString(),
+      history: [{ status: 'queued', description: 'Withdrawal requested' }]
+    });
+
+    try {
+      // Counted after our own entry exists, so two concurrent requests cannot both slip under the limit
+      const withdrawnToday = await this.sumActive(withdrawal, { createdAt: { $gte: new Date(Date.now() - DAY_MS) } });
+      if (withdrawnToday > limit) {
+        const remaining = limit - (withdrawnToday - amount);
+        throw Object.assign(
+          new Error(`Daily ${token.symbol} withdrawal limit exceeded; ${ethers.formatUnits(remaining > 0n ? remaining : 0n, token.decimals)} ${token.symbol} remaining`),
+          { statusCode: 429 }
+        );
+      }
+
+      let gasLimit: bigint;
+      try {
+        gasLimit = await provider.estimateGas({ from, to: call.to, data: call.data, value: BigInt(call.value || '0') });
+      } catch (error: any) {
+        logger.warn(`Withdrawal ${withdrawal.withdrawalId} gas estimate failed:`, error.shortMessage || error.message);
+        // The usual cause is a short balance; report that precisely when it is
+        await this.assertBalance(withdrawal, provider, amount, 0n);
+        throw Object.assign(new Error('Transfer would fail on-chain; check the amount and destination'), { statusCode: 400 });
+      }
+      const feeData = await provider.getFeeData();
+      const fee = gasLimit * (feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n);
+      withdrawal.estimatedGas = gasLimit.toString();
+      withdrawal.estimatedFee = fee.toString();
+
+      await this.assertBalance(withdrawal, provider, amount, fee);
+
+      const safety = await this.safetyService.checkTransactionSafety({
+        to,
+        value: withdrawal.amount,
+        chain: 'base'
+      });
+      withdrawal.safety = {
+        riskLevel: safety.riskLevel,
+        score: safety.score,
+        recommendation: safety.recommendation
+      };
+      if (BLOCKED_RISK_LEVELS.includes(safety.riskLevel)) {
+        throw Object.assign(new Error(`Destination failed the safety check: ${safety.reasons.join('; ')}`), { statusCode: 403 });
+      }
+
+      const job = await transactionQueueService.enqueue({
+        kind: 'withdrawal',
+        chainId: network.chainId,
+        signer: { type: 'user', userId: user.id, email: user.email },
+        calls: [call],
+        context: { withdrawalId: withdrawal.withdrawalId },
+        requestedBy: user.email
+      });
+
+      withdrawal.jobId = job.jobId;
+      await withdrawal.save();
+
+      logger.info(`Withdrawal ${withdrawal.withdrawalId} queued: ${request.amount} ${token.symbol} to ${to} on ${network.name}`);
+      return { withdrawal, job };
+    } catch (error: any) {
+      withdrawal.status = 'rejected';
+      withdrawal.failureReason = error.message;
+      withdrawal.history.push({ status: 'rejected', timestamp: new Date(), description: error.message });
+      await withdrawal.save();
+      throw error;
+    }
+  }
+
+  async markConfirmed(withdrawalId: string, receipt: ethers.TransactionReceipt): Promise<void> {
+    await Withdrawal.updateOne(
+      { withdrawalId, status: 'queued' },
+      {
+        status: 'confirmed',
+        transactionHash: receipt.hash,
+        gasUsed: receipt.gasUsed.toString(),
+        confirmedAt: new Date(),
+        $push: { history: { status: 'confirmed', description: `Confirmed in block ${receipt.blockNumber}` } }
+      }
+    );
+  }
+
+  async markFailed(withdrawalId: string, reason: string): Promise<void> {
+    await Withdrawal.updateOne(
+      { withdrawalId, status: 'queued' },
+      {
+        status: 'failed',
+        failureReason: reason,
+        $push: { history: { status: 'failed', description: reason } }
+      }
+    );
+  }
+
+  /**
+   * On-chain balance less what this user's other queued withdrawals will spend
+   * Gas is paid in the native currency, by the user or within their sponsorship budget.
+   */
+  private async assertBalance(withdrawal: IWithdrawal, provider: ethers.Provider, amount: bigint, fee: bigint): Promise<void> {
+    const queued = { status: 'queued', _id: { $ne: withdrawal._id } };
+    const nativeBalance = await provider.getBalance(withdrawal.from);
+
+    if (withdrawal.tokenAddress === ethers.ZeroAddress) {
+      const available = nativeBalance - await this.sumActive(withdrawal, queued);
+      if (available < amount || (available < amount + fee && !(await this.canSponsor(withdrawal, amount + fee - available)))) {
+        throw Object.assign(
+          new Error(`Insufficient ${withdrawal.symbol}: ${ethers.formatUnits(available > 0n ? available : 0n, withdrawal.decimals)} available, ${ethers.formatUnits(amount + fee, withdrawal.decimals)} needed including gas`),
+          { statusCode: 400 }
+        );
+      }
+      return;
+    }
+
+    const token = new ethers.Contract(withdrawal.tokenAddress, IERC20, provider);
+    const available = (await token.balanceOf(withdrawal.from) as bigint) - await this.sumActive(withdrawal, queued);
+    if (available < amount) {
+      throw Object.assign(
+        new Error(`Insufficient ${withdrawal.symbol}: ${ethers.formatUnits(available > 0n ? available : 0n, withdrawal.decimals)} available`),
+        { statusCode: 400 }
+      );
+    }
+    if (nativeBalance < fee && !(await this.canSponsor(withdrawal, fee - nativeBalance))) {
+      throw Object.assign(new Error(`Insufficient ETH for gas: ${ethers.formatEther(fee)} ETH needed`), { statusCode: 400 });
+    }
+  }
+
+  private async canSponsor(withdrawal: IWithdrawal, shortfall: bigint): Promise<boolean> {
+    if (!gasSponsorshipService.isEnabled()) {
+      return false;
+    }
+    const { remaining } = await gasSponsorshipService.getBudget(withdrawal.userId.toString());
+    return ethers.parseEther(remaining) >= shortfall;
+  }
+
+  private async sumActive(withdrawal: IWithdrawal, filter: Record<string, any>): Promise<bigint> {
+    const others = await Withdrawal.find({
+      userId: withdrawal.userId,
+      network: withdrawal.network,
+      tokenAddress: withdrawal.tokenAddress,
+      status: { $in: ACTIVE_STATUSES },
+      ...filter
+    }).select('amount').lean();
+
+    return others.reduce((sum, other) => sum + BigInt(other.amount), 0n);
+  }
+
+  /**
+   * Rolling 24h limit per user and token symbol, from WITHDRAWAL_DAILY_LIMITS ("ETH:1,USDC:5000")
+   * Tokens without a configured limit cannot be withdrawn.
+   */
+  private dailyLimit(symbol: string, decimals: number): bigint {
+    if (!this.limits) {
+      this.limits = new Map(config.blockchain.withdrawalDailyLimits
+        .split(',')
+        .map(entry => entry.split(':').map(part => part.trim()))
+        .filter(([tokenSymbol, limit]) => tokenSymbol && limit)
+        .map(([tokenSymbol, limit]) => [tokenSymbol.toUpperCase(), limit]));
+    }
+
+    const limit = this.limits.get(symbol.toUpperCase());
+    if (!limit) {
+      throw Object.assign(new Error(`Withdrawals of ${symbol} are not enabled`), { statusCode: 400 });
+    }
+    return ethers.parseUnits(limit, decimals);
+  }
+}
+
+export const withdrawalService = new WithdrawalService();
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { NetworkKey } from '../config/networks';
 
 /**
  * Channel Enum - Centralized channel definitions
@@ -50,14 +51,29 @@ export enum Chain {
   SOLANA = 'solana'
 }
 
+export enum UserRole {
+  BUYER = 'buyer',
+  VENDOR = 'vendor',
+  ARBITRATOR = 'arbitrator',
+  SUPPORT = 'support',
+  ADMIN = 'admin'
+}
+
 export interface AuthenticatedRequest extends Request {
   user?: {
+    id: string;
+    sessionId: string;
     email: string;
     walletAddress: string;
-
+    roles?: UserRole[];
   };
 }
 
+// Set by the selectNetwork middleware
+export interface NetworkRequest extends Request {
+  network?: NetworkKey;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -80,6 +96,7 @@ export interface VendorSearchQuery extends PaginationQuery {
 }
 
 export interface TransactionQuery extends PaginationQuery {
+  network?: NetworkKey;
   status?: string;
   type?: 'marketplace' | 'service';
   buyerEmail?: string;
@@ -0,0 +1,114 @@
+import { ethers } from 'ethers';
+
+/**
+ * EIP-4361 (Sign-In with Ethereum) message fields
+ * Only the fields Synkio issues are supported; resources are ignored.
+ */
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const FIELD_KEYS: Record<string, keyof SiweMessageFields> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId'
+};
+
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain}${HEADER_SUFFIX}`,
+    ethers.getAddress(fields.address),
+    ''
+  ];
+
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+  if (fields.requestId) lines.push(`Request ID: ${fields.requestId}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse a SIWE message back into its fields
+ * Throws when the message does not follow the EIP-4361 layout.
+ */
+export function parseSiweMessage(message: string): SiweMessageFields {
+  if (!message || typeof message !== 'string') {
+    throw new Error('SIWE message is required');
+  }
+
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+
+  if (!lines[0]?.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Invalid SIWE message header');
+  }
+  const domain = lines[0].substring(0, lines[0].length - HEADER_SUFFIX.length);
+
+  const address = lines[1];
+  if (!address || !ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    throw new Error('Invalid SIWE message address - expected an EIP-55 checksummed address');
+  }
+
+  const parsed: Partial<SiweMessageFields> = { domain, address };
+  let index = 3;
+
+  // Optional statement sits between two blank lines
+  if (lines[2] === '' && lines[3] !== undefined && !lines[3].startsWith('URI: ')) {
+    parsed.statement = lines[3];
+    index = 5;
+  }
+
+  for (const line of lines.slice(index)) {
+    if (line === '' || line.startsWith('Resources:') || line.startsWith('- ')) {
+      continue;
+    }
+
+    const separator = line.indexOf(': ');
+    const key = FIELD_KEYS[line.substring(0, separator)];
+    if (separator <= 0 || !key) {
+      throw new Error(`Unexpected SIWE message line: ${line}`);
+    }
+
+    const value = line.substring(separator + 2);
+    if (key === 'chainId') {
+      parsed.chainId = Number(value);
+    } else {
+      (parsed as any)[key] = value;
+    }
+  }
+
+  if (!parsed.uri || !parsed.version || !parsed.chainId || !Number.isInteger(parsed.chainId) || !parsed.nonce || !parsed.issuedAt) {
+    throw new Error('SIWE message is missing required fields');
+  }
+
+  return parsed as SiweMessageFields;
+}
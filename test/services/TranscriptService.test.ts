@@ -0,0 +1,90 @@
+import { IDispute } from '../../src/models/Dispute';
+import { ITranscript, ITranscriptEntry } from '../../src/models/Transcript';
+import { hashEntry, transcriptService } from '../../src/services/TranscriptService';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+const MESSAGES: Array<Omit<ITranscriptEntry, 'index' | 'hash'>> = [
+  { source: 'conversation', sender: 'buyer@example.com', role: 'user', content: 'Is the laptop still available?', timestamp: new Date('2024-01-01T10:00:00Z') },
+  { source: 'conversation', sender: 'assistant', role: 'assistant', content: 'Yes, it ships tomorrow.', timestamp: new Date('2024-01-01T10:01:00Z') },
+  { source: 'transaction', sender: 'seller@example.com', role: 'seller', content: 'Shipped with tracking 1Z999.', timestamp: new Date('2024-01-02T09:00:00Z') }
+];
+
+const chain = (): ITranscriptEntry[] => {
+  let previousHash = GENESIS_HASH;
+  return MESSAGES.map((message, index) => {
+    const hash = hashEntry(previousHash, { ...message, index });
+    previousHash = hash;
+    return { ...message, index, hash };
+  });
+};
+
+const fixture = (entries: ITranscriptEntry[]) => {
+  const rootHash = entries.length > 0 ? entries[entries.length - 1].hash : GENESIS_HASH;
+  return {
+    transcript: { entries, rootHash } as unknown as ITranscript,
+    dispute: { transcript: { rootHash } } as unknown as IDispute
+  };
+};
+
+describe('TranscriptService', () => {
+  describe('hashEntry', () => {
+    it('chains each entry to the hash before it', () => {
+      const entry = { ...MESSAGES[0], index: 0 };
+      expect(hashEntry(GENESIS_HASH, entry)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashEntry(GENESIS_HASH, entry)).not.toBe(hashEntry('f'.repeat(64), entry));
+    });
+
+    it('does not depend on key order or the timestamp representation', () => {
+      const entry = { ...MESSAGES[0], index: 0 };
+      const reordered = { content: entry.content, index: 0, timestamp: new Date(entry.timestamp.getTime()), role: entry.role, sender: entry.sender, source: entry.source };
+      expect(hashEntry(GENESIS_HASH, reordered)).toBe(hashEntry(GENESIS_HASH, entry));
+    });
+  });
+
+  describe('verify', () => {
+    it('accepts an untouched transcript', () => {
+      const { dispute, transcript } = fixture(chain());
+      expect(transcriptService.verify(dispute, transcript)).toEqual({ valid: true });
+    });
+
+    it('accepts an empty transcript anchored at the genesis hash', () => {
+      const { dispute, transcript } = fixture([]);
+      expect(transcriptService.verify(dispute, transcript)).toEqual({ valid: true });
+    });
+
+    it.each(['content', 'sender', 'role'] as const)('fails at the entry whose %s was edited', field => {
+      const entries = chain();
+      const { dispute, transcript } = fixture(entries);
+      entries[1] = { ...entries[1], [field]: `${entries[1][field]} (edited)` };
+
+      expect(transcriptService.verify(dispute, transcript)).toEqual({ valid: false, brokenAt: 1 });
+    });
+
+    it('fails at the edited entry even when its hash was recomputed', () => {
+      const entries = chain();
+      const { dispute, transcript } = fixture(entries);
+      const edited = { ...entries[1], content: 'It never shipped.' };
+      entries[1] = { ...edited, hash: hashEntry(entries[0].hash, edited) };
+
+      expect(transcriptService.verify(dispute, transcript)).toEqual({ valid: false, brokenAt: 2 });
+    });
+
+    it('fails when an entry was removed', () => {
+      const entries = chain();
+      const { dispute, transcript } = fixture(entries);
+      entries.splice(1, 1);
+
+      expect(transcriptService.verify(dispute, transcript)).toEqual({ valid: false, brokenAt: 2 });
+    });
+
+    it('fails when the chain no longer ends at the root hash on the dispute', () => {
+      const entries = chain();
+      const { dispute, transcript } = fixture(entries);
+      entries.pop();
+      transcript.rootHash = entries[entries.length - 1].hash;
+
+      expect(transcriptService.verify(dispute, transcript)).toEqual({ valid: false });
+    });
+  });
+});
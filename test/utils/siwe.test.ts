@@ -0,0 +1,67 @@
+import { buildSiweMessage, parseSiweMessage, SiweMessageFields } from '../../src/utils/siwe';
+
+const FIELDS: SiweMessageFields = {
+  domain: 'app.synkio.io',
+  address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  statement: 'Sign in to Synkio',
+  uri: 'https://app.synkio.io',
+  version: '1',
+  chainId: 84532,
+  nonce: 'k3n1x9Qz0pWm',
+  issuedAt: '2024-01-01T00:00:00.000Z',
+  expirationTime: '2024-01-01T00:10:00.000Z'
+};
+
+const MESSAGE = buildSiweMessage(FIELDS);
+
+describe('siwe', () => {
+  describe('parseSiweMessage', () => {
+    it('parses the messages buildSiweMessage issues', () => {
+      expect(parseSiweMessage(MESSAGE)).toEqual(FIELDS);
+    });
+
+    it('parses a message without a statement', () => {
+      const { statement, ...fields } = FIELDS;
+      expect(parseSiweMessage(buildSiweMessage(fields))).toEqual(fields);
+    });
+
+    it('accepts CRLF line endings and skips resources', () => {
+      const message = `${MESSAGE}\nResources:\n- https://app.synkio.io/terms`.replace(/\n/g, '\r\n');
+      expect(parseSiweMessage(message)).toEqual(FIELDS);
+    });
+
+    it('rejects an empty message', () => {
+      expect(() => parseSiweMessage('')).toThrow('SIWE message is required');
+    });
+
+    it('rejects a message with the wrong header', () => {
+      const message = MESSAGE.replace('wants you to sign in', 'would like you to sign in');
+      expect(() => parseSiweMessage(message)).toThrow('Invalid SIWE message header');
+    });
+
+    it('rejects an address that is not EIP-55 checksummed', () => {
+      const message = MESSAGE.replace(FIELDS.address, FIELDS.address.toLowerCase());
+      expect(() => parseSiweMessage(message)).toThrow('expected an EIP-55 checksummed address');
+    });
+
+    it('rejects an address that is not an address', () => {
+      const message = MESSAGE.replace(FIELDS.address, '0x1234');
+      expect(() => parseSiweMessage(message)).toThrow('expected an EIP-55 checksummed address');
+    });
+
+    it('rejects unknown fields', () => {
+      const message = MESSAGE.replace('Version: 1', 'Version: 1\nSession: abc');
+      expect(() => parseSiweMessage(message)).toThrow('Unexpected SIWE message line: Session: abc');
+    });
+
+    it.each(['URI', 'Version', 'Chain ID', 'Nonce', 'Issued At'])('rejects a message missing %s', field => {
+      const message = MESSAGE.split('\n').filter(line => !line.startsWith(`${field}: `)).join('\n');
+      expect(() => parseSiweMessage(message)).toThrow('SIWE message is missing required fields');
+    });
+
+    it('rejects a chain id that is not an integer', () => {
+      const message = MESSAGE.replace('Chain ID: 84532', 'Chain ID: base');
+      expect(() => parseSiweMessage(message)).toThrow('SIWE message is missing required fields');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { base32Decode, base32Encode, currentTimeStep, generateTotp, verifyTotp } from '../../src/utils/totp';
+
+// RFC 6238 appendix B seed for HMAC-SHA1, base32-encoded the way authenticator apps receive it
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('round-trips the RFC seed', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(base32Decode(RFC_SECRET).toString('ascii')).toBe('12345678901234567890');
+    });
+
+    it('ignores case, spaces, dashes and padding', () => {
+      expect(base32Decode('gezd-gnbv gy3t====').toString('ascii')).toBe('1234567');
+    });
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    // The RFC lists 8-digit codes; a 6-digit code is the same value mod 10^6
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130']
+    ])('matches the RFC 6238 vector at T=%is', (seconds, code) => {
+      expect(generateTotp(RFC_SECRET, currentTimeStep(seconds * 1000))).toBe(code);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111111 * 1000;
+    const step = currentTimeStep(now);
+
+    it('accepts the current code and returns its step', () => {
+      expect(verifyTotp(RFC_SECRET, '050471', 1, now)).toBe(step);
+    });
+
+    it('accepts codes one step either side within the default window', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+    });
+
+    it('rejects codes outside the window', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 0, now)).toBeNull();
+    });
+
+    it('tolerates spaces but rejects anything that is not six digits', () => {
+      expect(verifyTotp(RFC_SECRET, '050 471', 1, now)).toBe(step);
+      expect(verifyTotp(RFC_SECRET, '50471', 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '05047a', 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '', 1, now)).toBeNull();
+    });
+  });
+});